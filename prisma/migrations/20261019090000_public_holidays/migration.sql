@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PayrollCompanySettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "state" TEXT NOT NULL DEFAULT 'NSW',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollCompanySettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollPublicHoliday" (
+    "id" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "state" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'EXTRA',
+    "replacesDate" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollPublicHoliday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollPublicHoliday_date_idx" ON "PayrollPublicHoliday"("date");
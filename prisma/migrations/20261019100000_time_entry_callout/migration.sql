@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN "isCallout" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "MobileTimeEntry" ADD COLUMN "isCallout" BOOLEAN NOT NULL DEFAULT false;
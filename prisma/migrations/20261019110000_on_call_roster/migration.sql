@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "PayrollOnCallRoster" (
+    "id" TEXT NOT NULL,
+    "xeroEmployeeId" TEXT NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Australia/Sydney',
+    "rate" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollOnCallRoster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollOnCallRoster_xeroEmployeeId_startAt_idx" ON "PayrollOnCallRoster"("xeroEmployeeId", "startAt");
+
+-- CreateIndex
+CREATE INDEX "PayrollOnCallRoster_startAt_idx" ON "PayrollOnCallRoster"("startAt");
+
+-- AddForeignKey
+ALTER TABLE "PayrollOnCallRoster" ADD CONSTRAINT "PayrollOnCallRoster_xeroEmployeeId_fkey" FOREIGN KEY ("xeroEmployeeId") REFERENCES "PayrollEmployee"("xeroEmployeeId") ON DELETE CASCADE ON UPDATE CASCADE;
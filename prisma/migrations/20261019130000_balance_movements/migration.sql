@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PayrollBalanceMovement" (
+    "id" TEXT NOT NULL,
+    "xeroEmployeeId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollBalanceMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollBalanceMovement_xeroEmployeeId_kind_idx" ON "PayrollBalanceMovement"("xeroEmployeeId", "kind");
+
+-- CreateIndex
+CREATE INDEX "PayrollBalanceMovement_date_idx" ON "PayrollBalanceMovement"("date");
+
+-- AddForeignKey
+ALTER TABLE "PayrollBalanceMovement" ADD CONSTRAINT "PayrollBalanceMovement_xeroEmployeeId_fkey" FOREIGN KEY ("xeroEmployeeId") REFERENCES "PayrollEmployee"("xeroEmployeeId") ON DELETE CASCADE ON UPDATE CASCADE;
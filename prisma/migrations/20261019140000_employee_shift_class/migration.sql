@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PayrollEmployee" ADD COLUMN "shiftClass" TEXT;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "PayrollEmployee" ADD COLUMN "homeDepot" TEXT;
+
+-- CreateTable
+CREATE TABLE "PayrollSite" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'SITE',
+    "code" TEXT NOT NULL,
+    "name" TEXT,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollSite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollSite_kind_code_key" ON "PayrollSite"("kind", "code");
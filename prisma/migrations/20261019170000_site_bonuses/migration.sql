@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "PayrollBonusScheme" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "site" TEXT NOT NULL,
+    "formula" TEXT NOT NULL,
+    "minDaysAttended" INTEGER,
+    "cap" DOUBLE PRECISION,
+    "ote" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollBonusScheme_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollSiteMetric" (
+    "id" TEXT NOT NULL,
+    "site" TEXT NOT NULL,
+    "periodStart" TEXT NOT NULL,
+    "periodEnd" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollSiteMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollSiteMetric_site_periodStart_periodEnd_metric_key" ON "PayrollSiteMetric"("site", "periodStart", "periodEnd", "metric");
+
+-- CreateIndex
+CREATE INDEX "PayrollSiteMetric_periodStart_idx" ON "PayrollSiteMetric"("periodStart");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "PayrollDeductionSchedule" (
+    "id" TEXT NOT NULL,
+    "xeroEmployeeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'other',
+    "amountType" TEXT NOT NULL DEFAULT 'fixed',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "startDate" TEXT,
+    "endDate" TEXT,
+    "cap" DOUBLE PRECISION,
+    "preTax" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollDeductionSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollDeductionSchedule_xeroEmployeeId_idx" ON "PayrollDeductionSchedule"("xeroEmployeeId");
+
+-- AddForeignKey
+ALTER TABLE "PayrollDeductionSchedule" ADD CONSTRAINT "PayrollDeductionSchedule_xeroEmployeeId_fkey" FOREIGN KEY ("xeroEmployeeId") REFERENCES "PayrollEmployee"("xeroEmployeeId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "PayrollSuperLedger" (
+    "id" TEXT NOT NULL,
+    "xeroEmployeeId" TEXT NOT NULL,
+    "periodStart" TEXT NOT NULL,
+    "periodEnd" TEXT NOT NULL,
+    "quarterStart" TEXT NOT NULL,
+    "ote" DOUBLE PRECISION NOT NULL,
+    "superBase" DOUBLE PRECISION NOT NULL,
+    "superGuarantee" DOUBLE PRECISION NOT NULL,
+    "salarySacrifice" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollSuperLedger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollSuperLedger_quarterStart_idx" ON "PayrollSuperLedger"("quarterStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollSuperLedger_xeroEmployeeId_periodStart_periodEnd_key" ON "PayrollSuperLedger"("xeroEmployeeId", "periodStart", "periodEnd");
+
+-- AddForeignKey
+ALTER TABLE "PayrollSuperLedger" ADD CONSTRAINT "PayrollSuperLedger_xeroEmployeeId_fkey" FOREIGN KEY ("xeroEmployeeId") REFERENCES "PayrollEmployee"("xeroEmployeeId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "PayrollPayCategory" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "ote" BOOLEAN,
+    "superLiable" BOOLEAN,
+    "payrollTaxLiable" BOOLEAN,
+    "workersCompLiable" BOOLEAN,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollPayCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollPayCategory_key_key" ON "PayrollPayCategory"("key");
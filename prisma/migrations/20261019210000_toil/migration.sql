@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN "bankToil" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "MobileTimeEntry" ADD COLUMN "bankToil" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "PayrollEmployee" ADD COLUMN "toilElection" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PayrollEmployee" ADD COLUMN "userId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollEmployee_userId_key" ON "PayrollEmployee"("userId");
+
+-- AddForeignKey
+ALTER TABLE "PayrollEmployee" ADD CONSTRAINT "PayrollEmployee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "PayrollEarningsRateMapping" (
+    "id" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "earningsRateId" TEXT NOT NULL,
+    "earningsRateName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollEarningsRateMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollEarningsRateMapping_category_key" ON "PayrollEarningsRateMapping"("category");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PayrollEmployee" ADD COLUMN "workDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[];
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { requireMobileUser } from "~/server/auth/requireMobileUser";
+import { balanceTotals } from "~/server/payroll/balances";
+
+export const runtime = "nodejs";
+
+// Banked time for the signed-in worker, e.g. { rdo: { minutes: 132, hours: 2.2 }, toil: { ... } }.
+// Only the payroll employee linked to this login (PayrollEmployee.userId, set on the Employees page) is used;
+// with no link the worker gets EMPLOYEE_NOT_LINKED rather than a guess by name.
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await requireMobileUser(req);
+    const employee = await db.payrollEmployee.findUnique({ where: { userId }, select: { xeroEmployeeId: true } });
+    if (!employee) return NextResponse.json({ ok: false, error: "EMPLOYEE_NOT_LINKED" }, { status: 404 });
+
+    const totals = (await balanceTotals({ xeroEmployeeId: employee.xeroEmployeeId })).get(employee.xeroEmployeeId) ?? {};
+    const balance = (minutes: number) => ({ minutes, hours: Math.round((minutes / 60) * 100) / 100, negative: minutes < 0 });
+
+    return NextResponse.json({
+      ok: true,
+      balances: { rdo: balance(Number(totals.rdo ?? 0)), toil: balance(Number(totals.toil ?? 0)) },
+    });
+  } catch (e: any) {
+    const msg = String(e?.message ?? e);
+    const status = msg === "UNAUTHENTICATED" || msg === "TOKEN_EXPIRED" ? 401 : 500;
+    return NextResponse.json({ ok: false, error: msg }, { status });
+  }
+}
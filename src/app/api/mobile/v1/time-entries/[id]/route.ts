@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "~/server/db";
 import { requireMobileUser } from "~/server/auth/requireMobileUser";
+import { parseFlag } from "~/payroll_calc/normalize";
 
 export const runtime = "nodejs";
 
@@ -25,6 +26,14 @@ export async function PATCH(req: NextRequest, ctx: { params: { id: string } }) {
     if (body.endAt != null) data.endAt = new Date(String(body.endAt));
     if (body.timezone != null) data.timezone = String(body.timezone);
     if (body.notes !== undefined) data.notes = body.notes ? String(body.notes) : null;
+    if (body.isCallout !== undefined) data.isCallout = body.isCallout === true || body.isCallout === "true";
+    // true = bank this entry's overtime as TOIL, false = pay it, null = the employee's election
+    if (body.bankToil !== undefined) {
+      data.bankToil = parseFlag(body.bankToil);
+      if (body.bankToil != null && data.bankToil == null) {
+        return NextResponse.json({ ok: false, error: "BAD_BANK_TOIL" }, { status: 400 });
+      }
+    }
 
     const start = data.startAt ?? existing.startAt;
     const end = data.endAt ?? existing.endAt;
@@ -0,0 +1,95 @@
+// src/app/api/payroll/balances/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { balanceTotals } from "~/server/payroll/balances";
+import { isISODate } from "~/payroll_calc/time";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+/**
+ * GET ?before=YYYY-MM-DD (optional): banked minutes per employee, e.g. { xeroEmployeeId, rdo, toil }
+ * &accruedSince=YYYY-MM-DD (optional): also each accrual dated from then until `before`, e.g. for TOIL cash-out
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const before = s(req.nextUrl.searchParams.get("before"));
+    const accruedSince = s(req.nextUrl.searchParams.get("accruedSince"));
+    if ((before && !isISODate(before)) || (accruedSince && !isISODate(accruedSince))) {
+      return NextResponse.json({ ok: false, error: "before/accruedSince must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const totals = await balanceTotals({ beforeISO: before || undefined });
+    const balances = Array.from(totals.entries()).map(([xeroEmployeeId, t]) => ({ xeroEmployeeId, ...t }));
+
+    const accruals = accruedSince
+      ? await db.payrollBalanceMovement.findMany({
+          where: { reason: "accrued", date: { gte: accruedSince, ...(before ? { lt: before } : {}) } },
+          select: { xeroEmployeeId: true, kind: true, date: true, minutes: true },
+          orderBy: { date: "asc" },
+        })
+      : [];
+
+    return NextResponse.json({ ok: true, balances, accruals });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/**
+ * POST { periodStartISO, periodEndISO, movements: BalanceMovement[] }
+ * Replaces every movement dated inside the period, so finalising a payrun again never double counts.
+ * Movements for people without a PayrollEmployee row are skipped.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const periodStartISO = s(body?.periodStartISO);
+    const periodEndISO = s(body?.periodEndISO);
+    if (!isISODate(periodStartISO) || !isISODate(periodEndISO)) {
+      return NextResponse.json({ ok: false, error: "periodStartISO/periodEndISO must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const incoming = Array.isArray(body?.movements) ? (body.movements as any[]) : [];
+    const known = new Set(
+      (
+        await db.payrollEmployee.findMany({
+          where: { xeroEmployeeId: { in: Array.from(new Set(incoming.map((m) => s(m?.employeeId)))) } },
+          select: { xeroEmployeeId: true },
+        })
+      ).map((r: any) => String(r.xeroEmployeeId)),
+    );
+
+    const data = incoming
+      .map((m) => ({
+        xeroEmployeeId: s(m?.employeeId),
+        kind: s(m?.kind),
+        date: s(m?.date),
+        minutes: Math.round(Number(m?.minutes)),
+        reason: s(m?.reason),
+        rule: s(m?.rule),
+      }))
+      .filter(
+        (m) =>
+          known.has(m.xeroEmployeeId) &&
+          m.kind &&
+          isISODate(m.date) &&
+          m.date >= periodStartISO &&
+          m.date <= periodEndISO &&
+          Number.isFinite(m.minutes) &&
+          m.minutes !== 0,
+      );
+
+    await db.$transaction([
+      db.payrollBalanceMovement.deleteMany({ where: { date: { gte: periodStartISO, lte: periodEndISO } } }),
+      db.payrollBalanceMovement.createMany({ data }),
+    ]);
+
+    return NextResponse.json({ ok: true, saved: data.length, skipped: incoming.length - data.length });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
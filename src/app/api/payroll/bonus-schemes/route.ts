@@ -0,0 +1,77 @@
+// src/app/api/payroll/bonus-schemes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { compileBonusFormula } from "~/payroll_calc/rules/miningBonuses";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+function num(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const x = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(x) ? x : null;
+}
+
+/** GET: every bonus scheme */
+export async function GET() {
+  try {
+    const rows = await db.payrollBonusScheme.findMany({ orderBy: [{ site: "asc" }, { name: "asc" }] });
+    return NextResponse.json({ ok: true, schemes: rows });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** POST { id?, name, site, formula, minDaysAttended?, cap?, ote, active? }: create, or update when id is given */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const id = s(body?.id);
+    const name = s(body?.name);
+    const site = s(body?.site);
+    const formula = s(body?.formula);
+
+    if (!name) return NextResponse.json({ ok: false, error: "Missing name" }, { status: 400 });
+    if (!site) return NextResponse.json({ ok: false, error: "Missing site" }, { status: 400 });
+    try {
+      compileBonusFormula(formula);
+    } catch (err: any) {
+      return NextResponse.json({ ok: false, error: err?.message || "Invalid formula" }, { status: 400 });
+    }
+
+    const minDays = num(body?.minDaysAttended);
+    const cap = num(body?.cap);
+    const data = {
+      name,
+      site,
+      formula,
+      minDaysAttended: minDays !== null && minDays > 0 ? Math.round(minDays) : null,
+      cap: cap !== null && cap > 0 ? cap : null,
+      ote: Boolean(body?.ote),
+      active: body?.active === undefined ? true : Boolean(body.active),
+    };
+
+    const row = id
+      ? await db.payrollBonusScheme.update({ where: { id }, data })
+      : await db.payrollBonusScheme.create({ data });
+
+    return NextResponse.json({ ok: true, scheme: row });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=... */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = s(req.nextUrl.searchParams.get("id"));
+    if (!id) return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+
+    await db.payrollBonusScheme.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+// src/app/api/payroll/deductions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { isDeductionKind } from "~/payroll_calc/rules/deductions";
+import { isISODate } from "~/payroll_calc/time";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+function num(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const x = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(x) ? x : null;
+}
+
+/** GET: every deduction schedule, with the employee's name */
+export async function GET() {
+  try {
+    const rows = await db.payrollDeductionSchedule.findMany({
+      orderBy: [{ xeroEmployeeId: "asc" }, { createdAt: "asc" }],
+      include: { employee: { select: { fullName: true } } },
+    });
+    return NextResponse.json({ ok: true, deductions: rows });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/**
+ * POST { id?, xeroEmployeeId, name, kind, amountType: "fixed" | "percent", amount, startDate?, endDate?, cap?, preTax, active? }
+ * Creates a schedule, or updates it when id is given.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const id = s(body?.id);
+    const xeroEmployeeId = s(body?.xeroEmployeeId);
+    const name = s(body?.name);
+    const kind = s(body?.kind) || "other";
+    const amountType = s(body?.amountType) || "fixed";
+    const amount = num(body?.amount);
+    const startDate = s(body?.startDate) || null;
+    const endDate = s(body?.endDate) || null;
+    const cap = num(body?.cap);
+
+    if (!xeroEmployeeId) return NextResponse.json({ ok: false, error: "Missing xeroEmployeeId" }, { status: 400 });
+    if (!name) return NextResponse.json({ ok: false, error: "Missing name" }, { status: 400 });
+    if (!isDeductionKind(kind)) {
+      return NextResponse.json(
+        { ok: false, error: "kind must be union, salarySacrifice, repayment, childSupport or other" },
+        { status: 400 },
+      );
+    }
+    if (amountType !== "fixed" && amountType !== "percent") {
+      return NextResponse.json({ ok: false, error: "amountType must be fixed or percent" }, { status: 400 });
+    }
+    if (amount === null || amount <= 0 || (amountType === "percent" && amount > 100)) {
+      return NextResponse.json({ ok: false, error: "amount must be > 0 (and at most 100 for a percent)" }, { status: 400 });
+    }
+    if ((startDate && !isISODate(startDate)) || (endDate && !isISODate(endDate))) {
+      return NextResponse.json({ ok: false, error: "startDate/endDate must be YYYY-MM-DD" }, { status: 400 });
+    }
+    if (startDate && endDate && endDate < startDate) {
+      return NextResponse.json({ ok: false, error: "endDate is before startDate" }, { status: 400 });
+    }
+
+    const data = {
+      xeroEmployeeId,
+      name,
+      kind,
+      amountType,
+      amount,
+      startDate,
+      endDate,
+      cap: cap !== null && cap > 0 ? cap : null,
+      preTax: Boolean(body?.preTax),
+      active: body?.active === undefined ? true : Boolean(body.active),
+    };
+
+    const row = id
+      ? await db.payrollDeductionSchedule.update({ where: { id }, data })
+      : await db.payrollDeductionSchedule.create({ data });
+
+    return NextResponse.json({ ok: true, deduction: row });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=... */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = s(req.nextUrl.searchParams.get("id"));
+    if (!id) return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+
+    await db.payrollDeductionSchedule.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+// src/app/api/payroll/earnings-rates/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthedXeroClient, getTenantOrPickFirst } from "~/app/app/_lib/xeroAuth";
+import { db } from "~/server/db";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+// Xero's earnings rates for the picker (best-effort: [] when Xero isn't connected)
+async function xeroEarningsRates(): Promise<Array<{ id: string; name: string; rateType: string }>> {
+  try {
+    const xero = await getAuthedXeroClient();
+    const { tenantId } = await getTenantOrPickFirst(xero);
+    const res = await (xero as any).payrollAUApi.getPayItems(tenantId);
+    const rates = (res?.body?.payItems?.earningsRates ?? []) as any[];
+    return rates
+      .map((r) => ({ id: s(r?.earningsRateID), name: s(r?.name), rateType: s(r?.rateType) }))
+      .filter((r) => r.id);
+  } catch {
+    return [];
+  }
+}
+
+/** GET: category -> earnings rate mappings, plus Xero's earnings rates when connected */
+export async function GET() {
+  try {
+    const mappings = await db.payrollEarningsRateMapping.findMany({ orderBy: { category: "asc" } });
+    return NextResponse.json({ ok: true, mappings, earningsRates: await xeroEarningsRates() });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** POST { category, earningsRateId, earningsRateName? } */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const category = s(body?.category);
+    const earningsRateId = s(body?.earningsRateId);
+    if (!category) return NextResponse.json({ ok: false, error: "Missing category" }, { status: 400 });
+    if (!earningsRateId) return NextResponse.json({ ok: false, error: "Missing earningsRateId" }, { status: 400 });
+
+    const data = { earningsRateId, earningsRateName: s(body?.earningsRateName) || null };
+    const mapping = await db.payrollEarningsRateMapping.upsert({
+      where: { category },
+      create: { category, ...data },
+      update: data,
+    });
+    return NextResponse.json({ ok: true, mapping });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?category= */
+export async function DELETE(req: NextRequest) {
+  try {
+    const category = s(req.nextUrl.searchParams.get("category"));
+    if (!category) return NextResponse.json({ ok: false, error: "Missing category" }, { status: 400 });
+    await db.payrollEarningsRateMapping.deleteMany({ where: { category } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
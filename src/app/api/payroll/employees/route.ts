@@ -1,5 +1,7 @@
 // src/app/api/payroll/employees/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { isEmploymentType } from "~/payroll_calc/employment";
+import { isShiftClass } from "~/payroll_calc/rules/loadingsShift";
 import { db } from "~/server/db";
 
 export const runtime = "nodejs";
@@ -42,6 +44,37 @@ export async function POST(req: NextRequest) {
 
     const noTimesheets = Boolean(body?.noTimesheets);
 
+    // Only written when a known type is sent, so older callers leave it alone
+    const employmentType = isEmploymentType(body?.employmentType) ? body.employmentType : null;
+    // Same for the shift class; an explicit null clears it back to "by start time"
+    const shiftClass = isShiftClass(body?.shiftClass) ? body.shiftClass : body?.shiftClass === null ? null : undefined;
+    // Free-text trade classification; blank / null clears it
+    const classification =
+      typeof body?.classification === "string" || body?.classification === null ? s(body.classification) || null : undefined;
+    // Depot code for travel allowances (PayrollSite kind DEPOT); blank / null clears it
+    const homeDepot =
+      typeof body?.homeDepot === "string" || body?.homeDepot === null ? s(body.homeDepot) || null : undefined;
+    // Overtime as time off in lieu (rules/toil.ts); only written when sent
+    const toilElection = typeof body?.toilElection === "boolean" ? body.toilElection : undefined;
+    // Usual days worked (0 Sun .. 6 Sat); only written when a list of valid days is sent
+    const workDays = Array.isArray(body?.workDays)
+      ? Array.from(new Set((body.workDays as unknown[]).map(Number)))
+          .filter((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+          .sort((a, b) => a - b)
+      : undefined;
+    // App login the worker records time with; blank / null unlinks, absent leaves it alone
+    const userId = typeof body?.userId === "string" || body?.userId === null ? s(body.userId) || null : undefined;
+
+    if (userId) {
+      const taken = await db.payrollEmployee.findFirst({
+        where: { userId, NOT: { xeroEmployeeId } },
+        select: { fullName: true },
+      });
+      if (taken) {
+        return NextResponse.json({ ok: false, error: `That user is already linked to ${taken.fullName}` }, { status: 400 });
+      }
+    }
+
     const existing = await db.payrollEmployee.findUnique({ where: { xeroEmployeeId } });
 
     const nextBaseRate =
@@ -69,10 +102,24 @@ export async function POST(req: NextRequest) {
         baseRate: nextBaseRate,
         noTimesheets,
         weeklyHours: nextWeeklyHours,
+        ...(employmentType ? { employmentType } : {}),
+        ...(shiftClass !== undefined ? { shiftClass } : {}),
+        ...(classification !== undefined ? { classification } : {}),
+        ...(homeDepot !== undefined ? { homeDepot } : {}),
+        ...(toilElection !== undefined ? { toilElection } : {}),
+        ...(workDays ? { workDays } : {}),
+        ...(userId !== undefined ? { userId } : {}),
       },
       update: {
         fullName,
         noTimesheets,
+        ...(employmentType ? { employmentType } : {}),
+        ...(shiftClass !== undefined ? { shiftClass } : {}),
+        ...(classification !== undefined ? { classification } : {}),
+        ...(homeDepot !== undefined ? { homeDepot } : {}),
+        ...(toilElection !== undefined ? { toilElection } : {}),
+        ...(workDays ? { workDays } : {}),
+        ...(userId !== undefined ? { userId } : {}),
         ...(shouldUpdateBaseRate ? { baseRate: nextBaseRate } : {}),
         ...(shouldUpdateWeekly ? { weeklyHours: nextWeeklyHours } : {}),
       },
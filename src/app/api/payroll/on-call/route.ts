@@ -0,0 +1,90 @@
+// src/app/api/payroll/on-call/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { DEFAULT_TIMEZONE, isISODate, isValidTimezone } from "~/payroll_calc/time";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+function num(v: any): number | null {
+  if (v === null || v === undefined) return null;
+  const x = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(x) ? x : null;
+}
+
+/** GET ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive): roster windows overlapping the range */
+export async function GET(req: NextRequest) {
+  try {
+    const from = s(req.nextUrl.searchParams.get("from"));
+    const to = s(req.nextUrl.searchParams.get("to"));
+    if (!isISODate(from) || !isISODate(to)) {
+      return NextResponse.json({ ok: false, error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const fromD = new Date(`${from}T00:00:00.000Z`);
+    // +1 day either side: windows are stored in UTC but paid on their local start date
+    const lo = new Date(fromD.getTime() - 24 * 60 * 60 * 1000);
+    const hi = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + 2 * 24 * 60 * 60 * 1000);
+
+    const rows = await db.payrollOnCallRoster.findMany({
+      where: { startAt: { lt: hi }, endAt: { gt: lo } },
+      orderBy: [{ startAt: "asc" }],
+      include: { employee: { select: { fullName: true } } },
+    });
+
+    return NextResponse.json({ ok: true, rosters: rows });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** POST { xeroEmployeeId, startAt, endAt, timezone?, rate, notes? } */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const xeroEmployeeId = s(body?.xeroEmployeeId);
+    const startAt = new Date(s(body?.startAt));
+    const endAt = new Date(s(body?.endAt));
+    const rate = num(body?.rate);
+
+    if (!xeroEmployeeId) return NextResponse.json({ ok: false, error: "Missing xeroEmployeeId" }, { status: 400 });
+    if (isNaN(startAt.getTime()) || isNaN(endAt.getTime()) || endAt <= startAt) {
+      return NextResponse.json({ ok: false, error: "startAt/endAt must be valid and end after start" }, { status: 400 });
+    }
+    if (rate === null || rate <= 0) return NextResponse.json({ ok: false, error: "rate must be > 0" }, { status: 400 });
+    const timezone = s(body?.timezone) || DEFAULT_TIMEZONE;
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json({ ok: false, error: `Unknown timezone "${timezone}"` }, { status: 400 });
+    }
+
+    const row = await db.payrollOnCallRoster.create({
+      data: {
+        xeroEmployeeId,
+        startAt,
+        endAt,
+        timezone,
+        rate,
+        notes: s(body?.notes) || null,
+      },
+    });
+
+    return NextResponse.json({ ok: true, roster: row });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=... */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = s(req.nextUrl.searchParams.get("id"));
+    if (!id) return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+
+    await db.payrollOnCallRoster.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
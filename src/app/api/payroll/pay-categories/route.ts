@@ -0,0 +1,65 @@
+// src/app/api/payroll/pay-categories/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { PAY_CATEGORY_FLAG_NAMES } from "~/payroll_calc/rules/ote";
+import { validatePayCategoryOverrides } from "~/payroll_calc/validateRuleset";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+/** GET: every override row, e.g. { key: "overtime", ote: null, superLiable: true, ... } */
+export async function GET() {
+  try {
+    const overrides = await db.payrollPayCategory.findMany({ orderBy: { key: "asc" } });
+    return NextResponse.json({ ok: true, overrides });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/**
+ * POST { key, ote?, superLiable?, payrollTaxLiable?, workersCompLiable? }
+ * Sets the admin's flags for one pay category; null / missing keeps the default.
+ * Unknown keys are rejected so a typo can't silently change nothing.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const key = s(body?.key);
+    const flags = Object.fromEntries(
+      PAY_CATEGORY_FLAG_NAMES.map((f) => [f, typeof body?.[f] === "boolean" ? Boolean(body[f]) : null]),
+    );
+
+    const problems = validatePayCategoryOverrides({ [key]: flags });
+    if (problems.length) return NextResponse.json({ ok: false, error: problems.join("; ") }, { status: 400 });
+
+    if (Object.values(flags).every((v) => v === null)) {
+      await db.payrollPayCategory.deleteMany({ where: { key } });
+      return NextResponse.json({ ok: true, override: null });
+    }
+
+    const override = await db.payrollPayCategory.upsert({
+      where: { key },
+      create: { key, ...flags },
+      update: flags,
+    });
+    return NextResponse.json({ ok: true, override });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?key=: back to the defaults (also clears rows for keys that no longer exist) */
+export async function DELETE(req: NextRequest) {
+  try {
+    const key = s(req.nextUrl.searchParams.get("key"));
+    if (!key) return NextResponse.json({ ok: false, error: "Missing key" }, { status: 400 });
+    await db.payrollPayCategory.deleteMany({ where: { key } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+// src/app/api/payroll/public-holidays/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { isAuState } from "~/payroll_calc/holidaysAU";
+import { publicHolidayCalendar } from "~/payroll_calc/rules/publicHolidays";
+import { isISODate } from "~/payroll_calc/time";
+import type { PublicHolidayOverride } from "~/payroll_calc/types";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+function toOverride(r: any): PublicHolidayOverride {
+  return {
+    date: r.date,
+    name: r.name,
+    state: isAuState(r.state) ? r.state : null,
+    kind: r.kind === "SUBSTITUTE" ? "substitute" : "extra",
+    replacesDate: r.replacesDate ?? null,
+  };
+}
+
+/**
+ * GET ?year=2026
+ * Company state, admin rows, and the resulting calendar for the year
+ * (the payrun passes `state` + `overrides` to the engine).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const year = Number(req.nextUrl.searchParams.get("year") ?? new Date().getFullYear());
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      return NextResponse.json({ ok: false, error: "Invalid year" }, { status: 400 });
+    }
+
+    const settings = await db.payrollCompanySettings.findUnique({ where: { id: "default" } });
+    const state = isAuState(settings?.state) ? settings.state : "NSW";
+
+    const rows = await db.payrollPublicHoliday.findMany({ orderBy: [{ date: "asc" }] });
+    const overrides = rows.map(toOverride);
+
+    const calendar = publicHolidayCalendar(`${year}-01-01`, `${year}-12-31`, state, overrides);
+    const holidays = Array.from(calendar, ([date, name]) => ({ date, name }));
+
+    return NextResponse.json({
+      ok: true,
+      state,
+      holidays,
+      overrides: rows.map((r: any) => ({ id: r.id, ...toOverride(r) })),
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** POST { date, name, state?, kind: "extra" | "substitute", replacesDate? } */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const date = s(body?.date);
+    const name = s(body?.name);
+    const state = s(body?.state).toUpperCase();
+    const kind = s(body?.kind).toLowerCase() === "substitute" ? "SUBSTITUTE" : "EXTRA";
+    const replacesDate = s(body?.replacesDate);
+
+    if (!isISODate(date)) return NextResponse.json({ ok: false, error: "date must be YYYY-MM-DD" }, { status: 400 });
+    if (!name) return NextResponse.json({ ok: false, error: "Missing name" }, { status: 400 });
+    if (state && !isAuState(state)) return NextResponse.json({ ok: false, error: "Invalid state" }, { status: 400 });
+    if (kind === "SUBSTITUTE" && !isISODate(replacesDate)) {
+      return NextResponse.json({ ok: false, error: "A substitute day needs replacesDate (YYYY-MM-DD)" }, { status: 400 });
+    }
+
+    const row = await db.payrollPublicHoliday.create({
+      data: {
+        date,
+        name,
+        state: state || null,
+        kind,
+        replacesDate: kind === "SUBSTITUTE" ? replacesDate : null,
+      },
+    });
+
+    return NextResponse.json({ ok: true, holiday: { id: row.id, ...toOverride(row) } });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=... */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = s(req.nextUrl.searchParams.get("id"));
+    if (!id) return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+
+    await db.payrollPublicHoliday.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
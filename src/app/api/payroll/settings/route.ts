@@ -0,0 +1,41 @@
+// src/app/api/payroll/settings/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { isAuState } from "~/payroll_calc/holidaysAU";
+
+export const runtime = "nodejs";
+
+const SETTINGS_ID = "default";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+export async function GET() {
+  try {
+    const row = await db.payrollCompanySettings.findUnique({ where: { id: SETTINGS_ID } });
+    return NextResponse.json({ ok: true, settings: { state: row?.state ?? "NSW" } });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const state = s(body?.state).toUpperCase();
+    if (!isAuState(state)) {
+      return NextResponse.json({ ok: false, error: "state must be one of NSW, VIC, QLD, WA, SA, TAS, ACT, NT" }, { status: 400 });
+    }
+
+    const row = await db.payrollCompanySettings.upsert({
+      where: { id: SETTINGS_ID },
+      create: { id: SETTINGS_ID, state },
+      update: { state },
+    });
+
+    return NextResponse.json({ ok: true, settings: { state: row.state } });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
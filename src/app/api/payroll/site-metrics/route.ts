@@ -0,0 +1,83 @@
+// src/app/api/payroll/site-metrics/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { BONUS_BUILTIN_VARIABLES } from "~/payroll_calc/rules/miningBonuses";
+import { isISODate } from "~/payroll_calc/time";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+function num(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const x = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(x) ? x : null;
+}
+
+/** GET ?start=YYYY-MM-DD&end=YYYY-MM-DD: the metrics entered for exactly that pay period */
+export async function GET(req: NextRequest) {
+  try {
+    const start = s(req.nextUrl.searchParams.get("start"));
+    const end = s(req.nextUrl.searchParams.get("end"));
+    if (!isISODate(start) || !isISODate(end)) {
+      return NextResponse.json({ ok: false, error: "start/end must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const rows = await db.payrollSiteMetric.findMany({
+      where: { periodStart: start, periodEnd: end },
+      orderBy: [{ site: "asc" }, { metric: "asc" }],
+    });
+    return NextResponse.json({ ok: true, metrics: rows });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** POST { site, periodStartISO, periodEndISO, metric, value }: upsert one figure */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const site = s(body?.site);
+    const periodStart = s(body?.periodStartISO);
+    const periodEnd = s(body?.periodEndISO);
+    const metric = s(body?.metric);
+    const value = num(body?.value);
+
+    if (!site) return NextResponse.json({ ok: false, error: "Missing site" }, { status: 400 });
+    if (!isISODate(periodStart) || !isISODate(periodEnd) || periodEnd < periodStart) {
+      return NextResponse.json({ ok: false, error: "periodStartISO/periodEndISO must be YYYY-MM-DD" }, { status: 400 });
+    }
+    // Metric names are used as-is in formulas
+    if (!/^[A-Za-z_]\w*$/.test(metric) || (BONUS_BUILTIN_VARIABLES as readonly string[]).includes(metric)) {
+      return NextResponse.json(
+        { ok: false, error: "metric must be a single word (letters, digits, _) and not daysAttended/periodDays" },
+        { status: 400 },
+      );
+    }
+    if (value === null) return NextResponse.json({ ok: false, error: "value must be a number" }, { status: 400 });
+
+    const row = await db.payrollSiteMetric.upsert({
+      where: { site_periodStart_periodEnd_metric: { site, periodStart, periodEnd, metric } },
+      create: { site, periodStart, periodEnd, metric, value },
+      update: { value },
+    });
+
+    return NextResponse.json({ ok: true, metric: row });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=... */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = s(req.nextUrl.searchParams.get("id"));
+    if (!id) return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+
+    await db.payrollSiteMetric.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+// src/app/api/payroll/sites/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+function num(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const x = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(x) ? x : null;
+}
+
+/** GET: every site and depot position */
+export async function GET() {
+  try {
+    const rows = await db.payrollSite.findMany({ orderBy: [{ kind: "asc" }, { code: "asc" }] });
+    return NextResponse.json({ ok: true, sites: rows });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** POST { kind: "SITE" | "DEPOT", code, name?, lat, lng }: upsert by kind + code (site code = job code) */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const kind = s(body?.kind).toUpperCase() || "SITE";
+    const code = s(body?.code);
+    const lat = num(body?.lat);
+    const lng = num(body?.lng);
+
+    if (kind !== "SITE" && kind !== "DEPOT") {
+      return NextResponse.json({ ok: false, error: "kind must be SITE or DEPOT" }, { status: 400 });
+    }
+    if (!code) return NextResponse.json({ ok: false, error: "Missing code" }, { status: 400 });
+    if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return NextResponse.json({ ok: false, error: "lat/lng must be decimal degrees" }, { status: 400 });
+    }
+
+    const name = s(body?.name) || null;
+    const row = await db.payrollSite.upsert({
+      where: { kind_code: { kind, code } },
+      create: { kind, code, name, lat, lng },
+      update: { name, lat, lng },
+    });
+
+    return NextResponse.json({ ok: true, site: row });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=... */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = s(req.nextUrl.searchParams.get("id"));
+    if (!id) return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+
+    await db.payrollSite.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+// src/app/api/payroll/super/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { isISODate, quarterStartISO } from "~/payroll_calc/time";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+function num(v: any) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0;
+}
+
+/**
+ * GET ?before=YYYY-MM-DD: super base and SG already used per employee in the quarter containing `before`,
+ * from periods ending before it, e.g. { xeroEmployeeId, superBase, superGuarantee }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const before = s(req.nextUrl.searchParams.get("before"));
+    if (!isISODate(before)) {
+      return NextResponse.json({ ok: false, error: "before must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const quarterStart = quarterStartISO(before);
+    const rows = await db.payrollSuperLedger.groupBy({
+      by: ["xeroEmployeeId"],
+      where: { quarterStart, periodEnd: { lt: before } },
+      _sum: { superBase: true, superGuarantee: true },
+    });
+    const quarterToDate = (rows as any[]).map((r) => ({
+      xeroEmployeeId: String(r.xeroEmployeeId),
+      superBase: Number(r._sum?.superBase ?? 0),
+      superGuarantee: Number(r._sum?.superGuarantee ?? 0),
+    }));
+
+    return NextResponse.json({ ok: true, quarterStart, quarterToDate });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
+
+/**
+ * POST { periodStartISO, periodEndISO, summaries: SuperSummary[] }
+ * Replaces the period's rows, so finalising a payrun again never double counts.
+ * Summaries for people without a PayrollEmployee row are skipped.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const periodStartISO = s(body?.periodStartISO);
+    const periodEndISO = s(body?.periodEndISO);
+    if (!isISODate(periodStartISO) || !isISODate(periodEndISO)) {
+      return NextResponse.json({ ok: false, error: "periodStartISO/periodEndISO must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const incoming = Array.isArray(body?.summaries) ? (body.summaries as any[]) : [];
+    const known = new Set(
+      (
+        await db.payrollEmployee.findMany({
+          where: { xeroEmployeeId: { in: Array.from(new Set(incoming.map((r) => s(r?.employeeId)))) } },
+          select: { xeroEmployeeId: true },
+        })
+      ).map((r: any) => String(r.xeroEmployeeId)),
+    );
+
+    const quarterStart = quarterStartISO(periodEndISO);
+    const data = incoming
+      .map((r) => ({
+        xeroEmployeeId: s(r?.employeeId),
+        periodStart: periodStartISO,
+        periodEnd: periodEndISO,
+        quarterStart,
+        ote: num(r?.ote),
+        superBase: num(r?.superBase),
+        superGuarantee: num(r?.superGuarantee),
+        salarySacrifice: num(r?.salarySacrifice),
+      }))
+      .filter((r) => known.has(r.xeroEmployeeId));
+
+    await db.$transaction([
+      db.payrollSuperLedger.deleteMany({ where: { periodStart: periodStartISO, periodEnd: periodEndISO } }),
+      db.payrollSuperLedger.createMany({ data }),
+    ]);
+
+    return NextResponse.json({ ok: true, saved: data.length, skipped: incoming.length - data.length });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+// src/app/api/payroll/time-entries/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { DEFAULT_TIMEZONE, isISODate, zonedParts } from "~/payroll_calc/time";
+
+export const runtime = "nodejs";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+// Local date the entry started on; an unknown timezone is left to the engine to report
+function localDate(at: Date, timezone: string): string {
+  try {
+    return zonedParts(at.getTime(), timezone).date;
+  } catch {
+    return zonedParts(at.getTime(), DEFAULT_TIMEZONE).date;
+  }
+}
+
+/**
+ * GET ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, by local start date): time recorded in the apps
+ * (web TimeEntry and submitted / locked MobileTimeEntry) by users linked to a payroll employee,
+ * shaped like imported timesheet rows so applyRules can send them to the engine with their
+ * isCallout / bankToil flags. Fergus imports stored in TimeEntry are left out (they come from the sync).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const from = s(req.nextUrl.searchParams.get("from"));
+    const to = s(req.nextUrl.searchParams.get("to"));
+    if (!isISODate(from) || !isISODate(to)) {
+      return NextResponse.json({ ok: false, error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    // +1 day either side: entries are stored in UTC but paid on their local start date
+    const lo = new Date(new Date(`${from}T00:00:00.000Z`).getTime() - 24 * 60 * 60 * 1000);
+    const hi = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + 2 * 24 * 60 * 60 * 1000);
+
+    const linked = await db.payrollEmployee.findMany({
+      where: { userId: { not: null } },
+      select: { userId: true, xeroEmployeeId: true, fullName: true },
+    });
+    const employeeByUser = new Map<string, { xeroEmployeeId: string; fullName: string }>(
+      linked.map((e: any) => [String(e.userId), e]),
+    );
+    const userIds = Array.from(employeeByUser.keys());
+    if (!userIds.length) return NextResponse.json({ ok: true, entries: [] });
+
+    const select = {
+      id: true,
+      userId: true,
+      startAt: true,
+      endAt: true,
+      timezone: true,
+      minutes: true,
+      notes: true,
+      isCallout: true,
+      bankToil: true,
+      job: { select: { code: true } },
+    };
+    const [web, mobile] = await Promise.all([
+      db.timeEntry.findMany({
+        where: { userId: { in: userIds }, source: "APP", startAt: { gte: lo, lt: hi } },
+        orderBy: [{ startAt: "asc" }],
+        select,
+      }),
+      db.mobileTimeEntry.findMany({
+        where: { userId: { in: userIds }, status: { not: "DRAFT" }, startAt: { gte: lo, lt: hi } },
+        orderBy: [{ startAt: "asc" }],
+        select,
+      }),
+    ]);
+
+    const entries = [
+      ...web.map((r: any) => ({ ...r, source: "app" })),
+      ...mobile.map((r: any) => ({ ...r, source: "mobile" })),
+    ]
+      .map((r: any) => {
+        const employee = employeeByUser.get(String(r.userId));
+        const timezone = s(r.timezone) || DEFAULT_TIMEZONE;
+        return {
+          id: `${r.source}-${r.id}`,
+          source: r.source,
+          xeroEmployeeId: employee?.xeroEmployeeId ?? null,
+          employeeName: employee?.fullName ?? "",
+          jobCode: s(r.job?.code),
+          date: localDate(r.startAt, timezone),
+          startISO: r.startAt.toISOString(),
+          endISO: r.endAt.toISOString(),
+          timezone,
+          minutes: r.minutes,
+          notes: r.notes ?? null,
+          isCallout: Boolean(r.isCallout),
+          bankToil: typeof r.bankToil === "boolean" ? r.bankToil : null,
+        };
+      })
+      .filter((e) => e.date >= from && e.date <= to);
+
+    return NextResponse.json({ ok: true, entries });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
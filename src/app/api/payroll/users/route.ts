@@ -0,0 +1,26 @@
+// src/app/api/payroll/users/route.ts
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+
+export const runtime = "nodejs";
+
+/** GET: app logins, with the payroll employee each is linked to (PayrollEmployee.userId) */
+export async function GET() {
+  try {
+    const rows = await db.user.findMany({
+      orderBy: [{ name: "asc" }, { email: "asc" }],
+      select: { id: true, name: true, email: true, payrollEmployee: { select: { xeroEmployeeId: true } } },
+    });
+    return NextResponse.json({
+      ok: true,
+      users: rows.map((u: any) => ({
+        id: u.id,
+        name: u.name ?? null,
+        email: u.email ?? null,
+        xeroEmployeeId: u.payrollEmployee?.xeroEmployeeId ?? null,
+      })),
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Failed" }, { status: 500 });
+  }
+}
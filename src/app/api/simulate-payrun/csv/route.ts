@@ -1,7 +1,5 @@
 import { NextResponse } from "next/server";
-import { demoEntry } from "~/payroll_calc/demo";
-import { computePayLinesV1 } from "~/payroll_calc/engine_demo";
-import { getCurrentRuleset } from "~/payroll_calc/runtimeRules";
+import { getDemoPayLines } from "~/payroll_calc/demoStore";
 
 function toCsv(rows: Array<Record<string, string | number>>) {
   if (rows.length === 0) return "";
@@ -19,9 +17,7 @@ function toCsv(rows: Array<Record<string, string | number>>) {
 }
 
 export async function POST() {
-  const ruleset = getCurrentRuleset();
-
-  const payLines = computePayLinesV1(demoEntry, ruleset);
+  const payLines = getDemoPayLines();
 
   const rows = payLines.map((l) => ({
     employee: l.employeeName,
@@ -30,6 +26,8 @@ export async function POST() {
     category: l.category,
     hours: l.hours.toFixed(2),
     multiplier: l.multiplier.toFixed(2),
+    cost: (l.cost ?? 0).toFixed(2),
+    explain: (l.explain ?? []).join("; "),
   }));
 
   const csv = toCsv(rows);
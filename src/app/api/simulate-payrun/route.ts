@@ -1,12 +1,14 @@
 import { NextResponse } from "next/server";
 import { demoEntry } from "~/payroll_calc/demo";
-import { computePayLinesV1 } from "~/payroll_calc/engine_demo";
+import { getDemoPayrun } from "~/payroll_calc/demoStore";
+import { formatTrace } from "~/payroll_calc/engine";
 import { getCurrentRuleset } from "~/payroll_calc/runtimeRules";
 
 export async function POST() {
   const ruleset = getCurrentRuleset();
 
-  const payLines = computePayLinesV1(demoEntry, ruleset);
+  const result = getDemoPayrun();
+  const payLines = result.payLines;
 
   const summary = payLines.reduce(
     (acc, l) => {
@@ -22,5 +24,6 @@ export async function POST() {
     ruleset,
     payLines,
     summary,
+    trace: formatTrace(result),
   });
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "~/server/db";
 import { requireUser } from "~/server/auth/requireUser";
+import { parseFlag } from "~/payroll_calc/normalize";
 
 export const runtime = "nodejs";
 
@@ -46,6 +47,12 @@ export async function POST(req: NextRequest) {
     const endAt = new Date(String(body.endAt));
     const timezone = String(body.timezone ?? "Australia/Sydney");
     const notes = body.notes != null && String(body.notes).trim() ? String(body.notes) : null;
+    const isCallout = body.isCallout === true || body.isCallout === "true";
+    // TOIL or paid for this entry's overtime; unset follows the employee's election
+    const bankToil = parseFlag(body.bankToil);
+    if (body.bankToil != null && bankToil == null) {
+      return NextResponse.json({ ok: false, error: "BAD_BANK_TOIL" }, { status: 400 });
+    }
 
     if (!jobId) return NextResponse.json({ ok: false, error: "MISSING_JOB_ID" }, { status: 400 });
     if (isNaN(startAt.getTime()) || isNaN(endAt.getTime())) return NextResponse.json({ ok: false, error: "BAD_TIME" }, { status: 400 });
@@ -62,6 +69,8 @@ export async function POST(req: NextRequest) {
         timezone,
         minutes,
         notes,
+        isCallout,
+        bankToil,
         source: "APP",
       },
       include: { job: { select: { id: true, code: true, name: true, clientName: true } } },
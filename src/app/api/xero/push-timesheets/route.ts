@@ -4,6 +4,9 @@ import crypto from "crypto";
 import { getAuthedXeroClient, getTenantOrPickFirst } from "../../../app/_lib/xeroAuth";
 import { buildTimesheetsFromPayLines } from "~/server/xero/timesheets";
 import { buildLeaveApplicationsFromPayLines } from "~/server/xero/leaveApplications";
+import { buildPayslipDeductionsFromPayLines, pushPayslipDeductionsToXero } from "~/server/xero/deductions";
+import { buildPayslipEarningsFromPayLines, pushPayslipEarningsToXero } from "~/server/xero/earnings";
+import { db } from "~/server/db";
 import type { PayLine } from "~/payroll_calc/types";
 import type { XeroEmployee, XeroPayItem } from "~/server/xero/payrollAu";
 
@@ -534,6 +537,8 @@ export async function POST(req: Request) {
 
     // Normalize to PayLine[] (engine expects these keys)
     const payLines: PayLine[] = payLinesRaw
+      // Employer on-costs (super) are paid to the fund, not through the pay run
+      .filter((l) => !l?.isOnCost)
       .map((l) => ({
         employeeName: String(l?.employeeName ?? "").trim(),
         jobCode: String(l?.jobCode ?? "").trim(),
@@ -546,15 +551,25 @@ export async function POST(req: Request) {
         employeeId: l?.employeeId ? String(l.employeeId) : undefined,
         baseRate: Number.isFinite(n(l?.baseRate, NaN)) ? n(l?.baseRate, 0) : undefined,
         cost: Number.isFinite(n(l?.cost, NaN)) ? n(l?.cost, 0) : undefined,
+        // Flat lines (allowances) carry units instead of hours
+        ...(Number.isFinite(n(l?.unitRate, NaN)) ? { units: n(l?.units, 0), unitRate: n(l?.unitRate, 0) } : {}),
         // IMPORTANT: PayLine type doesn't include isLeave, but our UI/provider does.
         // Preserve it for LeaveApplications builder and for filtering out of Timesheets.
         ...(typeof (l as any)?.isLeave === "boolean" ? { isLeave: Boolean((l as any).isLeave) } : {}),
+        // Deductions go to payslip DeductionLines, matched on category then meta.deductionKind
+        ...(l?.isDeduction ? { isDeduction: true, meta: { deductionKind: String(l?.meta?.deductionKind ?? "") } } : {}),
       }))
-      .filter((l) => l.employeeName && l.date && l.category && Number.isFinite(l.hours) && l.hours > 0);
+      .filter(
+        (l) =>
+          l.employeeName &&
+          l.date &&
+          l.category &&
+          ((Number.isFinite(l.hours) && l.hours > 0) || (l.unitRate !== undefined && Number(l.units) > 0)),
+      );
 
     if (payLines.length === 0) {
       return NextResponse.json(
-        { ok: false, error: "payLines had no usable rows (need employeeName/date/category/hours)" },
+        { ok: false, error: "payLines had no usable rows (need employeeName/date/category/hours or units)" },
         { status: 400 }
       );
     }
@@ -604,22 +619,35 @@ export async function POST(req: Request) {
     // ✅ Split leave vs non-leave BEFORE building exports.
     // Leave MUST NOT go to Timesheets (Xero will reject the whole payload).
     const leavePayLines = (payLines as any[]).filter(
-      (l) => Boolean(l?.isLeave) || isLeaveCategory(l?.category),
+      (l) => !l?.isDeduction && (Boolean(l?.isLeave) || isLeaveCategory(l?.category)),
     );
     // Ensure leave lines are explicitly marked for the LeaveApplications builder.
     for (const l of leavePayLines) l.isLeave = true;
 
     const timesheetPayLines = (payLines as any[]).filter(
-      (l) => !(Boolean(l?.isLeave) || isLeaveCategory(l?.category)),
+      (l) => !(Boolean(l?.isLeave) || isLeaveCategory(l?.category) || Boolean(l?.isDeduction)),
     ) as PayLine[];
 
-    // ✅ Build timesheets from NON-LEAVE lines only.
+    // Admin's category -> earnings rate mappings (Pay categories page); anything the built-in rules
+    // don't recognise stays unpushed and is reported until it's mapped
+    const explicitCategoryToEarningsRateId: Record<string, string> = Object.fromEntries(
+      ((await db.payrollEarningsRateMapping.findMany()) as any[]).map((m) => [String(m.category), String(m.earningsRateId)]),
+    );
+
+    // ✅ Build timesheets from NON-LEAVE lines only (amount lines go on payslips, below).
     const built = buildTimesheetsFromPayLines({
       payLines: timesheetPayLines,
       periodStartISO,
       periodEndISOInclusive,
       xeroEmployees,
       payItems,
+      explicitCategoryToEarningsRateId,
+    });
+    const earningsBuilt = buildPayslipEarningsFromPayLines({
+      payLines: timesheetPayLines,
+      xeroEmployees,
+      payItems,
+      explicitCategoryToEarningsRateId,
     });
 
     // ✅ Build LeaveApplications (leave cannot be sent as TimesheetLines).
@@ -805,6 +833,38 @@ export async function POST(req: Request) {
       });
     }
 
+    // ✅ Amount lines and deductions last: they land on payslips of a draft pay run, so they can't block timesheets.
+    const earningsPush = await pushPayslipEarningsToXero({
+      accessToken,
+      tenantId,
+      periodStartISO,
+      periodEndISOInclusive,
+      earnings: earningsBuilt.earnings,
+    }).catch((e: any) => ({
+      payRunID: "",
+      results: earningsBuilt.earnings.map((d) => ({
+        employeeID: d.EmployeeID,
+        status: "ERROR" as const,
+        note: firstLine(e?.message ?? String(e), 300),
+      })),
+    }));
+
+    const deductionsBuilt = buildPayslipDeductionsFromPayLines({ payLines, employeeNameToId, payItems });
+    const deductionsPush = await pushPayslipDeductionsToXero({
+      accessToken,
+      tenantId,
+      periodStartISO,
+      periodEndISOInclusive,
+      deductions: deductionsBuilt.deductions,
+    }).catch((e: any) => ({
+      payRunID: "",
+      results: deductionsBuilt.deductions.map((d) => ({
+        employeeID: d.EmployeeID,
+        status: "ERROR" as const,
+        note: firstLine(e?.message ?? String(e), 300),
+      })),
+    }));
+
     return NextResponse.json(
       {
         ok: true,
@@ -812,6 +872,20 @@ export async function POST(req: Request) {
           created: leaveCreated,
           warnings: leaveBuilt.warnings,
         },
+        earnings: {
+          payRunID: earningsPush.payRunID || null,
+          updated: earningsPush.results.filter((r) => r.status === "UPDATED").length,
+          pending: earningsPush.results.filter((r) => r.status === "PENDING").length,
+          results: earningsPush.results,
+          warnings: earningsBuilt.warnings,
+        },
+        deductions: {
+          payRunID: deductionsPush.payRunID || null,
+          updated: deductionsPush.results.filter((r) => r.status === "UPDATED").length,
+          pending: deductionsPush.results.filter((r) => r.status === "PENDING").length,
+          results: deductionsPush.results,
+          warnings: deductionsBuilt.warnings,
+        },
         created,
         skipped: {
           match: skippedMatch,
@@ -819,7 +893,7 @@ export async function POST(req: Request) {
         },
         warnings: {
           missingEmployees: built.warnings.missingEmployees,
-          missingCategories: built.warnings.missingCategories,
+          missingCategories: [...built.warnings.missingCategories, ...earningsBuilt.missingCategories],
         },
         meta: {
           StartDate: periodStartISO,
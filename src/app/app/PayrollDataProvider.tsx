@@ -1,9 +1,34 @@
 "use client";
 
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
-import type { CompanyRuleset, PayLine, TimeEntry } from "~/payroll_calc/types";
-import { computePayLinesV1 } from "~/payroll_calc/engine_demo";
+import type {
+  BalanceMovement,
+  CompanyRuleset,
+  DeductionSchedule,
+  EmployeeProfile,
+  EmploymentType,
+  EngineInput,
+  EngineResult,
+  LeaveTaken,
+  OnCallShift,
+  PayLine,
+  PublicHolidayOverride,
+  ShiftClass,
+  SuperSummary,
+  TimeEntry,
+} from "~/payroll_calc/types";
+import { isEmploymentType } from "~/payroll_calc/employment";
+import { runPayroll } from "~/payroll_calc/engine";
+import { isDeductionKind } from "~/payroll_calc/rules/deductions";
+import { RDO_JOB_CODE } from "~/payroll_calc/rules/loadingsRDO";
+import { workDaysOf } from "~/payroll_calc/rules/leavePublicHolidayNotWorked";
+import { isShiftClass } from "~/payroll_calc/rules/loadingsShift";
+import { PAY_CATEGORY_FLAG_NAMES } from "~/payroll_calc/rules/ote";
+import { publicHolidayCalendar } from "~/payroll_calc/rules/publicHolidays";
+import { isStackingMode } from "~/payroll_calc/rules/stacking";
+import { TOIL_JOB_CODE } from "~/payroll_calc/rules/toil";
 import { getCurrentRuleset } from "~/payroll_calc/runtimeRules";
+import { addDaysISO, dayOfWeekISO, isISODate } from "~/payroll_calc/time";
 import { loadActivePayPeriod, loadPayrunSettings, saveActivePayPeriod } from "./_lib/payPeriod";
 
 /**
@@ -17,6 +42,18 @@ const LS_COMPUTED = "computed_pay_lines_v1";
 const LS_LAST_APPLIED = "payroll_last_applied_at_v1";
 const LS_OLD_BLOB = "payroll_live_state_v1";
 const API_EMPLOYEE_SETTINGS = "/api/payroll/employees";
+const API_PUBLIC_HOLIDAYS = "/api/payroll/public-holidays";
+const API_APP_TIME_ENTRIES = "/api/payroll/time-entries";
+const API_ON_CALL = "/api/payroll/on-call";
+const API_BALANCES = "/api/payroll/balances";
+const API_SITES = "/api/payroll/sites";
+const API_BONUS_SCHEMES = "/api/payroll/bonus-schemes";
+const API_SITE_METRICS = "/api/payroll/site-metrics";
+const API_DEDUCTIONS = "/api/payroll/deductions";
+const API_SUPER = "/api/payroll/super";
+const API_PAY_CATEGORIES = "/api/payroll/pay-categories";
+// Owned by /app/payroll/rules (per-job JobRules); read-only here
+const LS_RULES_BY_JOB = "rules_by_job_v1";
 
 /**
  * Types
@@ -32,6 +69,20 @@ export type Employee = {
   noTimesheets?: boolean;
   // Weekly contracted hours (e.g. 38/40) pulled from Xero, stored in DB for overrides
   weeklyHours?: number | null;
+  // Full-time / part-time / casual / apprentice / salaried (PayrollEmployee.employmentType)
+  employmentType?: EmploymentType;
+  // Declared shift class (e.g. permanent night); null = classified by each shift's start time
+  shiftClass?: ShiftClass | null;
+  // Trade classification, e.g. "Electrician" (allowance conditions)
+  classification?: string | null;
+  // Depot code travel allowances are measured from (PayrollSite kind DEPOT)
+  homeDepot?: string | null;
+  // Overtime banked as time off in lieu unless an entry says otherwise (rules/toil.ts)
+  toilElection?: boolean;
+  // Usual days worked, 0 Sun .. 6 Sat (holiday-not-worked pay); unset = Mon-Fri
+  workDays?: number[];
+  // App login whose web / mobile time entries are this employee's (PayrollEmployee.userId)
+  userId?: string | null;
 };
 
 export type ActivePeriod = {
@@ -77,7 +128,12 @@ type PayrollState = {
 
   importCsvFile: (file: File) => Promise<void>;
   clearAll: () => void;
-  applyRules: (ruleset?: CompanyRuleset) => Promise<void>;
+  // Never rejects: a failed run (e.g. invalid settings) comes back as { ok: false, error } and in lastApplyError
+  applyRules: (ruleset?: CompanyRuleset) => Promise<{ ok: boolean; error?: string }>;
+  lastApplyError: string | null;
+  // Records the last applied period's balance movements and super in the ledgers. Applying rules is only a
+  // preview; until this runs nothing reaches the RDO / TOIL balances or the quarter's super base.
+  finalisePayrun: () => Promise<{ ok: boolean; error?: string }>;
 
   // ✅ Sync (Fergus + Xero)
   syncing: boolean;
@@ -126,6 +182,20 @@ function isFergusLeaveEntry(e: any): { ok: boolean; leaveType: string } {
   return { ok: looksLikeLeave, leaveType: t };
 }
 
+function isFergusRdoEntry(e: any): boolean {
+  const t = String(e?.unchargedTimeType ?? e?.entryType ?? e?.timeType ?? e?.category ?? "")
+    .trim()
+    .toLowerCase();
+  return t === "rdo" || t.includes("rostered day off");
+}
+
+function isFergusToilEntry(e: any): boolean {
+  const t = String(e?.unchargedTimeType ?? e?.entryType ?? e?.timeType ?? e?.category ?? "")
+    .trim()
+    .toLowerCase();
+  return t === "toil" || t.startsWith("toil ") || t.includes("time in lieu") || t.includes("time off in lieu");
+}
+
 function normalizeName(name: string) {
   // Normalize for matching across Xero/Fergus variations:
   // - trims + lowercases
@@ -179,6 +249,248 @@ function entryBelongsToEmployee(e: any, emp: { xeroEmployeeId?: string; id: stri
   return false;
 }
 
+/**
+ * Per-job overrides for the engine, from the JobRules saved on /app/payroll/rules.
+ * Only the blocks the engine understands are passed through.
+ */
+function loadJobRulesets(): Record<string, Partial<CompanyRuleset>> {
+  try {
+    const raw = localStorage.getItem(LS_RULES_BY_JOB);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, any>;
+    if (!parsed || typeof parsed !== "object") return {};
+
+    const out: Record<string, Partial<CompanyRuleset>> = {};
+    for (const [jobCode, jr] of Object.entries(parsed)) {
+      const override: Partial<CompanyRuleset> = {};
+      if (jr?.overtime && Array.isArray(jr.overtime.tiers)) override.overtime = jr.overtime;
+      if (isShiftClass(jr?.loading?.shift)) override.shiftClass = jr.loading.shift;
+      if (isStackingMode(jr?.loading?.stacking)) override.stacking = { mode: jr.loading.stacking };
+      if (Array.isArray(jr?.allowances) && jr.allowances.length) override.allowances = jr.allowances;
+      if (Object.keys(override).length) out[jobCode] = override;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+/** Company state + admin holiday days for the engine (best-effort: national days only if this fails). */
+async function loadPublicHolidays(): Promise<EngineInput["publicHolidays"]> {
+  try {
+    const res = await fetch(API_PUBLIC_HOLIDAYS, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) return undefined;
+    return {
+      state: j.state ?? null,
+      overrides: Array.isArray(j.overrides) ? (j.overrides as PublicHolidayOverride[]) : [],
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Time recorded in the web / mobile apps by linked users (best-effort: imported timesheets only if this fails). */
+async function loadAppTimeEntries(startISO: string, endISO: string): Promise<TimeEntry[]> {
+  try {
+    const qs = new URLSearchParams({ from: startISO, to: endISO });
+    const res = await fetch(`${API_APP_TIME_ENTRIES}?${qs.toString()}`, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.entries)) return [];
+    return j.entries as TimeEntry[];
+  } catch {
+    return [];
+  }
+}
+
+/** On-call roster windows for the period (best-effort: no standby lines if this fails). */
+async function loadOnCall(startISO: string, endISO: string): Promise<OnCallShift[]> {
+  try {
+    const qs = new URLSearchParams({ from: startISO, to: endISO });
+    const res = await fetch(`${API_ON_CALL}?${qs.toString()}`, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.rosters)) return [];
+    return (j.rosters as any[]).map((r) => ({
+      id: String(r.id),
+      employeeId: String(r.xeroEmployeeId),
+      startISO: String(r.startAt),
+      endISO: String(r.endAt),
+      timezone: r.timezone ? String(r.timezone) : undefined,
+      rate: Number(r.rate),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/** Site (by job code) and depot positions for travel allowances (best-effort: no travel paid if this fails). */
+async function loadSites(): Promise<Pick<EngineInput, "sites" | "depots">> {
+  try {
+    const res = await fetch(API_SITES, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.sites)) return {};
+    const sites: NonNullable<EngineInput["sites"]> = {};
+    const depots: NonNullable<EngineInput["depots"]> = {};
+    for (const r of j.sites as any[]) {
+      const point = { lat: Number(r.lat), lng: Number(r.lng) };
+      if (r.kind === "DEPOT") depots[String(r.code)] = point;
+      else sites[String(r.code)] = point;
+    }
+    return { sites, depots };
+  } catch {
+    return {};
+  }
+}
+
+/** Active bonus schemes + the site metrics entered for the period (best-effort: no bonuses if this fails). */
+async function loadSiteBonuses(startISO: string, endISO: string): Promise<Pick<EngineInput, "bonusSchemes" | "siteMetrics">> {
+  try {
+    const qs = new URLSearchParams({ start: startISO, end: endISO });
+    const [schemesRes, metricsRes] = await Promise.all([
+      fetch(API_BONUS_SCHEMES, { method: "GET", cache: "no-store" }),
+      fetch(`${API_SITE_METRICS}?${qs.toString()}`, { method: "GET", cache: "no-store" }),
+    ]);
+    const schemes = await schemesRes.json().catch(() => null);
+    const metrics = await metricsRes.json().catch(() => null);
+    if (!schemesRes.ok || !schemes?.ok || !Array.isArray(schemes.schemes)) return {};
+
+    const siteMetrics: NonNullable<EngineInput["siteMetrics"]> = {};
+    for (const m of Array.isArray(metrics?.metrics) ? (metrics.metrics as any[]) : []) {
+      (siteMetrics[String(m.site)] ??= {})[String(m.metric)] = Number(m.value);
+    }
+    return {
+      bonusSchemes: (schemes.schemes as any[])
+        .filter((b) => b.active !== false)
+        .map((b) => ({
+          id: String(b.id),
+          name: String(b.name),
+          site: String(b.site),
+          formula: String(b.formula),
+          minDaysAttended: b.minDaysAttended ?? undefined,
+          cap: b.cap ?? undefined,
+          ote: Boolean(b.ote),
+        })),
+      siteMetrics,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/** Active recurring deductions (best-effort: nothing deducted if this fails). */
+async function loadDeductions(): Promise<DeductionSchedule[]> {
+  try {
+    const res = await fetch(API_DEDUCTIONS, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.deductions)) return [];
+    return (j.deductions as any[])
+      .filter((d) => d.active !== false && isDeductionKind(d.kind))
+      .map((d) => ({
+        id: String(d.id),
+        employeeId: String(d.xeroEmployeeId),
+        name: String(d.name),
+        kind: d.kind,
+        amountType: d.amountType === "percent" ? "percent" : "fixed",
+        amount: Number(d.amount),
+        startDate: d.startDate ?? null,
+        endDate: d.endDate ?? null,
+        cap: d.cap ?? null,
+        preTax: Boolean(d.preTax),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Banked minutes per employee before the period starts, plus the TOIL banked since `toilAccruedSinceISO`
+ * (the cash-out window) for rules/toil.ts. Best-effort: zero balances if this fails.
+ */
+async function loadBalances(
+  startISO: string,
+  toilAccruedSinceISO?: string,
+): Promise<Pick<EngineInput, "balances" | "toilAccruals">> {
+  try {
+    const qs = new URLSearchParams({ before: startISO });
+    if (toilAccruedSinceISO) qs.set("accruedSince", toilAccruedSinceISO);
+    const res = await fetch(`${API_BALANCES}?${qs.toString()}`, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.balances)) return {};
+
+    const balances: NonNullable<EngineInput["balances"]> = {};
+    for (const b of j.balances as any[]) {
+      balances[String(b.xeroEmployeeId)] = { rdo: Number(b.rdo ?? 0) || 0, toil: Number(b.toil ?? 0) || 0 };
+    }
+    const toilAccruals: NonNullable<EngineInput["toilAccruals"]> = {};
+    for (const a of Array.isArray(j.accruals) ? (j.accruals as any[]) : []) {
+      if (a?.kind !== "toil") continue;
+      const id = String(a.xeroEmployeeId);
+      (toilAccruals[id] ??= []).push({ date: String(a.date), minutes: Number(a.minutes ?? 0) || 0 });
+    }
+    return { balances, toilAccruals };
+  } catch {
+    return {};
+  }
+}
+
+/** Store the period's RDO / TOIL accrual, drawdown and cash-out; replaces whatever an earlier finalise saved for it. */
+async function saveBalanceMovements(startISO: string, endISO: string, movements: BalanceMovement[]) {
+  const res = await fetch(API_BALANCES, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ periodStartISO: startISO, periodEndISO: endISO, movements }),
+  });
+  const j = await res.json().catch(() => null);
+  if (!res.ok || !j?.ok) throw new Error(String(j?.error ?? "Failed to save leave balances"));
+}
+
+/**
+ * Admin overrides of the pay category flags (best-effort: defaults if this fails). Rows are passed
+ * through as stored, so an override for a category that doesn't exist stops the payrun with an error.
+ */
+async function loadPayCategories(): Promise<EngineInput["payCategories"]> {
+  try {
+    const res = await fetch(API_PAY_CATEGORIES, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.overrides)) return {};
+    const out: NonNullable<EngineInput["payCategories"]> = {};
+    for (const r of j.overrides as any[]) {
+      out[String(r.key)] = Object.fromEntries(
+        PAY_CATEGORY_FLAG_NAMES.filter((f) => typeof r[f] === "boolean").map((f) => [f, Boolean(r[f])]),
+      );
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+/** Super base already used this quarter before the period (best-effort: a full quarter's base if this fails). */
+async function loadSuperQuarterToDate(startISO: string): Promise<EngineInput["superQuarterToDate"]> {
+  try {
+    const qs = new URLSearchParams({ before: startISO });
+    const res = await fetch(`${API_SUPER}?${qs.toString()}`, { method: "GET", cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok || !Array.isArray(j.quarterToDate)) return {};
+    const out: NonNullable<EngineInput["superQuarterToDate"]> = {};
+    for (const r of j.quarterToDate as any[]) out[String(r.xeroEmployeeId)] = Number(r.superBase ?? 0) || 0;
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+/** Store the period's super per employee; replaces whatever an earlier finalise saved for it. */
+async function saveSuperLedger(startISO: string, endISO: string, summaries: SuperSummary[]) {
+  const res = await fetch(API_SUPER, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ periodStartISO: startISO, periodEndISO: endISO, summaries }),
+  });
+  const j = await res.json().catch(() => null);
+  if (!res.ok || !j?.ok) throw new Error(String(j?.error ?? "Failed to save the super ledger"));
+}
+
 function withinInclusive(dateISO: string, startISO: string, endISO: string) {
   return dateISO >= startISO && dateISO <= endISO;
 }
@@ -303,6 +615,11 @@ function detectJobCode(e: any): string | undefined {
   return e?.jobCode ?? e?.job ?? e?.job_id ?? e?.jobId ?? e?.siteCode ?? e?.site ?? undefined;
 }
 
+function detectSite(e: any): string | undefined {
+  const v = e?.siteName ?? e?.site ?? e?.siteCode ?? e?.site_name ?? undefined;
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
 /**
  * engine_demo expects startISO/endISO.
  * Fergus can provide:
@@ -436,6 +753,8 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
   const [computedPayLines, setComputedPayLinesState] = useState<ComputedPayLine[]>([]);
   const [activePeriod, setActivePeriodState] = useState<ActivePeriod | null>(null);
   const [lastAppliedAt, setLastAppliedAt] = useState<string | null>(null);
+  const [lastApplyError, setLastApplyError] = useState<string | null>(null);
+  const lastRunRef = useRef<{ startISO: string; endISO: string; result: EngineResult } | null>(null);
   const [syncing, setSyncing] = useState(false);
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
   const [lastSyncError, setLastSyncError] = useState<string | null>(null);
@@ -551,6 +870,13 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
               baseRate: Number(r?.baseRate ?? existing?.baseRate ?? 0) || 0,
               noTimesheets: Boolean(r?.noTimesheets ?? existing?.noTimesheets ?? false),
               weeklyHours: typeof r?.weeklyHours === "number" ? r.weeklyHours : existing?.weeklyHours ?? null,
+              employmentType: isEmploymentType(r?.employmentType) ? r.employmentType : existing?.employmentType,
+              shiftClass: isShiftClass(r?.shiftClass) ? r.shiftClass : null,
+              classification: typeof r?.classification === "string" ? r.classification : null,
+              homeDepot: typeof r?.homeDepot === "string" ? r.homeDepot : null,
+              toilElection: Boolean(r?.toilElection),
+              workDays: Array.isArray(r?.workDays) ? (r.workDays as unknown[]).map(Number) : existing?.workDays,
+              userId: typeof r?.userId === "string" ? r.userId : null,
             };
 
             if (existing) {
@@ -634,7 +960,7 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
       return a + n(l?.minutes, 0);
     }, 0);
     const totalCost = computedPayLines.reduce((a, l: any) => {
-      if (l?.isLeave) return a;
+      if (l?.isLeave || l?.isDeduction) return a;
       return a + n(l?.cost, 0);
     }, 0);
     return { totalMinutes, totalCost, lineCount: computedPayLines.length };
@@ -666,6 +992,13 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
         baseRate: emp.baseRate,
         noTimesheets: Boolean((emp as any).noTimesheets),
         weeklyHours: typeof (emp as any).weeklyHours === "number" ? (emp as any).weeklyHours : null,
+        ...(emp.employmentType ? { employmentType: emp.employmentType } : {}),
+        ...(emp.shiftClass !== undefined ? { shiftClass: emp.shiftClass } : {}),
+        ...(emp.classification !== undefined ? { classification: emp.classification } : {}),
+        ...(emp.homeDepot !== undefined ? { homeDepot: emp.homeDepot } : {}),
+        ...(emp.toilElection !== undefined ? { toilElection: emp.toilElection } : {}),
+        ...(emp.workDays ? { workDays: emp.workDays } : {}),
+        ...(emp.userId !== undefined ? { userId: emp.userId } : {}),
       }),
     }).catch(() => {});
   };
@@ -676,6 +1009,7 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
 
   const clearComputed = () => {
     setComputedPayLinesState([]);
+    lastRunRef.current = null;
     setLastAppliedAt(null);
     try {
       localStorage.removeItem(LS_COMPUTED);
@@ -698,6 +1032,7 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
     setComputedPayLinesState([]);
     setActivePeriodState(null);
     setLastAppliedAt(null);
+    lastRunRef.current = null;
 
     try {
       localStorage.removeItem(LS_EMPLOYEES);
@@ -709,14 +1044,14 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
     } catch {}
   };
 
-  const applyRules = async (ruleset?: CompanyRuleset) => {
+  const computePayLines = async (ruleset?: CompanyRuleset) => {
     const effectiveRuleset: CompanyRuleset = ruleset ?? getCurrentRuleset();
 
     const p = activePeriod ?? (loadActivePayPeriod() as any);
     const startISO = p?.startISO ?? p?.start ?? null;
     const endISO = p?.endISO ?? p?.end ?? null;
 
-    const filtered =
+    const imported =
       startISO && endISO
         ? rawTimeEntries.filter((e: any) => {
             const d = entryDateISO(e);
@@ -725,6 +1060,10 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
           })
         : rawTimeEntries;
 
+    // Time recorded in the web / mobile apps joins the imported timesheets (with its call-out / TOIL flags)
+    const filtered =
+      startISO && endISO ? [...imported, ...(await loadAppTimeEntries(String(startISO), String(endISO)))] : imported;
+
     // ✅ Add synthetic "ordinary" entries for office/salaried staff who do not submit Fergus timesheets.
     const effectiveEntries: TimeEntry[] = (() => {
       const base = Array.isArray(filtered) ? [...filtered] : [];
@@ -835,8 +1174,14 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
 
     const out: ComputedPayLine[] = [];
 
+    // Worked time goes through the engine in one pass (weekly/daily rules need the whole period).
+    const engineEntries: TimeEntry[] = [];
+    const leave: LeaveTaken[] = [];
+    const profiles = new Map<string, EmployeeProfile>();
+
     for (const e of effectiveEntries as any[]) {
-      const leaveInfo = isFergusLeaveEntry(e);
+      // TOIL taken goes to the engine (it draws the balance down), even when Fergus calls it leave
+      const leaveInfo = isFergusToilEntry(e) ? { ok: false, leaveType: "" } : isFergusLeaveEntry(e);
       const rawEmpId = detectEmployeeId(e);
       const rawEmpName = detectEmployeeName(e);
 
@@ -849,6 +1194,22 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
       const employeeId = String(emp?.id ?? rawEmpId ?? normalizeName(rawEmpName) ?? "unknown");
       const employeeName = emp?.name ?? rawEmpName ?? "Unknown";
 
+      if (!profiles.has(employeeId)) {
+        profiles.set(employeeId, {
+          id: employeeId,
+          name: employeeName,
+          baseRate,
+          weeklyHours: typeof emp?.weeklyHours === "number" ? emp.weeklyHours : null,
+          noTimesheets: Boolean(emp?.noTimesheets),
+          employmentType: emp?.employmentType,
+          shiftClass: emp?.shiftClass ?? undefined,
+          classification: emp?.classification ?? undefined,
+          homeDepot: emp?.homeDepot ?? undefined,
+          toilElection: Boolean(emp?.toilElection),
+          workDays: emp?.workDays,
+        });
+      }
+
       if (leaveInfo.ok) {
         const rawLeaveDur = Number.isFinite(n((e as any)?.unchargedTimeDuration, NaN))
           ? n((e as any)?.unchargedTimeDuration, 0)
@@ -866,59 +1227,101 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
 
         const minutes = Math.max(0, Math.round(leaveHours * 60));
 
-        out.push({
+        // Paid by the engine (rules/leaveTaken.ts) so leave is costed and in the super base
+        leave.push({
           employeeId,
           employeeName,
-          baseRate,
-          cost: 0,
+          leaveType: leaveInfo.leaveType,
+          date: entryDateISO(e) ?? String(startISO ?? ""),
           minutes,
-          hours: minutes / 60,
-          multiplier: 1,
           jobCode: detectJobCode(e) ?? undefined,
-          dateISO: entryDateISO(e) ?? undefined,
-          category: leaveInfo.leaveType,
-          entryType: leaveInfo.leaveType,
-          isLeave: true,
-        } as any);
+        });
 
         continue;
       }
 
       const { startISO: startISOEntry, endISO: endISOEntry } = buildStartEndISO(e);
 
-      const adaptedEntry: any = {
+      engineEntries.push({
         ...e,
         employeeId,
         employeeName,
-        minutes: Number.isFinite(n((e as any)?.minutes, NaN)) ? n((e as any)?.minutes, 0) : entryMinutes(e),
-        jobCode: detectJobCode(e),
-        date: entryDateISO(e) ?? (e as any)?.date ?? (e as any)?.day,
+        // Fergus "RDO" uncharged time goes to the engine on the RDO job (rules/loadingsRDO.ts)
+        // and "TOIL" to the TOIL job (rules/toil.ts)
+        jobCode: isFergusRdoEntry(e)
+          ? effectiveRuleset.rdo?.jobCode ?? RDO_JOB_CODE
+          : isFergusToilEntry(e)
+          ? effectiveRuleset.toil?.jobCode ?? TOIL_JOB_CODE
+          : detectJobCode(e) ?? "",
         startISO: (e as any)?.startISO ?? (e as any)?.startIso ?? startISOEntry,
         endISO: (e as any)?.endISO ?? (e as any)?.endIso ?? endISOEntry,
-      };
+        unpaidBreakMinutes: n((e as any)?.unpaidBreakMinutes, 0),
+        site: detectSite(e),
+      });
 
-      const lines = computePayLinesV1(adaptedEntry, effectiveRuleset);
+    }
 
-      for (const l of lines as any[]) {
-        const minutes = n(
-          (l as any)?.minutes,
-          Number.isFinite(n((l as any)?.hours, NaN)) ? Math.round(n((l as any)?.hours, 0) * 60) : 0
-        );
-        const hours = minutes / 60;
-        const multiplier = Number.isFinite(n((l as any)?.multiplier, NaN)) ? n((l as any)?.multiplier, 1) : 1;
+    // People with no time this period only matter for holiday-not-worked pay: add active staff
+    // with a public holiday on one of their usual days, so nobody else is paid for it
+    const publicHolidays = await loadPublicHolidays();
+    const holidayDates =
+      isISODate(startISO) && isISODate(endISO)
+        ? Array.from(
+            publicHolidayCalendar(startISO, endISO, publicHolidays?.state, publicHolidays?.overrides).keys(),
+          )
+        : [];
+    for (const emp of employees) {
+      if (!emp?.id || profiles.has(String(emp.id))) continue;
+      if (emp.status && emp.status.toUpperCase() !== "ACTIVE") continue;
+      const workDays = workDaysOf(emp);
+      if (!holidayDates.some((d) => workDays.includes(dayOfWeekISO(d)))) continue;
+      profiles.set(String(emp.id), {
+        id: String(emp.id),
+        name: emp.name,
+        baseRate: n(emp.baseRate, 0),
+        weeklyHours: typeof emp.weeklyHours === "number" ? emp.weeklyHours : null,
+        noTimesheets: Boolean(emp.noTimesheets),
+        employmentType: emp.employmentType,
+        shiftClass: emp.shiftClass ?? undefined,
+        classification: emp.classification ?? undefined,
+        homeDepot: emp.homeDepot ?? undefined,
+        toilElection: Boolean(emp.toilElection),
+        workDays: emp.workDays,
+      });
+    }
 
-        const cost = hours * baseRate * multiplier;
+    // TOIL banked inside the cash-out window is kept; anything older and unused gets paid out
+    const cashOutWeeks = Number(effectiveRuleset.toil?.cashOutAfterWeeks);
+    const toilAccruedSinceISO =
+      isISODate(endISO) && cashOutWeeks > 0 ? addDaysISO(endISO, -Math.round(cashOutWeeks * 7)) : undefined;
+
+    const result = runPayroll({
+      entries: engineEntries,
+      leave,
+      employees: Array.from(profiles.values()),
+      ruleset: effectiveRuleset,
+      jobRulesets: loadJobRulesets(),
+      publicHolidays,
+      onCall: startISO && endISO ? await loadOnCall(String(startISO), String(endISO)) : [],
+      ...(startISO ? await loadBalances(String(startISO), toilAccruedSinceISO) : {}),
+      ...(await loadSites()),
+      ...(startISO && endISO ? await loadSiteBonuses(String(startISO), String(endISO)) : {}),
+      deductions: await loadDeductions(),
+      payCategories: await loadPayCategories(),
+      superQuarterToDate: startISO ? await loadSuperQuarterToDate(String(startISO)) : {},
+      period: startISO && endISO ? { startISO: String(startISO), endISO: String(endISO) } : undefined,
+    });
 
-        out.push({
-          ...(l as any),
-          employeeId,
-          employeeName,
-          baseRate,
-          cost,
-          jobCode: (l as any)?.jobCode ?? adaptedEntry.jobCode ?? detectJobCode(e),
-          dateISO: (l as any)?.dateISO ?? adaptedEntry.date ?? entryDateISO(e) ?? undefined,
-        });
-      }
+    lastRunRef.current = startISO && endISO ? { startISO: String(startISO), endISO: String(endISO), result } : null;
+
+    for (const l of result.payLines) {
+      out.push({
+        ...l,
+        employeeId: l.employeeId ?? "unknown",
+        baseRate: n(l.baseRate, 0),
+        cost: n(l.cost, 0),
+        dateISO: l.date,
+      });
     }
 
     setComputedPayLinesState(out);
@@ -930,6 +1333,30 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
     } catch {}
   };
 
+  const applyRules = async (ruleset?: CompanyRuleset) => {
+    setLastApplyError(null);
+    try {
+      await computePayLines(ruleset);
+      return { ok: true };
+    } catch (e: any) {
+      const msg = String(e?.message ?? "Failed to compute pay lines");
+      setLastApplyError(msg);
+      return { ok: false, error: msg };
+    }
+  };
+
+  const finalisePayrun = async () => {
+    const run = lastRunRef.current;
+    if (!run) return { ok: false, error: "Apply rules for a pay period first." };
+    try {
+      await saveBalanceMovements(run.startISO, run.endISO, run.result.movements);
+      await saveSuperLedger(run.startISO, run.endISO, run.result.super);
+      return { ok: true };
+    } catch (e: any) {
+      return { ok: false, error: String(e?.message ?? "Failed to finalise the payrun") };
+    }
+  };
+
   // ✅ Sync mutex: prevents overlap even if callers re-render rapidly
   const syncInFlightRef = useRef(false);
 
@@ -986,7 +1413,10 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
         const file = new File([csvText], `fergus_${startISO}_to_${endISO}.csv`, { type: "text/csv" });
         await importCsvFile(file);
 
-        if (autoApply) await applyRules();
+        if (autoApply) {
+          const applied = await applyRules();
+          if (!applied.ok) throw new Error(`Pulled from Fergus, but applying rules failed: ${applied.error}`);
+        }
 
         setLastSyncAt(new Date().toISOString());
         return { ok: true, pulledFergus, syncedXero };
@@ -1045,6 +1475,8 @@ export function PayrollDataProvider({ children }: { children: React.ReactNode })
     importCsvFile,
     clearAll,
     applyRules,
+    lastApplyError,
+    finalisePayrun,
 
     syncing,
     lastSyncAt,
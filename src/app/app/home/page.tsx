@@ -3,7 +3,7 @@
 import { usePayrollData } from "../PayrollDataProvider";
 
 export default function HomePage() {
-  const { summary, hasImported, lastAppliedAt, applyRules } = usePayrollData();
+  const { summary, hasImported, lastAppliedAt, applyRules, lastApplyError } = usePayrollData();
 
   return (
     <div style={{ display: "grid", gap: 16 }}>
@@ -26,7 +26,7 @@ export default function HomePage() {
           </div>
 
           <button
-            onClick={() => applyRules()}
+            onClick={() => void applyRules()}
             disabled={!hasImported}
             style={{
               marginTop: 10,
@@ -41,6 +41,20 @@ export default function HomePage() {
           >
             APPLY RULES
           </button>
+
+          {lastApplyError ? (
+            <div
+              style={{
+                padding: 12,
+                borderRadius: 12,
+                border: "1px solid rgba(239,68,68,0.35)",
+                background: "rgba(239,68,68,0.12)",
+                fontWeight: 700,
+              }}
+            >
+              {lastApplyError}
+            </div>
+          ) : null}
         </div>
       </div>
     </div>
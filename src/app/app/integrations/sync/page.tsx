@@ -279,7 +279,8 @@ useEffect(() => {
   async function autoApplyRulesAndStay(msg: string) {
     setAutoComputeMsg(msg);
     try {
-      await applyRules(); // uses runtime rules + employee rules automatically
+      const applied = await applyRules(); // uses runtime rules + employee rules automatically
+      if (!applied.ok) throw new Error(applied.error);
       setAutoComputeMsg((m) => (m ? `${m} ✅ computed.` : "✅ computed."));
     } catch (e: any) {
       setAutoComputeMsg("");
@@ -452,7 +453,8 @@ useEffect(() => {
     setError(null);
     setAutoComputeMsg("");
     try {
-      await applyRules();
+      const applied = await applyRules();
+      if (!applied.ok) throw new Error(applied.error);
       router.push("/app/payroll/payruns");
     } catch (e: any) {
       setError(e?.message ?? "Failed to compute pay lines");
@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PageHeader } from "../../../_components/PageHeader";
+import { usePayrollData } from "../../PayrollDataProvider";
+
+type SchemeRow = {
+  id: string;
+  name: string;
+  site: string;
+  formula: string;
+  minDaysAttended: number | null;
+  cap: number | null;
+  ote: boolean;
+  active: boolean;
+};
+
+type MetricRow = {
+  id: string;
+  site: string;
+  metric: string;
+  value: number;
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #2a2a2a",
+  boxSizing: "border-box",
+};
+
+const buttonStyle: React.CSSProperties = { padding: "4px 8px", border: "1px solid #2a2a2a", borderRadius: 8 };
+
+const mono: React.CSSProperties = { fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace" };
+
+const emptyScheme = { id: "", name: "", site: "", formula: "", minDaysAttended: "", cap: "", ote: false };
+const emptyMetric = { site: "", metric: "", value: "" };
+
+async function send(url: string, init: RequestInit): Promise<string | null> {
+  const res = await fetch(url, init);
+  const j = await res.json().catch(() => null);
+  return res.ok && j?.ok ? null : j?.error ?? "Failed";
+}
+
+export default function BonusesPage() {
+  const { activePeriod } = usePayrollData();
+  const [schemes, setSchemes] = useState<SchemeRow[]>([]);
+  const [metrics, setMetrics] = useState<MetricRow[]>([]);
+  const [draft, setDraft] = useState(emptyScheme);
+  const [metricDraft, setMetricDraft] = useState(emptyMetric);
+  const [status, setStatus] = useState("");
+
+  async function load() {
+    try {
+      const res = await fetch("/api/payroll/bonus-schemes", { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Failed to load bonus schemes");
+      setSchemes(Array.isArray(j.schemes) ? j.schemes : []);
+
+      if (!activePeriod) return setMetrics([]);
+      const qs = new URLSearchParams({ start: activePeriod.start, end: activePeriod.end });
+      const mres = await fetch(`/api/payroll/site-metrics?${qs.toString()}`, { cache: "no-store" });
+      const m = await mres.json().catch(() => null);
+      if (!mres.ok || !m?.ok) throw new Error(m?.error ?? "Failed to load site metrics");
+      setMetrics(Array.isArray(m.metrics) ? m.metrics : []);
+    } catch (e: any) {
+      setStatus(e?.message ?? "Failed to load");
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activePeriod?.start, activePeriod?.end]);
+
+  async function saveScheme() {
+    const error = await send("/api/payroll/bonus-schemes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    });
+    if (error) return setStatus(error);
+    setDraft(emptyScheme);
+    setStatus("Scheme saved ✅ (re-apply rules to update pay runs)");
+    await load();
+  }
+
+  async function toggleActive(row: SchemeRow) {
+    const error = await send("/api/payroll/bonus-schemes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...row, active: !row.active }),
+    });
+    setStatus(error ?? (row.active ? "Scheme paused ✅" : "Scheme active ✅"));
+    await load();
+  }
+
+  async function saveMetric() {
+    if (!activePeriod) return setStatus("Pick a pay period first");
+    const error = await send("/api/payroll/site-metrics", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...metricDraft, periodStartISO: activePeriod.start, periodEndISO: activePeriod.end }),
+    });
+    if (error) return setStatus(error);
+    setMetricDraft({ ...emptyMetric, site: metricDraft.site });
+    setStatus("Metric saved ✅ (re-apply rules to update pay runs)");
+    await load();
+  }
+
+  async function remove(url: string) {
+    const error = await send(url, { method: "DELETE" });
+    setStatus(error ?? "Removed ✅");
+    await load();
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Site bonuses"
+        subtitle="Production, safety and attendance bonuses worked out from the figures each site reports per pay period."
+      />
+
+      <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 10 }}>Schemes</div>
+        {schemes.length === 0 ? (
+          <div style={{ fontSize: 13, opacity: 0.7 }}>No bonus schemes yet.</div>
+        ) : (
+          schemes.map((r) => (
+            <div key={r.id} style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 14, marginBottom: 6 }}>
+              <b style={{ opacity: r.active ? 1 : 0.5 }}>{r.name}</b>
+              <span style={mono}>{r.site}</span>
+              <span style={{ ...mono, flex: 1, opacity: 0.85 }}>{r.formula}</span>
+              <span style={{ fontSize: 12, opacity: 0.75 }}>
+                {r.minDaysAttended ? `min ${r.minDaysAttended} days · ` : ""}
+                {r.cap ? `cap $${r.cap} · ` : ""}
+                {r.ote ? "OTE" : "not OTE"}
+              </span>
+              <button
+                onClick={() =>
+                  setDraft({
+                    id: r.id,
+                    name: r.name,
+                    site: r.site,
+                    formula: r.formula,
+                    minDaysAttended: r.minDaysAttended == null ? "" : String(r.minDaysAttended),
+                    cap: r.cap == null ? "" : String(r.cap),
+                    ote: r.ote,
+                  })
+                }
+                style={buttonStyle}
+              >
+                Edit
+              </button>
+              <button onClick={() => void toggleActive(r)} style={buttonStyle}>
+                {r.active ? "Pause" : "Resume"}
+              </button>
+              <button
+                onClick={() => void remove(`/api/payroll/bonus-schemes?id=${encodeURIComponent(r.id)}`)}
+                style={buttonStyle}
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 10, marginTop: 12 }}>
+          <input
+            placeholder="Name (pay line category)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Site code"
+            value={draft.site}
+            onChange={(e) => setDraft({ ...draft, site: e.target.value })}
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Formula, e.g. tonnes * 0.02 * daysAttended / periodDays"
+            value={draft.formula}
+            onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+            style={{ ...fieldStyle, ...mono, gridColumn: "span 2" }}
+          />
+          <input
+            placeholder="Min days attended"
+            value={draft.minDaysAttended}
+            onChange={(e) => setDraft({ ...draft, minDaysAttended: e.target.value })}
+            inputMode="numeric"
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Cap $ (optional)"
+            value={draft.cap}
+            onChange={(e) => setDraft({ ...draft, cap: e.target.value })}
+            inputMode="decimal"
+            style={fieldStyle}
+          />
+          <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 14 }}>
+            <input type="checkbox" checked={draft.ote} onChange={(e) => setDraft({ ...draft, ote: e.target.checked })} />
+            OTE (super paid on it)
+          </label>
+          <button onClick={() => void saveScheme()} style={{ padding: "8px 10px", border: "1px solid #2a2a2a", borderRadius: 10 }}>
+            {draft.id ? "Update scheme" : "Add scheme"}
+          </button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+          Formulas use the site&apos;s metric names plus <span style={mono}>daysAttended</span> and{" "}
+          <span style={mono}>periodDays</span>, with + - * /, comparisons, <span style={mono}>a ? b : c</span> and
+          min / max / round / floor / ceil.
+        </div>
+      </div>
+
+      <div style={{ marginTop: 16, border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 10 }}>
+          Site metrics {activePeriod ? `for ${activePeriod.start} to ${activePeriod.end}` : ""}
+        </div>
+        {!activePeriod ? (
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Pick a pay period on the Employees page to enter metrics.</div>
+        ) : (
+          <>
+            {metrics.length === 0 ? (
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Nothing entered for this period yet.</div>
+            ) : (
+              metrics.map((m) => (
+                <div key={m.id} style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 14, marginBottom: 6 }}>
+                  <span style={mono}>{m.site}</span>
+                  <b style={{ ...mono, flex: 1 }}>{m.metric}</b>
+                  <span style={mono}>{m.value}</span>
+                  <button
+                    onClick={() => void remove(`/api/payroll/site-metrics?id=${encodeURIComponent(m.id)}`)}
+                    style={buttonStyle}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))
+            )}
+
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 10, marginTop: 12 }}>
+              <input
+                placeholder="Site code"
+                value={metricDraft.site}
+                onChange={(e) => setMetricDraft({ ...metricDraft, site: e.target.value })}
+                style={fieldStyle}
+              />
+              <input
+                placeholder="Metric (e.g. tonnes)"
+                value={metricDraft.metric}
+                onChange={(e) => setMetricDraft({ ...metricDraft, metric: e.target.value })}
+                style={{ ...fieldStyle, ...mono }}
+              />
+              <input
+                placeholder="Value"
+                value={metricDraft.value}
+                onChange={(e) => setMetricDraft({ ...metricDraft, value: e.target.value })}
+                inputMode="decimal"
+                style={fieldStyle}
+              />
+              <button
+                onClick={() => void saveMetric()}
+                style={{ padding: "8px 10px", border: "1px solid #2a2a2a", borderRadius: 10 }}
+              >
+                Save metric
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {status ? <div style={{ marginTop: 10, fontSize: 13, opacity: 0.85 }}>{status}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PageHeader } from "../../../_components/PageHeader";
+import { DEDUCTION_KINDS, DEDUCTION_KIND_LABELS } from "~/payroll_calc/rules/deductions";
+import type { DeductionKind } from "~/payroll_calc/types";
+
+type DeductionRow = {
+  id: string;
+  xeroEmployeeId: string;
+  employee?: { fullName: string } | null;
+  name: string;
+  kind: DeductionKind;
+  amountType: "fixed" | "percent";
+  amount: number;
+  startDate: string | null;
+  endDate: string | null;
+  cap: number | null;
+  preTax: boolean;
+  active: boolean;
+};
+
+type EmployeeOption = { xeroEmployeeId: string; fullName: string };
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #2a2a2a",
+  boxSizing: "border-box",
+};
+
+const buttonStyle: React.CSSProperties = { padding: "4px 8px", border: "1px solid #2a2a2a", borderRadius: 8 };
+
+const emptyDraft = {
+  id: "",
+  xeroEmployeeId: "",
+  name: "",
+  kind: "union" as DeductionKind,
+  amountType: "fixed" as DeductionRow["amountType"],
+  amount: "",
+  startDate: "",
+  endDate: "",
+  cap: "",
+  preTax: false,
+};
+
+function amountText(r: DeductionRow) {
+  const base = r.amountType === "percent" ? `${r.amount}% of gross` : `$${r.amount.toFixed(2)}`;
+  return `${base}${r.cap ? ` (max $${r.cap.toFixed(2)})` : ""} per period`;
+}
+
+export default function DeductionsPage() {
+  const [rows, setRows] = useState<DeductionRow[]>([]);
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [status, setStatus] = useState("");
+
+  async function load() {
+    try {
+      const [res, eres] = await Promise.all([
+        fetch("/api/payroll/deductions", { cache: "no-store" }),
+        fetch("/api/payroll/employees", { cache: "no-store" }),
+      ]);
+      const j = await res.json().catch(() => null);
+      const e = await eres.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Failed to load deductions");
+      setRows(Array.isArray(j.deductions) ? j.deductions : []);
+      setEmployees(Array.isArray(e?.employees) ? e.employees : []);
+    } catch (err: any) {
+      setStatus(err?.message ?? "Failed to load deductions");
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function save(body: Record<string, unknown>, done: string) {
+    const res = await fetch("/api/payroll/deductions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) {
+      setStatus(j?.error ?? "Failed to save");
+      return false;
+    }
+    setStatus(`${done} ✅ (re-apply rules to update pay runs)`);
+    await load();
+    return true;
+  }
+
+  async function saveDraft() {
+    if (await save(draft, draft.id ? "Deduction updated" : "Deduction added")) setDraft(emptyDraft);
+  }
+
+  async function removeRow(id: string) {
+    const res = await fetch(`/api/payroll/deductions?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Removed ✅" : j?.error ?? "Failed to remove");
+    await load();
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Deductions"
+        subtitle="Recurring amounts taken from pay each period. They show as negative lines on the pay run and go to Xero payslips."
+      />
+
+      <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 10 }}>Schedules</div>
+        {rows.length === 0 ? (
+          <div style={{ fontSize: 13, opacity: 0.7 }}>No deductions yet.</div>
+        ) : (
+          rows.map((r) => (
+            <div key={r.id} style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 14, marginBottom: 6 }}>
+              <b style={{ minWidth: 160, opacity: r.active ? 1 : 0.5 }}>{r.employee?.fullName ?? r.xeroEmployeeId}</b>
+              <span style={{ minWidth: 140 }}>{r.name}</span>
+              <span style={{ flex: 1, opacity: 0.85 }}>{amountText(r)}</span>
+              <span style={{ fontSize: 12, opacity: 0.75 }}>
+                {r.preTax ? "pre-tax" : "post-tax"}
+                {r.startDate || r.endDate ? ` · ${r.startDate ?? "…"} to ${r.endDate ?? "…"}` : ""}
+              </span>
+              <button
+                onClick={() =>
+                  setDraft({
+                    id: r.id,
+                    xeroEmployeeId: r.xeroEmployeeId,
+                    name: r.name,
+                    kind: r.kind,
+                    amountType: r.amountType,
+                    amount: String(r.amount),
+                    startDate: r.startDate ?? "",
+                    endDate: r.endDate ?? "",
+                    cap: r.cap == null ? "" : String(r.cap),
+                    preTax: r.preTax,
+                  })
+                }
+                style={buttonStyle}
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => void save({ ...r, active: !r.active }, r.active ? "Deduction paused" : "Deduction resumed")}
+                style={buttonStyle}
+              >
+                {r.active ? "Pause" : "Resume"}
+              </button>
+              <button onClick={() => void removeRow(r.id)} style={buttonStyle}>
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div style={{ marginTop: 16, border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 10 }}>{draft.id ? "Edit deduction" : "Add deduction"}</div>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 10 }}>
+          <select
+            value={draft.xeroEmployeeId}
+            onChange={(e) => setDraft({ ...draft, xeroEmployeeId: e.target.value })}
+            style={fieldStyle}
+          >
+            <option value="">Employee…</option>
+            {employees.map((e) => (
+              <option key={e.xeroEmployeeId} value={e.xeroEmployeeId}>
+                {e.fullName}
+              </option>
+            ))}
+          </select>
+          <select
+            value={draft.kind}
+            onChange={(e) => {
+              const kind = e.target.value as DeductionKind;
+              setDraft({ ...draft, kind, preTax: kind === "salarySacrifice" ? true : draft.preTax });
+            }}
+            style={fieldStyle}
+          >
+            {DEDUCTION_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {DEDUCTION_KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          <input
+            placeholder="Name (Xero deduction type)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            style={fieldStyle}
+          />
+          <select
+            value={draft.amountType}
+            onChange={(e) => setDraft({ ...draft, amountType: e.target.value as DeductionRow["amountType"] })}
+            style={fieldStyle}
+          >
+            <option value="fixed">$ per period</option>
+            <option value="percent">% of gross</option>
+          </select>
+          <input
+            placeholder={draft.amountType === "percent" ? "Percent" : "Amount $"}
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            inputMode="decimal"
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Cap $ per period (optional)"
+            value={draft.cap}
+            onChange={(e) => setDraft({ ...draft, cap: e.target.value })}
+            inputMode="decimal"
+            style={fieldStyle}
+          />
+          <input
+            type="date"
+            title="Start date (optional)"
+            value={draft.startDate}
+            onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+            style={fieldStyle}
+          />
+          <input
+            type="date"
+            title="End date (optional)"
+            value={draft.endDate}
+            onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+            style={fieldStyle}
+          />
+          <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 14 }}>
+            <input
+              type="checkbox"
+              checked={draft.preTax}
+              onChange={(e) => setDraft({ ...draft, preTax: e.target.checked })}
+            />
+            Pre-tax
+          </label>
+          <button onClick={() => void saveDraft()} style={{ padding: "8px 10px", border: "1px solid #2a2a2a", borderRadius: 10 }}>
+            Save
+          </button>
+          {draft.id ? (
+            <button onClick={() => setDraft(emptyDraft)} style={{ padding: "8px 10px", border: "1px solid #2a2a2a", borderRadius: 10 }}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {status ? <div style={{ marginTop: 10, fontSize: 13, opacity: 0.85 }}>{status}</div> : null}
+    </div>
+  );
+}
@@ -311,7 +311,11 @@ export default function EmployeeRulesPage() {
         if (!hasImported) {
           setStatus("Saved ✅ (import a timesheet CSV to apply)");
         } else {
-          await applyRules();
+          const applied = await applyRules();
+          if (!applied.ok) {
+            setStatus(`Saved ✅ but applying failed: ${applied.error}`);
+            return;
+          }
           setStatus("Saved ✅ and applied ✅ (pay runs updated)");
 
           // ✅ ONLY CHANGE: after Save & Apply, go to payruns page
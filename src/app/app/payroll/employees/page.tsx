@@ -4,6 +4,10 @@ import { useEffect, useMemo, useState } from "react";
 import { PageHeader } from "../../../_components/PageHeader";
 import { usePayrollData } from "../../PayrollDataProvider";
 import { saveActivePayPeriod } from "../../_lib/payPeriod";
+import { DEFAULT_EMPLOYMENT_TYPE, EMPLOYMENT_TYPES, EMPLOYMENT_TYPE_LABELS } from "~/payroll_calc/employment";
+import { DEFAULT_WORK_DAYS, workDaysOf } from "~/payroll_calc/rules/leavePublicHolidayNotWorked";
+import { isShiftClass } from "~/payroll_calc/rules/loadingsShift";
+import type { EmploymentType, ShiftClass } from "~/payroll_calc/types";
 
 type XeroEmployee = {
   employeeID: string;
@@ -23,6 +27,26 @@ type SyncMeta = {
 const LS_XERO_EMPLOYEES = "xero_employees_v1";
 const LS_XERO_SYNC_META = "xero_employees_sync_meta_v1";
 
+// "" = classified by each shift's start time
+const SHIFT_CLASS_OPTIONS: Array<{ value: ShiftClass | ""; label: string }> = [
+  { value: "", label: "Shift: by start time" },
+  { value: "day", label: "Day shift" },
+  { value: "afternoon", label: "Afternoon shift" },
+  { value: "night", label: "Night shift" },
+  { value: "permanentNight", label: "Permanent night" },
+];
+
+// Usual days worked, 0 Sun .. 6 Sat (public holiday not worked)
+const WORK_DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const selectStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.12)",
+  background: "rgba(255,255,255,0.06)",
+  fontWeight: 700,
+};
+
 function normalizeName(name: string) {
   return name.trim().toLowerCase().replace(/\s+/g, " ");
 }
@@ -103,6 +127,12 @@ export default function EmployeesPage() {
   const [syncMeta, setSyncMeta] = useState<SyncMeta>({ lastSyncAt: null, lastSyncedIds: [] });
   const [syncing, setSyncing] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  // Banked RDO / TOIL minutes by xeroEmployeeId (PayrollBalanceMovement totals)
+  const [balances, setBalances] = useState<Record<string, { rdo: number; toil: number }>>({});
+  // Depot codes for the home depot picker (PayrollSite kind DEPOT)
+  const [depots, setDepots] = useState<string[]>([]);
+  // App logins for the "records time as" picker (PayrollEmployee.userId)
+  const [users, setUsers] = useState<Array<{ id: string; label: string }>>([]);
 
   useEffect(() => {
     (async () => {
@@ -122,6 +152,34 @@ export default function EmployeesPage() {
         const raw = localStorage.getItem(LS_XERO_SYNC_META);
         if (raw) setSyncMeta(JSON.parse(raw));
       } catch {}
+
+      try {
+        const res = await fetch("/api/payroll/balances", { method: "GET", cache: "no-store" });
+        const j = await res.json().catch(() => null);
+        if (res.ok && j?.ok && Array.isArray(j.balances)) {
+          const next: Record<string, { rdo: number; toil: number }> = {};
+          for (const b of j.balances as any[]) {
+            next[String(b.xeroEmployeeId)] = { rdo: Number(b.rdo ?? 0) || 0, toil: Number(b.toil ?? 0) || 0 };
+          }
+          setBalances(next);
+        }
+      } catch {}
+
+      try {
+        const res = await fetch("/api/payroll/sites", { method: "GET", cache: "no-store" });
+        const j = await res.json().catch(() => null);
+        if (res.ok && j?.ok && Array.isArray(j.sites)) {
+          setDepots((j.sites as any[]).filter((x) => x?.kind === "DEPOT").map((x) => String(x.code)));
+        }
+      } catch {}
+
+      try {
+        const res = await fetch("/api/payroll/users", { method: "GET", cache: "no-store" });
+        const j = await res.json().catch(() => null);
+        if (res.ok && j?.ok && Array.isArray(j.users)) {
+          setUsers((j.users as any[]).map((u) => ({ id: String(u.id), label: String(u.name || u.email || u.id) })));
+        }
+      } catch {}
     })();
   }, []);
 
@@ -213,11 +271,24 @@ export default function EmployeesPage() {
     return out;
   }, [payroll.rawTimeEntries]);
 
+  type Row = {
+    key: string;
+    name: string;
+    mgmt?: { name: string };
+    xero?: XeroEmployee;
+    newlySynced?: boolean;
+    noTimesheets?: boolean;
+    employmentType?: EmploymentType;
+    shiftClass?: ShiftClass | null;
+    classification?: string | null;
+    homeDepot?: string | null;
+    toilElection?: boolean;
+    workDays?: number[];
+    userId?: string | null;
+  };
+
   const merged = useMemo(() => {
-    const map = new Map<
-      string,
-      { key: string; name: string; mgmt?: { name: string }; xero?: XeroEmployee; newlySynced?: boolean; noTimesheets?: boolean }
-    >();
+    const map = new Map<string, Row>();
 
     for (const m of fergusEmployees) {
       const key = normalizeName(m.name);
@@ -233,7 +304,7 @@ export default function EmployeesPage() {
 
     const out = Array.from(map.values());
 
-    // Apply noTimesheets override from DB keyed by xeroEmployeeId
+    // Apply noTimesheets / employment type overrides from DB keyed by xeroEmployeeId
     const byXeroId = new Map<string, any>();
     for (const e of dbEmployees as any[]) {
       const xid = String((e as any)?.xeroEmployeeId ?? "").trim();
@@ -246,6 +317,13 @@ export default function EmployeesPage() {
       const xid = r.xero?.employeeID ? String(r.xero.employeeID) : "";
       const hit = xid ? byXeroId.get(xid) : null;
       r.noTimesheets = Boolean(hit?.noTimesheets);
+      r.employmentType = hit?.employmentType ?? DEFAULT_EMPLOYMENT_TYPE;
+      r.shiftClass = isShiftClass(hit?.shiftClass) ? hit.shiftClass : null;
+      r.classification = typeof hit?.classification === "string" ? hit.classification : null;
+      r.homeDepot = typeof hit?.homeDepot === "string" ? hit.homeDepot : null;
+      r.toilElection = Boolean(hit?.toilElection);
+      r.workDays = Array.isArray(hit?.workDays) ? (hit.workDays as unknown[]).map(Number) : DEFAULT_WORK_DAYS;
+      r.userId = typeof hit?.userId === "string" ? hit.userId : null;
     }
 
     out.sort((a, b) => {
@@ -258,6 +336,54 @@ export default function EmployeesPage() {
     return out;
   }, [fergusEmployees, xeroEmployees, dbEmployees, syncMeta.lastSyncedIds]);
 
+  // Save one Xero-backed row's settings, keeping whatever else is already stored for them
+  function saveRowSettings(
+    r: Row,
+    patch: {
+      noTimesheets?: boolean;
+      employmentType?: EmploymentType;
+      shiftClass?: ShiftClass | null;
+      classification?: string | null;
+      homeDepot?: string | null;
+      toilElection?: boolean;
+      workDays?: number[];
+      userId?: string | null;
+    },
+  ) {
+    if (!r.xero?.employeeID) return;
+    const xid = String(r.xero.employeeID);
+
+    const existing =
+      (payroll.employees ?? []).find((e: any) => String(e?.xeroEmployeeId ?? e?.id ?? "") === xid) ?? null;
+
+    payroll.upsertEmployee({
+      id: existing?.id ?? xid,
+      name: existing?.name ?? r.name,
+      baseRate:
+        typeof existing?.baseRate === "number"
+          ? existing.baseRate
+          : typeof r.xero?.baseRate === "number"
+          ? (r.xero.baseRate as any)
+          : null,
+      xeroEmployeeId: xid,
+      status: r.xero?.status,
+      noTimesheets: patch.noTimesheets ?? Boolean(r.noTimesheets),
+      employmentType: patch.employmentType ?? r.employmentType,
+      shiftClass: patch.shiftClass !== undefined ? patch.shiftClass : r.shiftClass ?? null,
+      classification: patch.classification !== undefined ? patch.classification : r.classification ?? null,
+      homeDepot: patch.homeDepot !== undefined ? patch.homeDepot : r.homeDepot ?? null,
+      toilElection: patch.toilElection ?? Boolean(r.toilElection),
+      workDays: patch.workDays ?? r.workDays,
+      userId: patch.userId !== undefined ? patch.userId : r.userId ?? null,
+      weeklyHours:
+        typeof (existing as any)?.weeklyHours === "number"
+          ? (existing as any).weeklyHours
+          : typeof r.xero?.weeklyHours === "number"
+          ? r.xero.weeklyHours
+          : null,
+    } as any);
+  }
+
   return (
     <div style={{ padding: 18 }}>
       <PageHeader
@@ -336,7 +462,7 @@ export default function EmployeesPage() {
         <div
           style={{
             display: "grid",
-            gridTemplateColumns: "2fr 1fr 1fr 1.4fr 1fr",
+            gridTemplateColumns: "2fr 1fr 1fr 1fr 0.8fr 1.4fr 1fr",
             padding: 12,
             fontWeight: 900,
             opacity: 0.85,
@@ -345,6 +471,8 @@ export default function EmployeesPage() {
           <div>Name</div>
           <div>Fergus</div>
           <div>Xero</div>
+          <div>Type / shift</div>
+          <div>RDO / TOIL</div>
           <div>Xero Employee ID</div>
           <div>Status</div>
         </div>
@@ -368,7 +496,7 @@ export default function EmployeesPage() {
               key={r.key}
               style={{
                 display: "grid",
-                gridTemplateColumns: "2fr 1fr 1fr 1.4fr 1fr",
+                gridTemplateColumns: "2fr 1fr 1fr 1fr 0.8fr 1.4fr 1fr",
                 padding: 12,
                 borderTop: "1px solid rgba(255,255,255,0.08)",
                 background: r.newlySynced
@@ -400,6 +528,123 @@ export default function EmployeesPage() {
                 )}
               </div>
 
+              <div>
+                {fromXero ? (
+                  <div style={{ display: "grid", gap: 6 }}>
+                    <select
+                      value={r.employmentType ?? DEFAULT_EMPLOYMENT_TYPE}
+                      onChange={(ev) => saveRowSettings(r, { employmentType: ev.target.value as EmploymentType })}
+                      style={selectStyle}
+                    >
+                      {EMPLOYMENT_TYPES.map((t) => (
+                        <option key={t} value={t}>
+                          {EMPLOYMENT_TYPE_LABELS[t]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={r.shiftClass ?? ""}
+                      onChange={(ev) =>
+                        saveRowSettings(r, { shiftClass: isShiftClass(ev.target.value) ? ev.target.value : null })
+                      }
+                      style={selectStyle}
+                    >
+                      {SHIFT_CLASS_OPTIONS.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      key={`${r.key}-${r.classification ?? ""}`}
+                      defaultValue={r.classification ?? ""}
+                      onBlur={(ev) => {
+                        const next = ev.target.value.trim() || null;
+                        if (next !== (r.classification ?? null)) saveRowSettings(r, { classification: next });
+                      }}
+                      placeholder="Trade classification"
+                      style={selectStyle}
+                    />
+                    {depots.length ? (
+                      <select
+                        value={r.homeDepot ?? ""}
+                        onChange={(ev) => saveRowSettings(r, { homeDepot: ev.target.value || null })}
+                        style={selectStyle}
+                      >
+                        <option value="">No home depot</option>
+                        {depots.map((d) => (
+                          <option key={d} value={d}>
+                            {d}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
+                    <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+                      <input
+                        type="checkbox"
+                        checked={Boolean(r.toilElection)}
+                        onChange={(ev) => saveRowSettings(r, { toilElection: ev.target.checked })}
+                      />
+                      Overtime as TOIL
+                    </label>
+                    <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }} title="Usual days worked">
+                      {WORK_DAY_LABELS.map((label, day) => {
+                        const days = workDaysOf(r);
+                        return (
+                          <label key={label} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+                            <input
+                              type="checkbox"
+                              checked={days.includes(day)}
+                              onChange={(ev) =>
+                                saveRowSettings(r, {
+                                  workDays: ev.target.checked
+                                    ? [...days, day].sort((a, b) => a - b)
+                                    : days.filter((d) => d !== day),
+                                })
+                              }
+                            />
+                            {label}
+                          </label>
+                        );
+                      })}
+                    </div>
+                    {users.length ? (
+                      <select
+                        value={r.userId ?? ""}
+                        onChange={(ev) => saveRowSettings(r, { userId: ev.target.value || null })}
+                        style={selectStyle}
+                      >
+                        <option value="">No app login</option>
+                        {users.map((u) => (
+                          <option key={u.id} value={u.id}>
+                            {u.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
+                  </div>
+                ) : (
+                  <span style={{ opacity: 0.55 }}>—</span>
+                )}
+              </div>
+
+              <div style={{ opacity: 0.9 }}>
+                {(() => {
+                  const banked = r.xero?.employeeID ? balances[String(r.xero.employeeID)] : undefined;
+                  if (banked === undefined) return <span style={{ opacity: 0.55 }}>—</span>;
+                  const show = (minutes: number) => {
+                    const text = `${(minutes / 60).toFixed(2)}h`;
+                    return minutes < 0 ? pill(text, "red") : <span>{text}</span>;
+                  };
+                  return (
+                    <div style={{ display: "grid", gap: 4 }}>
+                      <div>RDO {show(banked.rdo)}</div>
+                      {banked.toil || r.toilElection ? <div>TOIL {show(banked.toil)}</div> : null}
+                    </div>
+                  );
+                })()}
+              </div>
+
               <div style={{ opacity: 0.9, fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace" }}>
                 {fromXero && r.xero?.employeeID ? r.xero.employeeID : <span style={{ opacity: 0.55 }}>—</span>}
               </div>
@@ -410,33 +655,7 @@ export default function EmployeesPage() {
                     <input
                       type="checkbox"
                       checked={Boolean((r as any).noTimesheets)}
-                      onChange={(ev) => {
-                        if (!r.xero?.employeeID) return;
-                        const xid = String(r.xero.employeeID);
-
-                        const existing =
-                          (payroll.employees ?? []).find((e: any) => String(e?.xeroEmployeeId ?? e?.id ?? "") === xid) ?? null;
-
-                        payroll.upsertEmployee({
-                          id: existing?.id ?? xid,
-                          name: existing?.name ?? r.name,
-                          baseRate:
-                            typeof existing?.baseRate === "number"
-                              ? existing.baseRate
-                              : typeof r.xero?.baseRate === "number"
-                              ? (r.xero.baseRate as any)
-                              : null,
-                          xeroEmployeeId: xid,
-                          status: r.xero?.status,
-                          noTimesheets: ev.target.checked,
-                          weeklyHours:
-                            typeof (existing as any)?.weeklyHours === "number"
-                              ? (existing as any).weeklyHours
-                              : typeof r.xero?.weeklyHours === "number"
-                              ? r.xero.weeklyHours
-                              : null,
-                        } as any);
-                      }}
+                      onChange={(ev) => saveRowSettings(r, { noTimesheets: ev.target.checked })}
                     />
                     <span style={{ fontSize: 12, fontWeight: 800 }}>
                       Auto (no timesheets){typeof r.xero?.weeklyHours === "number" ? ` • ${r.xero.weeklyHours}h/wk` : ""}
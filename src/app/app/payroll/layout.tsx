@@ -9,6 +9,9 @@ const PAYROLL_NAV = [
   { href: "/app/payroll/employees", label: "Employees" },
   { href: "/app/payroll/rules", label: "Rules" },
   { href: "/app/payroll/employee_rules", label: "Employee Rules" },
+  { href: "/app/payroll/bonuses", label: "Bonuses" },
+  { href: "/app/payroll/deductions", label: "Deductions" },
+  { href: "/app/payroll/pay-categories", label: "Pay Categories" },
   { href: "/app/payroll/payruns", label: "Pay Runs" },
   { href: "/app/payroll/simulate", label: "Simulate" },
 ];
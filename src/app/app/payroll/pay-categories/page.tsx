@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PageHeader } from "../../../_components/PageHeader";
+import {
+  DEFAULT_PAY_CATEGORY_FLAGS,
+  PAY_CATEGORY_FLAG_LABELS,
+  PAY_CATEGORY_FLAG_NAMES,
+  PAY_CATEGORY_KEYS,
+  PAY_CATEGORY_LABELS,
+  isPayCategoryKey,
+} from "~/payroll_calc/rules/ote";
+import type { PayCategoryFlags, PayCategoryKey } from "~/payroll_calc/types";
+
+type OverrideRow = { key: string } & { [F in keyof PayCategoryFlags]: boolean | null };
+type RateMapping = { category: string; earningsRateId: string; earningsRateName: string | null };
+type XeroRate = { id: string; name: string; rateType: string };
+
+const buttonStyle: React.CSSProperties = { padding: "4px 8px", border: "1px solid #2a2a2a", borderRadius: 8 };
+
+const gridColumns = "minmax(220px, 2fr) repeat(4, minmax(90px, 1fr)) 80px";
+
+export default function PayCategoriesPage() {
+  const [overrides, setOverrides] = useState<OverrideRow[]>([]);
+  const [status, setStatus] = useState("");
+  // Pay line category -> Xero earnings rate (PayrollEarningsRateMapping), used when pushing to Xero
+  const [mappings, setMappings] = useState<RateMapping[]>([]);
+  const [xeroRates, setXeroRates] = useState<XeroRate[]>([]);
+  const [draft, setDraft] = useState({ category: "", earningsRateId: "" });
+
+  async function loadMappings() {
+    try {
+      const res = await fetch("/api/payroll/earnings-rates", { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Failed to load earnings rate mappings");
+      setMappings(Array.isArray(j.mappings) ? j.mappings : []);
+      setXeroRates(Array.isArray(j.earningsRates) ? j.earningsRates : []);
+    } catch (e: any) {
+      setStatus(e?.message ?? "Failed to load earnings rate mappings");
+    }
+  }
+
+  async function saveMapping() {
+    const rate = xeroRates.find((r) => r.id === draft.earningsRateId);
+    const res = await fetch("/api/payroll/earnings-rates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...draft, earningsRateName: rate?.name ?? null }),
+    });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Mapping saved ✅" : j?.error ?? "Failed to save mapping");
+    if (res.ok && j?.ok) setDraft({ category: "", earningsRateId: "" });
+    await loadMappings();
+  }
+
+  async function removeMapping(category: string) {
+    const res = await fetch(`/api/payroll/earnings-rates?category=${encodeURIComponent(category)}`, { method: "DELETE" });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Mapping removed ✅" : j?.error ?? "Failed to remove mapping");
+    await loadMappings();
+  }
+
+  async function load() {
+    try {
+      const res = await fetch("/api/payroll/pay-categories", { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Failed to load pay categories");
+      setOverrides(Array.isArray(j.overrides) ? j.overrides : []);
+    } catch (e: any) {
+      setStatus(e?.message ?? "Failed to load pay categories");
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    void loadMappings();
+  }, []);
+
+  const overrideFor = (key: string) => overrides.find((o) => o.key === key);
+
+  async function setFlag(key: PayCategoryKey, flag: keyof PayCategoryFlags, value: boolean) {
+    const current = overrideFor(key);
+    const next = Object.fromEntries(PAY_CATEGORY_FLAG_NAMES.map((f) => [f, current?.[f] ?? null]));
+    // Back to the default clears that flag's override
+    next[flag] = value === DEFAULT_PAY_CATEGORY_FLAGS[key][flag] ? null : value;
+
+    const res = await fetch("/api/payroll/pay-categories", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key, ...next }),
+    });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Saved ✅ (re-apply rules to update pay runs)" : j?.error ?? "Failed to save");
+    await load();
+  }
+
+  async function reset(key: string) {
+    const res = await fetch(`/api/payroll/pay-categories?key=${encodeURIComponent(key)}`, { method: "DELETE" });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Back to defaults ✅" : j?.error ?? "Failed to reset");
+    await load();
+  }
+
+  const unknown = overrides.filter((o) => !isPayCategoryKey(o.key));
+
+  return (
+    <div>
+      <PageHeader
+        title="Pay categories"
+        subtitle="Which kinds of pay count as ordinary time earnings, and which attract super, payroll tax and workers comp."
+      />
+
+      {unknown.length ? (
+        <div style={{ border: "1px solid #f44336", borderRadius: 14, padding: 14, marginBottom: 16, fontSize: 14 }}>
+          <b>Pay runs will fail until these are removed:</b> overrides for categories the engine doesn&apos;t know.
+          {unknown.map((o) => (
+            <div key={o.key} style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 6 }}>
+              <span style={{ flex: 1 }}>{o.key}</span>
+              <button onClick={() => void reset(o.key)} style={buttonStyle}>
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ display: "grid", gridTemplateColumns: gridColumns, gap: 10, fontSize: 12, opacity: 0.7 }}>
+          <div>Category</div>
+          {PAY_CATEGORY_FLAG_NAMES.map((f) => (
+            <div key={f}>{PAY_CATEGORY_FLAG_LABELS[f]}</div>
+          ))}
+          <div />
+        </div>
+
+        {PAY_CATEGORY_KEYS.map((key) => {
+          const override = overrideFor(key);
+          return (
+            <div
+              key={key}
+              style={{ display: "grid", gridTemplateColumns: gridColumns, gap: 10, alignItems: "center", fontSize: 14, marginTop: 6 }}
+            >
+              <span style={{ fontWeight: override ? 700 : 400 }}>{PAY_CATEGORY_LABELS[key]}</span>
+              {PAY_CATEGORY_FLAG_NAMES.map((f) => {
+                const own = override?.[f];
+                const checked = own ?? DEFAULT_PAY_CATEGORY_FLAGS[key][f];
+                return (
+                  <label key={f} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                    <input type="checkbox" checked={checked} onChange={(e) => void setFlag(key, f, e.target.checked)} />
+                    {own == null ? null : <span style={{ fontSize: 11, opacity: 0.7 }}>changed</span>}
+                  </label>
+                );
+              })}
+              {override ? (
+                <button onClick={() => void reset(key)} style={buttonStyle}>
+                  Reset
+                </button>
+              ) : (
+                <span />
+              )}
+            </div>
+          );
+        })}
+
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 12 }}>
+          Allowances and bonus schemes keep their own &quot;super&quot; setting unless you change that row here.
+        </div>
+      </div>
+
+      <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 14, marginTop: 16 }}>
+        <div style={{ fontWeight: 700, marginBottom: 4 }}>Xero earnings rates</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 10 }}>
+          Ordinary time, overtime, weekend, shift and public holiday lines find their earnings rate by name. Anything
+          else (penalty codes like NIGHT30, allowances, bonuses) is only pushed to Xero once it&apos;s mapped here.
+        </div>
+
+        {mappings.map((m) => (
+          <div key={m.category} style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 14, marginTop: 6 }}>
+            <span style={{ flex: 1, fontWeight: 700 }}>{m.category}</span>
+            <span style={{ flex: 2 }}>
+              {xeroRates.find((r) => r.id === m.earningsRateId)?.name ?? m.earningsRateName ?? m.earningsRateId}
+            </span>
+            <button onClick={() => void removeMapping(m.category)} style={buttonStyle}>
+              Remove
+            </button>
+          </div>
+        ))}
+
+        <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 12 }}>
+          <input
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            placeholder="Pay line category, e.g. NIGHT30"
+            style={{ ...buttonStyle, flex: 1 }}
+          />
+          {xeroRates.length ? (
+            <select
+              value={draft.earningsRateId}
+              onChange={(e) => setDraft({ ...draft, earningsRateId: e.target.value })}
+              style={{ ...buttonStyle, flex: 2 }}
+            >
+              <option value="">Earnings rate…</option>
+              {xeroRates.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                  {r.rateType ? ` (${r.rateType})` : ""}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              value={draft.earningsRateId}
+              onChange={(e) => setDraft({ ...draft, earningsRateId: e.target.value })}
+              placeholder="Xero EarningsRateID (connect Xero to pick from a list)"
+              style={{ ...buttonStyle, flex: 2 }}
+            />
+          )}
+          <button
+            onClick={() => void saveMapping()}
+            disabled={!draft.category.trim() || !draft.earningsRateId.trim()}
+            style={buttonStyle}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {status ? <div style={{ marginTop: 10, fontSize: 13, opacity: 0.85 }}>{status}</div> : null}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { usePayrollData } from "../../PayrollDataProvider";
 import { loadActivePayPeriod } from "../../_lib/payPeriod";
+import type { PayLine, RateBreakdownPart } from "~/payroll_calc/types";
 
 /**
  * ✅ NEW: Employees page reads this key
@@ -57,6 +58,16 @@ function hoursFromLine(l: any): number {
   return Number.isFinite(hours) ? hours : 0;
 }
 
+// Hover text for a line's category: how stacking combined its rates and what it absorbed
+function rateBreakdownText(l: Pick<PayLine, "rateBreakdown">): string | undefined {
+  const b = l.rateBreakdown;
+  if (!b) return undefined;
+  const fmt = (p: RateBreakdownPart) => `${p.code} ${p.multiplier}x (${p.rule})`;
+  const lines = [`Stacking: ${b.mode}`, `Paid: ${b.applied.length ? b.applied.map(fmt).join(", ") : "ordinary"}`];
+  if (b.absorbed.length) lines.push(`Absorbed: ${b.absorbed.map(fmt).join(", ")}`);
+  return lines.join("\n");
+}
+
 function normName(name: string): string {
   return String(name ?? "")
     .trim()
@@ -111,13 +122,15 @@ type EmpAgg = {
   totalCost: number; // worked cost (non-leave)
   leaveHours: number;
   leaveCost: number; // estimated leave cost
+  deductions: number; // taken from pay (positive $), not part of the cost
+  onCost: number; // employer super, costed to jobs but not paid to the employee
   overtimeCost: number;
   overtimeExtraCost: number;
   lines: any[];
 };
 
 export default function PayrunsPage() {
-  const { payLines, summary, lastAppliedAt, hasImported } = usePayrollData();
+  const { payLines, summary, lastAppliedAt, hasImported, finalisePayrun } = usePayrollData();
   const totalHours = n(summary.totalMinutes) / 60;
 
   // which employee row is expanded
@@ -166,6 +179,8 @@ export default function PayrunsPage() {
   const [xeroTenantName, setXeroTenantName] = useState<string>("");
   const [xeroPushBusy, setXeroPushBusy] = useState<boolean>(false);
   const [xeroPushMsg, setXeroPushMsg] = useState<string>("");
+  const [finaliseBusy, setFinaliseBusy] = useState(false);
+  const [finaliseMsg, setFinaliseMsg] = useState("");
 
   // hover state for the Xero button (since inline styles can't do :hover)
   const [xeroBtnHover, setXeroBtnHover] = useState(false);
@@ -310,6 +325,8 @@ export default function PayrunsPage() {
           overtimeExtraCost: 0,
           leaveHours: 0,
           leaveCost: 0,
+          deductions: 0,
+          onCost: 0,
           lines: [],
         } as EmpAgg);
 
@@ -334,7 +351,11 @@ export default function PayrunsPage() {
 
       const isLeaveRow = !!l?.isLeave;
 
-      if (isLeaveRow) {
+      if (l?.isDeduction) {
+        cur.deductions -= cost;
+      } else if (l?.isOnCost) {
+        cur.onCost += cost;
+      } else if (isLeaveRow) {
         const leaveEst =
           Number.isFinite(chosenRate)
             ? hours * (chosenRate as number) * LEAVE_LOADING_MULT
@@ -393,6 +414,10 @@ export default function PayrunsPage() {
     return perEmployee.reduce((acc, e) => acc + n((e as any)?.leaveCost, 0), 0);
   }, [perEmployee]);
 
+  const totalOnCost = useMemo(() => {
+    return perEmployee.reduce((acc, e) => acc + n(e.onCost, 0), 0);
+  }, [perEmployee]);
+
   // ✅ NEW: total payable in this UI = worked + leave
   const totalPayrunPayable = useMemo(() => {
     return n(summary.totalCost, 0) + n(totalLeaveCost, 0);
@@ -564,11 +589,29 @@ export default function PayrunsPage() {
 
       parts.push(`Created ${createdLeave} leave request${createdLeave === 1 ? "" : "s"} in Xero.`);
 
+      const earningsUpdated = Number(payload?.earnings?.updated ?? 0) || 0;
+      const earningsPending = Number(payload?.earnings?.pending ?? 0) || 0;
+      if (earningsUpdated) parts.push(`Set allowance / bonus amounts on ${earningsUpdated} payslip${earningsUpdated === 1 ? "" : "s"}.`);
+      if (earningsPending) {
+        parts.push(
+          `Allowance / bonus amounts pending for ${earningsPending} employee${earningsPending === 1 ? "" : "s"}: draft the pay run in Xero, then push again.`,
+        );
+      }
+
+      const deductionsUpdated = Number(payload?.deductions?.updated ?? 0) || 0;
+      const deductionsPending = Number(payload?.deductions?.pending ?? 0) || 0;
+      if (deductionsUpdated) parts.push(`Set deductions on ${deductionsUpdated} payslip${deductionsUpdated === 1 ? "" : "s"}.`);
+      if (deductionsPending) {
+        parts.push(
+          `Deductions pending for ${deductionsPending} employee${deductionsPending === 1 ? "" : "s"}: draft the pay run in Xero, then push again.`,
+        );
+      }
+
       if (missE.length) parts.push(`Missing employees (not found in Xero): ${missE.join(", ")}`);
 
       if (missC.length) {
         const uniq = Array.from(new Set(missC.map((x: any) => `${x.employeeName}:${x.category}`)));
-        parts.push(`Unmapped categories (no matching Earnings Rate): ${uniq.join(", ")}`);
+        parts.push(`Unmapped categories (map them to an Earnings Rate on Pay categories): ${uniq.join(", ")}`);
       }
 
       const errs = (payload?.errors ?? []) as Array<{ employeeName: string; error: string }>;
@@ -613,6 +656,18 @@ export default function PayrunsPage() {
     }
   }
 
+  // Applying rules is a preview; this is what records RDO / TOIL movements and super for the period
+  async function finaliseSelectedPeriod() {
+    if (!window.confirm("Finalise this payrun? Its RDO / TOIL movements and super are recorded against the period.")) {
+      return;
+    }
+    setFinaliseBusy(true);
+    setFinaliseMsg("");
+    const res = await finalisePayrun();
+    setFinaliseMsg(res.ok ? "Payrun finalised: balances and super ledger updated ✅" : res.error ?? "Failed to finalise");
+    setFinaliseBusy(false);
+  }
+
   const xeroBtnDisabled = !xeroConnected || xeroPushBusy || !anySelected;
 
   const xeroBtnStyle: React.CSSProperties = {
@@ -689,6 +744,14 @@ export default function PayrunsPage() {
           </div>
         </div>
 
+        <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 12, minWidth: 220 }}>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>Super (on-cost)</div>
+          <div style={{ fontSize: 22, fontWeight: 900 }}>{totalOnCost > 0 ? money(totalOnCost) : "—"}</div>
+          <div style={{ fontSize: 12, opacity: 0.65, marginTop: 6 }}>
+            Included in the payrun cost and each job&apos;s cost; not paid through Xero timesheets.
+          </div>
+        </div>
+
         {/* XERO EXPORT CARD */}
         <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 12, minWidth: 320 }}>
           <div style={{ fontSize: 12, opacity: 0.7 }}>Xero export (push)</div>
@@ -774,6 +837,28 @@ export default function PayrunsPage() {
               <div style={{ fontSize: 12, opacity: 0.85, whiteSpace: "pre-wrap" }}>{xeroPushMsg}</div>
             ) : null}
           </div>
+
+          <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+            <button
+              onClick={() => void finaliseSelectedPeriod()}
+              disabled={finaliseBusy || !payLines?.length}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: "1px solid #3a3a3a",
+                background: "#111",
+                color: "#fff",
+                cursor: finaliseBusy || !payLines?.length ? "not-allowed" : "pointer",
+                fontWeight: 800,
+                opacity: finaliseBusy || !payLines?.length ? 0.55 : 1,
+              }}
+              title="Records RDO / TOIL balance movements and super for this pay period"
+            >
+              {finaliseBusy ? "Finalising…" : "Finalise payrun"}
+            </button>
+
+            {finaliseMsg ? <div style={{ fontSize: 12, opacity: 0.85 }}>{finaliseMsg}</div> : null}
+          </div>
         </div>
       </div>
 
@@ -919,12 +1004,18 @@ export default function PayrunsPage() {
                             padding: 10,
                             borderBottom: "1px solid #2a2a2a",
                             fontSize: 12,
-                            background: l?.isLeave ? "rgba(255, 235, 59, 0.14)" : "transparent",
+                            background: l?.isLeave
+                              ? "rgba(255, 235, 59, 0.14)"
+                              : l?.isDeduction
+                                ? "rgba(244, 67, 54, 0.08)"
+                                : l?.isOnCost
+                                  ? "rgba(33, 150, 243, 0.08)"
+                                  : "transparent",
                           }}
                         >
                           <div>{displayDateFromKey(lineDateKey(l))}</div>
                           <div>{l.jobCode ?? "—"}</div>
-                          <div>{l.category ?? "—"}</div>
+                          <div title={rateBreakdownText(l)}>{l.category ?? "—"}</div>
                           <div>{hours.toFixed(2)}</div>
                           <div>{baseRate}</div>
                           <div>{mult}</div>
@@ -940,6 +1031,18 @@ export default function PayrunsPage() {
                     Extra vs ordinary: <b>{money(emp.overtimeExtraCost)}</b>
                     {" · "}
                     Leave (est): <b>{emp.leaveCost > 0 ? money(emp.leaveCost) : "—"}</b>
+                    {emp.deductions > 0 ? (
+                      <>
+                        {" · "}
+                        Deductions: <b>{money(-emp.deductions)}</b>
+                      </>
+                    ) : null}
+                    {emp.onCost > 0 ? (
+                      <>
+                        {" · "}
+                        Super: <b>{money(emp.onCost)}</b>
+                      </>
+                    ) : null}
                     {" · "}
                     Total pay: <b>{money(empTotalPay)}</b>
                   </div>
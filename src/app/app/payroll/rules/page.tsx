@@ -3,7 +3,19 @@
 import { useEffect, useMemo, useState } from "react";
 import { PageHeader } from "../../../_components/PageHeader";
 import { usePayrollData } from "../../PayrollDataProvider";
-import type { CompanyRuleset } from "~/payroll_calc/types";
+import type {
+  AllowanceCondition,
+  AllowanceDefinition,
+  AllowanceUnit,
+  CompanyRuleset,
+  DayType,
+  OvertimeMethod,
+  ShiftClass,
+  StackingMode,
+} from "~/payroll_calc/types";
+import { ALLOWANCE_UNITS, ALLOWANCE_UNIT_LABELS } from "~/payroll_calc/rules/allowances";
+import { DAY_TYPES, DAY_TYPE_LABELS } from "~/payroll_calc/rules/allowancesConditions";
+import { EMPLOYMENT_TYPES, EMPLOYMENT_TYPE_LABELS } from "~/payroll_calc/employment";
 import { useRouter } from "next/navigation";
 
 /**
@@ -26,10 +38,15 @@ type JobRules = {
   // 4) Overtime settings (mapped into CompanyRuleset.overtime)
   overtime: CompanyRuleset["overtime"];
 
-  // 5-8 placeholders (kept here so per-job config is “complete”)
-  allowances?: unknown;
+  // 5) Allowances paid on this job (CompanyRuleset.allowances); replaces the company list when set
+  allowances?: AllowanceDefinition[];
+
+  // 6, 8 placeholders (kept here so per-job config is “complete”)
   reimbursements?: unknown;
-  loading?: unknown;
+  loading?: {
+    shift?: ShiftClass; // every shift on this job is this class (CompanyRuleset.shiftClass); unset = by start time
+    stacking?: StackingMode; // how OT / penalties / loadings combine (CompanyRuleset.stacking); unset = highest
+  };
   leaveAccrual?: unknown;
 
   // bookkeeping
@@ -42,12 +59,84 @@ const LS_SELECTED_JOB = "rules_selected_job_v1";
 // ✅ Overtime multiplier menu options
 const OT_MULTIPLIER_OPTIONS = [1.25, 1.5, 1.75, 2, 2.25, 2.5, 2.75, 3] as const;
 
+// How daily and weekly overtime combine (CompanyRuleset.overtime.method)
+const OT_METHOD_OPTIONS: Array<{ value: OvertimeMethod; label: string }> = [
+  { value: "dailyThenWeekly", label: "Daily, then weekly on the remaining ordinary hours" },
+  { value: "daily", label: "Daily only" },
+  { value: "weekly", label: "Weekly only" },
+  { value: "higherOf", label: "Higher of daily or weekly" },
+];
+
 function toOtCode(multiplier: number) {
   // Examples: 1.25 -> OT1.25, 1.5 -> OT1.5, 2 -> OT2
   const s = String(multiplier);
   return s.includes(".") ? `OT${s}` : `OT${Number(multiplier)}`;
 }
 
+// Shift classification for the job's shift loading ("" = by each shift's start time)
+const SHIFT_CLASS_OPTIONS: Array<{ value: ShiftClass | ""; label: string }> = [
+  { value: "", label: "By shift start time" },
+  { value: "day", label: "Day shift" },
+  { value: "afternoon", label: "Afternoon shift" },
+  { value: "night", label: "Night shift" },
+  { value: "permanentNight", label: "Permanent night shift" },
+];
+
+// How overtime, penalties and loadings on the same hours combine (CompanyRuleset.stacking.mode)
+const STACKING_OPTIONS: Array<{ value: StackingMode; label: string }> = [
+  { value: "highest", label: "Highest rate only" },
+  { value: "otReplacesPenalty", label: "Overtime replaces penalties and loadings" },
+  { value: "additive", label: "Add them (1.25 + 0.5 = 1.75)" },
+  { value: "compounding", label: "Multiply them (1.25 × 1.5 = 1.875)" },
+];
+
+type ConditionKind = AllowanceCondition["kind"];
+type ConditionOf<K extends ConditionKind> = Extract<AllowanceCondition, { kind: K }>;
+
+function newAllowance(): AllowanceDefinition {
+  return {
+    id: `allowance_${Date.now().toString(36)}`,
+    name: "",
+    unit: "day",
+    rate: 0,
+    taxable: true,
+    superLiable: false,
+    conditions: [],
+  };
+}
+
+function conditionOf<K extends ConditionKind>(a: AllowanceDefinition, kind: K): ConditionOf<K> | undefined {
+  return (a.conditions ?? []).find((c): c is ConditionOf<K> => c.kind === kind);
+}
+
+// Replace (or with null, drop) the allowance's condition of that kind
+function withCondition(a: AllowanceDefinition, kind: ConditionKind, next: AllowanceCondition | null) {
+  const rest = (a.conditions ?? []).filter((c) => c.kind !== kind);
+  return next ? [...rest, next] : rest;
+}
+
+// "A, B ,C" -> ["A", "B", "C"]
+function splitList(v: string) {
+  return v
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function toggle<T>(list: T[], value: T, on: boolean) {
+  return on ? Array.from(new Set([...list, value])) : list.filter((x) => x !== value);
+}
+
+// "HH:MM" <-> minutes after midnight (ordinary hours span)
+function minutesToClock(minutes: number) {
+  return `${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)}`;
+}
+
+function clockToMinutes(v: string, fallback: number) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(v.trim());
+  return m ? Number(m[1]) * 60 + Number(m[2]) : fallback;
+}
+
 function safeNumber(v: string, fallback: number) {
   const n = Number(v);
   return Number.isFinite(n) ? n : fallback;
@@ -86,9 +175,9 @@ function defaultJobRules(jobCode: string): JobRules {
         { label: toOtCode(2.0), multiplier: 2.0 },
       ],
     },
-    allowances: undefined,
+    allowances: [],
     reimbursements: undefined,
-    loading: undefined,
+    loading: {},
     leaveAccrual: undefined,
     updatedAtISO: new Date().toISOString(),
   };
@@ -385,6 +474,37 @@ export default function RulesPage() {
     });
   }
 
+  function updateAllowance(idx: number, patch: Partial<AllowanceDefinition>) {
+    setJobRules((r) => {
+      if (!r) return r;
+      const allowances = [...(r.allowances ?? [])];
+      const current = allowances[idx];
+      if (!current) return r;
+      allowances[idx] = { ...current, ...patch };
+      return { ...r, allowances, updatedAtISO: new Date().toISOString() };
+    });
+  }
+
+  function setAllowanceCondition(idx: number, kind: ConditionKind, next: AllowanceCondition | null) {
+    const a = jobRules?.allowances?.[idx];
+    if (a) updateAllowance(idx, { conditions: withCondition(a, kind, next) });
+  }
+
+  function addAllowance() {
+    setJobRules((r) => {
+      if (!r) return r;
+      return { ...r, allowances: [...(r.allowances ?? []), newAllowance()], updatedAtISO: new Date().toISOString() };
+    });
+  }
+
+  function removeAllowance(idx: number) {
+    setJobRules((r) => {
+      if (!r) return r;
+      const allowances = (r.allowances ?? []).filter((_, i) => i !== idx);
+      return { ...r, allowances, updatedAtISO: new Date().toISOString() };
+    });
+  }
+
   async function save(andApply: boolean) {
     if (!jobRules || !selectedJob) return;
 
@@ -406,6 +526,12 @@ export default function RulesPage() {
       setStatus("Each overtime stage needs a multiplier > 0.");
       return;
     }
+    const span = jobRules.overtime.span;
+    if (span && span.startMinute === span.endMinute) {
+      setSaving(false);
+      setStatus("Ordinary hours span needs different start and finish times.");
+      return;
+    }
     if (jobRules.lunch.minutes < 0) {
       setSaving(false);
       setStatus("Lunch minutes must be >= 0.");
@@ -444,7 +570,11 @@ export default function RulesPage() {
         if (!hasImported) {
           setStatus("Saved ✅ (import a CSV to apply)");
         } else {
-          await applyRules();
+          const applied = await applyRules();
+          if (!applied.ok) {
+            setStatus(`Saved ✅ but applying failed: ${applied.error}`);
+            return;
+          }
           setStatus("Saved ✅ and applied ✅ (pay runs updated)");
           router.push("/app/payroll/employee_rules");
         }
@@ -666,6 +796,21 @@ export default function RulesPage() {
               to Xero later (e.g. <b>OT1.5</b>, <b>OT2</b>, <b>OT2.5</b>).
             </div>
 
+            <div style={{ marginBottom: 12 }}>
+              <div style={{ fontSize: 12, opacity: 0.85 }}>How overtime is worked out</div>
+              <select
+                value={jobRules.overtime.method ?? "dailyThenWeekly"}
+                onChange={(e) => updateOvertime({ method: e.target.value as OvertimeMethod })}
+                style={selectStyle}
+              >
+                {OT_METHOD_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div style={{ display: "grid", gap: 10 }}>
               {jobRules.overtime.tiers.map((tier, idx) => (
                 <div
@@ -779,14 +924,314 @@ export default function RulesPage() {
             >
               + Add overtime stage
             </button>
+
+            <div style={{ fontWeight: 800, marginTop: 18, marginBottom: 6 }}>Other overtime triggers</div>
+            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10, lineHeight: 1.35 }}>
+              Time caught by a trigger is overtime regardless of the day&apos;s total, and uses the stages above in
+              order.
+            </div>
+
+            <div style={{ display: "grid", gap: 12 }}>
+              <div>
+                <Switch
+                  checked={!!jobRules.overtime.span}
+                  onChange={(next) =>
+                    updateOvertime({ span: next ? { startMinute: 6 * 60, endMinute: 18 * 60 } : undefined })
+                  }
+                  label="Overtime outside ordinary hours"
+                />
+                {jobRules.overtime.span ? (
+                  <div
+                    style={{
+                      display: "grid",
+                      gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+                      gap: 10,
+                      marginTop: 8,
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontSize: 12, opacity: 0.85 }}>Ordinary hours start</div>
+                      <input
+                        type="time"
+                        value={minutesToClock(jobRules.overtime.span.startMinute)}
+                        onChange={(e) => {
+                          const span = jobRules.overtime.span!;
+                          updateOvertime({ span: { ...span, startMinute: clockToMinutes(e.target.value, span.startMinute) } });
+                        }}
+                        style={inputStyle}
+                      />
+                    </div>
+                    <div>
+                      <div style={{ fontSize: 12, opacity: 0.85 }}>Ordinary hours finish</div>
+                      <input
+                        type="time"
+                        value={minutesToClock(jobRules.overtime.span.endMinute)}
+                        onChange={(e) => {
+                          const span = jobRules.overtime.span!;
+                          updateOvertime({ span: { ...span, endMinute: clockToMinutes(e.target.value, span.endMinute) } });
+                        }}
+                        style={inputStyle}
+                      />
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+
+              <div>
+                <Switch
+                  checked={jobRules.overtime.maxShiftMinutes != null}
+                  onChange={(next) => updateOvertime({ maxShiftMinutes: next ? 10 * 60 : undefined })}
+                  label="Overtime once a shift passes a length"
+                />
+                {jobRules.overtime.maxShiftMinutes != null ? (
+                  <div style={{ marginTop: 8 }}>
+                    <div style={{ fontSize: 12, opacity: 0.85 }}>Shift length (hours)</div>
+                    <input
+                      value={String(jobRules.overtime.maxShiftMinutes / 60)}
+                      onChange={(e) => {
+                        const hours = safeNumber(e.target.value, jobRules.overtime.maxShiftMinutes! / 60);
+                        updateOvertime({ maxShiftMinutes: Math.max(0, Math.round(hours * 60)) });
+                      }}
+                      inputMode="decimal"
+                      style={inputStyle}
+                    />
+                  </div>
+                ) : null}
+              </div>
+
+              <div>
+                <Switch
+                  checked={jobRules.overtime.minRestMinutes != null}
+                  onChange={(next) => updateOvertime({ minRestMinutes: next ? 10 * 60 : undefined })}
+                  label="Overtime inside the rest break after the previous shift"
+                />
+                {jobRules.overtime.minRestMinutes != null ? (
+                  <div style={{ marginTop: 8 }}>
+                    <div style={{ fontSize: 12, opacity: 0.85 }}>Rest break (hours)</div>
+                    <input
+                      value={String(jobRules.overtime.minRestMinutes / 60)}
+                      onChange={(e) => {
+                        const hours = safeNumber(e.target.value, jobRules.overtime.minRestMinutes! / 60);
+                        updateOvertime({ minRestMinutes: Math.max(0, Math.round(hours * 60)) });
+                      }}
+                      inputMode="decimal"
+                      style={inputStyle}
+                    />
+                  </div>
+                ) : null}
+              </div>
+            </div>
           </div>
 
-          {/* 5-8 placeholders */}
           <div style={cardStyle}>
             <div style={{ fontWeight: 800, marginBottom: 10 }}>5) Allowances</div>
-            <div style={{ opacity: 0.85 }}>Placeholder for later (tool, travel, meals, site allowances, etc).</div>
+            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10, lineHeight: 1.35 }}>
+              Paid on top of the hours worked on this job, as a separate line costed to the job. The name must match an
+              earnings rate in Xero. Every condition that is set must hold; leave one blank to ignore it.
+            </div>
+
+            <div style={{ display: "grid", gap: 10 }}>
+              {(jobRules.allowances ?? []).map((a, idx) => {
+                const minHours = conditionOf(a, "minHours");
+                const jobCodes = conditionOf(a, "jobCodes");
+                const sites = conditionOf(a, "sites");
+                const dayTypes = conditionOf(a, "dayTypes")?.dayTypes ?? [];
+                const classification = conditionOf(a, "classification");
+                const employmentTypes = classification?.employmentTypes ?? [];
+
+                const setClassification = (patch: { employmentTypes?: typeof employmentTypes; classifications?: string[] }) => {
+                  const next = { ...classification, kind: "classification" as const, ...patch };
+                  const empty = !next.employmentTypes?.length && !next.classifications?.length;
+                  setAllowanceCondition(idx, "classification", empty ? null : next);
+                };
+
+                return (
+                  <div key={a.id} style={{ border: "1px solid #2a2a2a", borderRadius: 12, padding: 12 }}>
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 10, alignItems: "start" }}>
+                      <div style={{ fontWeight: 900, minWidth: 0 }}>{a.name.trim() || `Allowance ${idx + 1}`}</div>
+                      <button
+                        onClick={() => removeAllowance(idx)}
+                        style={{
+                          padding: "6px 10px",
+                          border: "1px solid #2a2a2a",
+                          borderRadius: 10,
+                          opacity: 0.9,
+                          cursor: "pointer",
+                          height: 34,
+                          whiteSpace: "nowrap",
+                        }}
+                        title="Remove this allowance"
+                      >
+                        Remove
+                      </button>
+                    </div>
+
+                    <div
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+                        gap: 10,
+                        marginTop: 12,
+                      }}
+                    >
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Name (Xero earnings rate)</div>
+                        <input
+                          value={a.name}
+                          onChange={(e) => updateAllowance(idx, { name: e.target.value })}
+                          placeholder="e.g. Site allowance"
+                          style={inputStyle}
+                        />
+                      </div>
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Paid</div>
+                        <select
+                          value={a.unit}
+                          onChange={(e) => updateAllowance(idx, { unit: e.target.value as AllowanceUnit })}
+                          style={selectStyle}
+                        >
+                          {ALLOWANCE_UNITS.map((u) => (
+                            <option key={u} value={u}>
+                              {ALLOWANCE_UNIT_LABELS[u]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Rate ($)</div>
+                        <input
+                          value={String(a.rate)}
+                          onChange={(e) => updateAllowance(idx, { rate: Math.max(0, safeNumber(e.target.value, a.rate)) })}
+                          inputMode="decimal"
+                          style={inputStyle}
+                        />
+                      </div>
+                    </div>
+
+                    <div style={{ display: "flex", gap: 18, flexWrap: "wrap", marginTop: 10 }}>
+                      <Switch
+                        checked={a.taxable}
+                        onChange={(next) => updateAllowance(idx, { taxable: next })}
+                        label="Taxable"
+                      />
+                      <Switch
+                        checked={a.superLiable}
+                        onChange={(next) => updateAllowance(idx, { superLiable: next })}
+                        label="Super liable"
+                      />
+                    </div>
+
+                    <div style={{ fontWeight: 800, marginTop: 14, marginBottom: 6 }}>Conditions</div>
+                    <div
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+                        gap: 10,
+                      }}
+                    >
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Minimum hours worked that day</div>
+                        <input
+                          value={minHours ? String(minHours.hours) : ""}
+                          onChange={(e) => {
+                            const raw = e.target.value.trim();
+                            const hours = safeNumber(raw, minHours?.hours ?? 0);
+                            setAllowanceCondition(idx, "minHours", raw === "" ? null : { kind: "minHours", hours });
+                          }}
+                          inputMode="decimal"
+                          placeholder="any"
+                          style={inputStyle}
+                        />
+                      </div>
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Job codes (comma separated)</div>
+                        <input
+                          key={`${a.id}-jobs-${(jobCodes?.jobCodes ?? []).join(",")}`}
+                          defaultValue={(jobCodes?.jobCodes ?? []).join(", ")}
+                          onBlur={(e) => {
+                            const list = splitList(e.target.value);
+                            setAllowanceCondition(idx, "jobCodes", list.length ? { kind: "jobCodes", jobCodes: list } : null);
+                          }}
+                          placeholder="any"
+                          style={inputStyle}
+                        />
+                      </div>
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Sites (comma separated)</div>
+                        <input
+                          key={`${a.id}-sites-${(sites?.sites ?? []).join(",")}`}
+                          defaultValue={(sites?.sites ?? []).join(", ")}
+                          onBlur={(e) => {
+                            const list = splitList(e.target.value);
+                            setAllowanceCondition(idx, "sites", list.length ? { kind: "sites", sites: list } : null);
+                          }}
+                          placeholder="any"
+                          style={inputStyle}
+                        />
+                      </div>
+                      <div>
+                        <div style={{ fontSize: 12, opacity: 0.85 }}>Trade classifications (comma separated)</div>
+                        <input
+                          key={`${a.id}-classes-${(classification?.classifications ?? []).join(",")}`}
+                          defaultValue={(classification?.classifications ?? []).join(", ")}
+                          onBlur={(e) => setClassification({ classifications: splitList(e.target.value) })}
+                          placeholder="any"
+                          style={inputStyle}
+                        />
+                      </div>
+                    </div>
+
+                    <div style={{ fontSize: 12, opacity: 0.85, marginTop: 10 }}>Days (none ticked = any day)</div>
+                    <div style={{ display: "flex", gap: 14, flexWrap: "wrap", marginTop: 4 }}>
+                      {DAY_TYPES.map((d) => (
+                        <label key={d} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                          <input
+                            type="checkbox"
+                            checked={dayTypes.includes(d)}
+                            onChange={(e) => {
+                              const next: DayType[] = toggle(dayTypes, d, e.target.checked);
+                              setAllowanceCondition(idx, "dayTypes", next.length ? { kind: "dayTypes", dayTypes: next } : null);
+                            }}
+                          />
+                          {DAY_TYPE_LABELS[d]}
+                        </label>
+                      ))}
+                    </div>
+
+                    <div style={{ fontSize: 12, opacity: 0.85, marginTop: 10 }}>Employment types (none ticked = everyone)</div>
+                    <div style={{ display: "flex", gap: 14, flexWrap: "wrap", marginTop: 4 }}>
+                      {EMPLOYMENT_TYPES.map((type) => (
+                        <label key={type} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                          <input
+                            type="checkbox"
+                            checked={employmentTypes.includes(type)}
+                            onChange={(e) => setClassification({ employmentTypes: toggle(employmentTypes, type, e.target.checked) })}
+                          />
+                          {EMPLOYMENT_TYPE_LABELS[type]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={addAllowance}
+              style={{
+                marginTop: 12,
+                padding: "8px 10px",
+                border: "1px solid #2a2a2a",
+                borderRadius: 10,
+                cursor: "pointer",
+                whiteSpace: "nowrap",
+              }}
+            >
+              + Add allowance
+            </button>
           </div>
 
+          {/* 6, 8 placeholders */}
           <div style={cardStyle}>
             <div style={{ fontWeight: 800, marginBottom: 10 }}>6) Reimbursements</div>
             <div style={{ opacity: 0.85 }}>Placeholder for later (expenses reimbursed to employees).</div>
@@ -794,7 +1239,37 @@ export default function RulesPage() {
 
           <div style={cardStyle}>
             <div style={{ fontWeight: 800, marginBottom: 10 }}>7) Loading</div>
-            <div style={{ opacity: 0.85 }}>Placeholder for later (shift loadings, leave loading, etc).</div>
+            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 10, lineHeight: 1.35 }}>
+              Shift loadings apply to the <b>whole shift</b>. By default each shift is classed by its start time; set a
+              class here when everyone on this job works that shift (an employee&apos;s own class still wins).
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.85 }}>Shift classification</div>
+            <select
+              value={jobRules.loading?.shift ?? ""}
+              onChange={(e) =>
+                updateCurrent({ loading: { ...jobRules.loading, shift: (e.target.value || undefined) as ShiftClass | undefined } })
+              }
+              style={selectStyle}
+            >
+              {SHIFT_CLASS_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+
+            <div style={{ fontSize: 12, opacity: 0.85, marginTop: 10 }}>When rates overlap on the same hours</div>
+            <select
+              value={jobRules.loading?.stacking ?? "highest"}
+              onChange={(e) => updateCurrent({ loading: { ...jobRules.loading, stacking: e.target.value as StackingMode } })}
+              style={selectStyle}
+            >
+              {STACKING_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
           </div>
 
           <div style={cardStyle}>
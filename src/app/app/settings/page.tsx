@@ -1,6 +1,27 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { PageHeader } from "../../_components/PageHeader";
+import { AU_STATES } from "~/payroll_calc/holidaysAU";
+
+type HolidayRow = { date: string; name: string };
+type OverrideRow = {
+  id: string;
+  date: string;
+  name: string;
+  state: string | null;
+  kind: "extra" | "substitute";
+  replacesDate: string | null;
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #2a2a2a",
+  marginTop: 6,
+  boxSizing: "border-box",
+};
 
 function resetAllPayrollData() {
   const ok = window.confirm(
@@ -25,6 +46,74 @@ function resetAllPayrollData() {
 }
 
 export default function SettingsPage() {
+  const year = new Date().getFullYear();
+
+  const [companyState, setCompanyState] = useState("NSW");
+  const [holidays, setHolidays] = useState<HolidayRow[]>([]);
+  const [overrides, setOverrides] = useState<OverrideRow[]>([]);
+  const [status, setStatus] = useState("");
+
+  const [draft, setDraft] = useState({ date: "", name: "", kind: "extra", replacesDate: "", allStates: false });
+
+  async function loadHolidays() {
+    try {
+      const res = await fetch(`/api/payroll/public-holidays?year=${year}`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Failed to load public holidays");
+      setCompanyState(String(j.state ?? "NSW"));
+      setHolidays(Array.isArray(j.holidays) ? j.holidays : []);
+      setOverrides(Array.isArray(j.overrides) ? j.overrides : []);
+    } catch (e: any) {
+      setStatus(e?.message ?? "Failed to load public holidays");
+    }
+  }
+
+  useEffect(() => {
+    void loadHolidays();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function saveState(next: string) {
+    setCompanyState(next);
+    const res = await fetch("/api/payroll/settings", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ state: next }),
+    });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? `State saved (${next}) ✅` : j?.error ?? "Failed to save state");
+    await loadHolidays();
+  }
+
+  async function addHoliday() {
+    const res = await fetch("/api/payroll/public-holidays", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        date: draft.date,
+        name: draft.name,
+        kind: draft.kind,
+        replacesDate: draft.kind === "substitute" ? draft.replacesDate : undefined,
+        state: draft.allStates ? undefined : companyState,
+      }),
+    });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) {
+      setStatus(j?.error ?? "Failed to add holiday");
+      return;
+    }
+    setDraft({ date: "", name: "", kind: "extra", replacesDate: "", allStates: false });
+    setStatus("Holiday added ✅ (re-apply rules to update pay runs)");
+    await loadHolidays();
+  }
+
+  async function removeHoliday(id: string) {
+    const res = await fetch(`/api/payroll/public-holidays?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Holiday removed ✅" : j?.error ?? "Failed to remove holiday");
+    await loadHolidays();
+  }
+
   return (
     <div>
       <PageHeader
@@ -101,7 +190,114 @@ export default function SettingsPage() {
             <option>Fortnightly</option>
             <option>Monthly</option>
           </select>
+          <label style={{ display: "block", marginTop: 10 }}>State (public holidays)</label>
+          <select value={companyState} onChange={(e) => void saveState(e.target.value)} style={fieldStyle}>
+            {AU_STATES.map((st) => (
+              <option key={st} value={st}>
+                {st}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Public holidays */}
+      <div style={{ marginTop: 16, border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 4 }}>
+          Public holidays {year} ({companyState})
+        </div>
+        <div style={{ fontSize: 13, opacity: 0.75, marginBottom: 12 }}>
+          National and {companyState} holidays are built in. Add regional or one-off days, or move a holiday to a
+          substitute day.
         </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+          <div style={{ display: "grid", gap: 4, fontSize: 14 }}>
+            {holidays.map((h) => (
+              <div key={h.date} style={{ display: "flex", gap: 10 }}>
+                <span style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace" }}>
+                  {h.date}
+                </span>
+                <span>{h.name}</span>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div style={{ fontWeight: 600, marginBottom: 6 }}>Admin days</div>
+            {overrides.length === 0 ? (
+              <div style={{ fontSize: 13, opacity: 0.7 }}>None yet.</div>
+            ) : (
+              overrides.map((o) => (
+                <div key={o.id} style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 14, marginBottom: 6 }}>
+                  <span>
+                    {o.date} — {o.name} ({o.state ?? "all states"})
+                    {o.kind === "substitute" ? ` · replaces ${o.replacesDate}` : ""}
+                  </span>
+                  <button
+                    onClick={() => void removeHoliday(o.id)}
+                    style={{ padding: "4px 8px", border: "1px solid #2a2a2a", borderRadius: 8 }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))
+            )}
+
+            <div style={{ display: "grid", gap: 6, marginTop: 12 }}>
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value })}
+                style={fieldStyle}
+              >
+                <option value="extra">Extra day</option>
+                <option value="substitute">Substitute day</option>
+              </select>
+              <input
+                type="date"
+                value={draft.date}
+                onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                style={fieldStyle}
+              />
+              {draft.kind === "substitute" ? (
+                <select
+                  value={draft.replacesDate}
+                  onChange={(e) => setDraft({ ...draft, replacesDate: e.target.value })}
+                  style={fieldStyle}
+                >
+                  <option value="">Holiday it replaces…</option>
+                  {holidays.map((h) => (
+                    <option key={h.date} value={h.date}>
+                      {h.date} {h.name}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              <input
+                placeholder="Name (e.g. Royal Queensland Show)"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                style={fieldStyle}
+              />
+              <label style={{ fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={draft.allStates}
+                  onChange={(e) => setDraft({ ...draft, allStates: e.target.checked })}
+                />{" "}
+                Applies to every state
+              </label>
+              <button
+                onClick={() => void addHoliday()}
+                style={{ padding: "8px 10px", border: "1px solid #2a2a2a", borderRadius: 10 }}
+              >
+                + Add holiday
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {status ? <div style={{ marginTop: 10, fontSize: 13, opacity: 0.85 }}>{status}</div> : null}
       </div>
 
       {/* Danger zone */}
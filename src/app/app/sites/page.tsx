@@ -1,9 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PageHeader } from "../../_components/PageHeader";
+
+type SiteRow = {
+  id: string;
+  kind: "SITE" | "DEPOT";
+  code: string;
+  name: string | null;
+  lat: number;
+  lng: number;
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #2a2a2a",
+  boxSizing: "border-box",
+};
+
+const mono: React.CSSProperties = { fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace" };
+
+const emptyDraft = { kind: "SITE", code: "", name: "", lat: "", lng: "" };
+
 export default function SitesPage() {
+  const [rows, setRows] = useState<SiteRow[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [status, setStatus] = useState("");
+
+  async function loadSites() {
+    try {
+      const res = await fetch("/api/payroll/sites", { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Failed to load sites");
+      setRows(Array.isArray(j.sites) ? j.sites : []);
+    } catch (e: any) {
+      setStatus(e?.message ?? "Failed to load sites");
+    }
+  }
+
+  useEffect(() => {
+    void loadSites();
+  }, []);
+
+  async function saveSite() {
+    const res = await fetch("/api/payroll/sites", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) {
+      setStatus(j?.error ?? "Failed to save");
+      return;
+    }
+    setDraft(emptyDraft);
+    setStatus(`${draft.kind === "DEPOT" ? "Depot" : "Site"} saved ✅ (re-apply rules to update pay runs)`);
+    await loadSites();
+  }
+
+  async function removeSite(id: string) {
+    const res = await fetch(`/api/payroll/sites?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    const j = await res.json().catch(() => null);
+    setStatus(res.ok && j?.ok ? "Removed ✅" : j?.error ?? "Failed to remove");
+    await loadSites();
+  }
+
+  const section = (kind: SiteRow["kind"], title: string, empty: string) => {
+    const list = rows.filter((r) => r.kind === kind);
+    return (
+      <div style={{ border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 10 }}>{title}</div>
+        {list.length === 0 ? (
+          <div style={{ fontSize: 13, opacity: 0.7 }}>{empty}</div>
+        ) : (
+          list.map((r) => (
+            <div key={r.id} style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 14, marginBottom: 6 }}>
+              <b style={mono}>{r.code}</b>
+              <span style={{ flex: 1, opacity: 0.85 }}>{r.name ?? ""}</span>
+              <span style={{ ...mono, opacity: 0.75 }}>
+                {r.lat.toFixed(5)}, {r.lng.toFixed(5)}
+              </span>
+              <button
+                onClick={() => setDraft({ kind: r.kind, code: r.code, name: r.name ?? "", lat: String(r.lat), lng: String(r.lng) })}
+                style={{ padding: "4px 8px", border: "1px solid #2a2a2a", borderRadius: 8 }}
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => void removeSite(r.id)}
+                style={{ padding: "4px 8px", border: "1px solid #2a2a2a", borderRadius: 8 }}
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    );
+  };
+
   return (
-    <div style={{ display: "grid", gap: 12 }}>
-      <h1 style={{ fontSize: 22, fontWeight: 900, margin: 0 }}>Sites</h1>
-      <div style={{ border: "1px solid #2a2a2a", borderRadius: 12, padding: 16, fontSize: 13, opacity: 0.85 }}>
-        Placeholder page. Next step: back this with Postgres via Prisma models (sites table) and wire UI.
+    <div>
+      <PageHeader
+        title="Sites"
+        subtitle="Where jobs are and where crews leave from. Travel allowances use the straight-line distance between them."
+      />
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        {section("SITE", "Job sites", "No sites yet. Add one per job code that pays travel.")}
+        {section("DEPOT", "Depots", "No depots yet. Employees pick their home depot on the Employees page.")}
+      </div>
+
+      <div style={{ marginTop: 16, border: "1px solid #2a2a2a", borderRadius: 14, padding: 14 }}>
+        <div style={{ fontWeight: 700, marginBottom: 10 }}>Add or update</div>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 10 }}>
+          <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value })} style={fieldStyle}>
+            <option value="SITE">Job site</option>
+            <option value="DEPOT">Depot</option>
+          </select>
+          <input
+            placeholder={draft.kind === "DEPOT" ? "Depot code (e.g. NEWCASTLE)" : "Job code"}
+            value={draft.code}
+            onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Name (optional)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Latitude (e.g. -32.9283)"
+            value={draft.lat}
+            onChange={(e) => setDraft({ ...draft, lat: e.target.value })}
+            inputMode="decimal"
+            style={fieldStyle}
+          />
+          <input
+            placeholder="Longitude (e.g. 151.7817)"
+            value={draft.lng}
+            onChange={(e) => setDraft({ ...draft, lng: e.target.value })}
+            inputMode="decimal"
+            style={fieldStyle}
+          />
+          <button
+            onClick={() => void saveSite()}
+            style={{ padding: "8px 10px", border: "1px solid #2a2a2a", borderRadius: 10 }}
+          >
+            Save
+          </button>
+        </div>
+
+        {status ? <div style={{ marginTop: 10, fontSize: 13, opacity: 0.85 }}>{status}</div> : null}
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+// src/payroll_calc/__tests__/allowances.test.ts
+import { describe, expect, it } from "vitest";
+import type { AllowanceDefinition } from "../types";
+import { linesIn, run, ruleset, shift } from "./fixtures";
+
+function allowance(overrides: Partial<AllowanceDefinition>): AllowanceDefinition {
+  return { id: "A1", name: "Site allowance", unit: "day", rate: 10, taxable: true, superLiable: false, ...overrides };
+}
+
+describe("allowances", () => {
+  it("pays a per-hour allowance over the qualifying minutes", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ allowances: [allowance({ unit: "hour", rate: 2.5 })] }),
+      entries: [shift("2026-06-02", "07:00", "15:00")],
+    });
+
+    const [line] = linesIn(payLines, "Site allowance");
+    expect(line?.units).toBe(8);
+    expect(line?.cost).toBe(20);
+  });
+
+  it("pays a per-day allowance once however many shifts", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ allowances: [allowance({})] }),
+      entries: [shift("2026-06-02", "07:00", "10:00"), shift("2026-06-02", "13:00", "16:00", { jobCode: "J2" })],
+    });
+
+    expect(linesIn(payLines, "Site allowance").map((l) => l.units)).toEqual([1]);
+  });
+
+  it("pays per km from the entry", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ allowances: [allowance({ name: "Vehicle", unit: "km", rate: 0.88 })] }),
+      entries: [shift("2026-06-02", "07:00", "15:00", { km: 50 })],
+    });
+
+    expect(linesIn(payLines, "Vehicle")[0]?.cost).toBe(44);
+  });
+
+  it("only pays when every condition holds", () => {
+    const conditions: AllowanceDefinition["conditions"] = [
+      { kind: "minHours", hours: 6 },
+      { kind: "jobCodes", jobCodes: ["J1"] },
+      { kind: "dayTypes", dayTypes: ["weekday"] },
+    ];
+    const { payLines } = run({
+      ruleset: ruleset({ allowances: [allowance({ conditions })] }),
+      entries: [
+        shift("2026-06-02", "07:00", "15:00"), // qualifies
+        shift("2026-06-03", "07:00", "11:00"), // under 6h
+        shift("2026-06-04", "07:00", "15:00", { jobCode: "J2" }), // other job
+        shift("2026-06-06", "07:00", "15:00"), // Saturday
+      ],
+    });
+
+    expect(linesIn(payLines, "Site allowance").map((l) => l.date)).toEqual(["2026-06-02"]);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { employee, linesIn, run, ruleset, shift } from "./fixtures";
+
+const rules = ruleset({ toolAllowance: { weekly: { Electrician: 50 }, daysPerWeek: 5 } });
+const sparky = employee({ classification: "electrician" });
+
+describe("toolAllowanceRule", () => {
+  it("pays the weekly amount pro-rata to days worked", () => {
+    const result = run({
+      ruleset: rules,
+      employees: [sparky],
+      entries: ["2026-06-01", "2026-06-02", "2026-06-03"].map((d) => shift(d, "07:00", "15:00")),
+    });
+    const [line] = linesIn(result.payLines, "Tool allowance");
+
+    expect(line?.units).toBe(3);
+    expect(line?.cost).toBe(30);
+  });
+
+  it("counts an overnight shift as one day", () => {
+    const result = run({ ruleset: rules, employees: [sparky], entries: [shift("2026-06-01", "20:00", "04:00")] });
+
+    expect(linesIn(result.payLines, "Tool allowance")[0]?.units).toBe(1);
+  });
+
+  it("pays nothing to a trade without a weekly amount", () => {
+    const result = run({ ruleset: rules, entries: [shift("2026-06-01", "07:00", "15:00")] });
+
+    expect(linesIn(result.payLines, "Tool allowance")).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+// src/payroll_calc/__tests__/allowancesTravel.test.ts
+import { describe, expect, it } from "vitest";
+import { FARES_CATEGORY, TRAVEL_TIME_CATEGORY, VEHICLE_ALLOWANCE_CATEGORY, haversineKm } from "../rules/allowancesTravel";
+import { employee, linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const depot = { lat: -33.8688, lng: 151.2093 };
+// Due north of the depot: 1 degree of latitude is ~111.2km
+const north = (km: number) => ({ lat: depot.lat + km / 111.195, lng: depot.lng });
+
+const travel = ruleset({
+  travel: {
+    perKm: 0.5,
+    zones: [
+      { fromKm: 0, toKm: 20, fare: 5 },
+      { fromKm: 20, toKm: 50, label: "Zone 2", fare: 10, travelMinutes: 30 },
+    ],
+  },
+});
+const geo = { depots: { NORTH: depot }, sites: { J1: north(30), J2: north(10) } };
+const fromDepot = employee({ homeDepot: "NORTH" });
+
+describe("allowancesTravel", () => {
+  it("measures straight-line distance", () => {
+    expect(haversineKm(depot, north(30))).toBeCloseTo(30, 1);
+  });
+
+  it("pays vehicle, fare and travel time for the farthest site worked that day", () => {
+    const { payLines } = run({
+      ruleset: travel,
+      ...geo,
+      employees: [fromDepot],
+      entries: [shift("2026-06-02", "07:00", "11:00", { jobCode: "J2" }), shift("2026-06-02", "12:00", "16:00")],
+    });
+
+    const [vehicle] = linesIn(payLines, VEHICLE_ALLOWANCE_CATEGORY);
+    expect(vehicle?.jobCode).toBe("J1");
+    expect(vehicle?.units).toBeCloseTo(60, 0);
+    expect(linesIn(payLines, FARES_CATEGORY)[0]?.cost).toBe(10);
+    expect(minutesByCategory(payLines)[TRAVEL_TIME_CATEGORY]).toBe(30);
+  });
+
+  it("pays travel time as an allowance line when configured", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ travel: { ...travel.travel, travelTimePaidAs: "allowance", travelTimeRate: 30 } }),
+      ...geo,
+      employees: [fromDepot],
+      entries: [shift("2026-06-02", "07:00", "15:00")],
+    });
+
+    expect(linesIn(payLines, TRAVEL_TIME_CATEGORY)[0]?.cost).toBe(15);
+  });
+
+  it("pays no travel without a home depot", () => {
+    const { payLines } = run({ ruleset: travel, ...geo, entries: [shift("2026-06-02", "07:00", "15:00")] });
+
+    expect(linesIn(payLines, VEHICLE_ALLOWANCE_CATEGORY)).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+// src/payroll_calc/__tests__/brokenShift.test.ts
+import { describe, expect, it } from "vitest";
+import { BROKEN_SHIFT_CATEGORY } from "../rules/brokenShift";
+import { linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const broken = ruleset({ brokenShift: { minGapMinutes: 120, allowance: 20, maxSpreadMinutes: 720 } });
+
+describe("brokenShift", () => {
+  it("pays one allowance for a day split by a long unpaid gap", () => {
+    const { payLines } = run({
+      ruleset: broken,
+      entries: [shift("2026-06-02", "06:00", "10:00"), shift("2026-06-02", "14:00", "17:00")],
+    });
+
+    const lines = linesIn(payLines, BROKEN_SHIFT_CATEGORY);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.cost).toBe(20);
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 420 });
+  });
+
+  it("pays work past the spread at the last overtime tier", () => {
+    const { payLines } = run({
+      ruleset: broken,
+      entries: [shift("2026-06-02", "06:00", "10:00"), shift("2026-06-02", "15:00", "19:00")],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 420, "OT2.0": 60 });
+  });
+
+  it("ignores a gap no longer than the minimum", () => {
+    const { payLines } = run({
+      ruleset: broken,
+      entries: [shift("2026-06-02", "06:00", "10:00"), shift("2026-06-02", "11:30", "15:00")],
+    });
+
+    expect(linesIn(payLines, BROKEN_SHIFT_CATEGORY)).toEqual([]);
+  });
+});
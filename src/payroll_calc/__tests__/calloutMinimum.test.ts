@@ -0,0 +1,60 @@
+// src/payroll_calc/__tests__/calloutMinimum.test.ts
+import { describe, expect, it } from "vitest";
+import { linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const callout = { minutes: 240, multiplier: 1.5, label: "Call-out" };
+
+describe("calloutMinimum", () => {
+  it("tops a short call-out up to the minimum", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ callout }),
+      entries: [shift("2026-06-02", "22:00", "23:00", { isCallout: true })],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ "Call-out": 240 });
+    expect(linesIn(payLines, "Call-out").find((l) => l.meta?.topUp)?.minutes).toBe(180);
+  });
+
+  it('reads the CSV string "false" as not a call-out', () => {
+    const { payLines } = run({
+      ruleset: ruleset({ callout }),
+      entries: [shift("2026-06-02", "22:00", "23:00", { isCallout: "false" })],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 60 });
+  });
+
+  it('reads the CSV string "true" as a call-out', () => {
+    const { payLines } = run({
+      ruleset: ruleset({ callout }),
+      entries: [shift("2026-06-02", "22:00", "23:00", { isCallout: "true" })],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ "Call-out": 240 });
+  });
+
+  it("keeps a call-out straight after a shift as its own engagement", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ callout }),
+      entries: [
+        shift("2026-06-02", "07:00", "15:00"),
+        shift("2026-06-02", "15:30", "16:30", { isCallout: true }),
+      ],
+    });
+
+    // top-up counts the call-out's 60 min only, not the 8h shift before it
+    expect(linesIn(payLines, "Call-out").find((l) => l.meta?.topUp)?.minutes).toBe(180);
+  });
+
+  it("doesn't count call-out minutes towards the ordinary day", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ callout }),
+      entries: [
+        shift("2026-06-02", "07:00", "15:00"),
+        shift("2026-06-02", "20:00", "22:00", { isCallout: true }),
+      ],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 480, "Call-out": 240 });
+  });
+});
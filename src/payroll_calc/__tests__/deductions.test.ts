@@ -0,0 +1,53 @@
+// src/payroll_calc/__tests__/deductions.test.ts
+import { describe, expect, it } from "vitest";
+import type { DeductionSchedule } from "../types";
+import { run, shift } from "./fixtures";
+
+const period = { startISO: "2026-06-01", endISO: "2026-06-07" };
+const day = [shift("2026-06-02", "07:00", "15:00")]; // $320 gross
+
+function deduction(overrides: Partial<DeductionSchedule>): DeductionSchedule {
+  return { employeeId: "E1", name: "Union fees", kind: "union", amountType: "fixed", amount: 20, preTax: false, ...overrides };
+}
+
+const taken = (payLines: { isDeduction?: boolean; category: string; cost?: number }[]) =>
+  Object.fromEntries(payLines.filter((l) => l.isDeduction).map((l) => [l.category, l.cost]));
+
+describe("deductions", () => {
+  it("takes fixed and capped percentage deductions as negative lines", () => {
+    const { payLines } = run({
+      period,
+      deductions: [
+        deduction({}),
+        deduction({ name: "Super sacrifice", kind: "salarySacrifice", amountType: "percent", amount: 10, cap: 25, preTax: true }),
+      ],
+      entries: day,
+    });
+
+    expect(taken(payLines)).toEqual({ "Union fees": -20, "Super sacrifice": -25 });
+  });
+
+  it("takes pre-tax first and never takes pay below zero", () => {
+    const { payLines, trace } = run({
+      period,
+      deductions: [
+        deduction({ name: "Tools", kind: "repayment", amount: 500 }),
+        deduction({ name: "Super sacrifice", kind: "salarySacrifice", amount: 100, preTax: true }),
+      ],
+      entries: day,
+    });
+
+    expect(taken(payLines)).toEqual({ "Super sacrifice": -100, Tools: -220 });
+    expect(trace.flatMap((t) => t.messages).some((m) => m.includes("Tools cut to $220.00"))).toBe(true);
+  });
+
+  it("skips schedules outside the period", () => {
+    const { payLines } = run({
+      period,
+      deductions: [deduction({ endDate: "2026-05-31" }), deduction({ name: "Later", startDate: "2026-06-08" })],
+      entries: day,
+    });
+
+    expect(taken(payLines)).toEqual({});
+  });
+});
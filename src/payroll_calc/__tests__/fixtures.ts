@@ -0,0 +1,69 @@
+// src/payroll_calc/__tests__/fixtures.ts
+import { runPayroll } from "../engine";
+import type { CompanyRuleset, EmployeeProfile, EngineInput, EngineResult, PayLine, TimeEntry } from "../types";
+
+export const TZ = "Australia/Sydney";
+
+/** 8h day, 38h week, OT1.5 for two hours then OT2.0: the usual award shape. */
+export function ruleset(overrides: Partial<CompanyRuleset> = {}): CompanyRuleset {
+  return {
+    overtime: {
+      ordinaryMinutesPerDay: 480,
+      weekly: { enabled: false },
+      tiers: [
+        { firstMinutes: 120, multiplier: 1.5, label: "OT1.5" },
+        { multiplier: 2, label: "OT2.0" },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+export function employee(overrides: Partial<EmployeeProfile> = {}): EmployeeProfile {
+  return { id: "E1", name: "Alex Worker", baseRate: 40, ...overrides };
+}
+
+let nextId = 0;
+
+/** A shift on `date` from `start` to `end` (HH:MM, local Sydney); an end before the start runs into the next day. */
+export function shift(date: string, start: string, end: string, extra: Partial<TimeEntry> = {}): TimeEntry {
+  const endDate = end <= start ? nextDate(date) : date;
+  return {
+    id: `entry-${++nextId}`,
+    employeeId: "E1",
+    employeeName: "Alex Worker",
+    jobCode: "J1",
+    startISO: zoned(date, start),
+    endISO: zoned(endDate, end),
+    unpaidBreakMinutes: 0,
+    timezone: TZ,
+    ...extra,
+  };
+}
+
+function nextDate(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + 86_400_000).toISOString().slice(0, 10);
+}
+
+// Sydney is UTC+10 outside daylight saving (April - October); tests stay inside that window
+function zoned(date: string, time: string): string {
+  return `${date}T${time}:00+10:00`;
+}
+
+export function run(input: Partial<EngineInput> & Pick<EngineInput, "entries">): EngineResult {
+  return runPayroll({ ruleset: ruleset(), employees: [employee()], ...input });
+}
+
+/** Minutes paid per line category, e.g. { ordinary: 480, "OT1.5": 60 }. Flat-rate lines are left out. */
+export function minutesByCategory(lines: PayLine[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const l of lines) {
+    if (l.units !== undefined || l.isOnCost || l.isDeduction) continue;
+    out[l.category] = (out[l.category] ?? 0) + l.minutes;
+  }
+  return out;
+}
+
+export function linesIn(lines: PayLine[], category: string): PayLine[] {
+  return lines.filter((l) => l.category === category);
+}
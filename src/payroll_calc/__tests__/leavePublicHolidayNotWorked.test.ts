@@ -0,0 +1,50 @@
+// src/payroll_calc/__tests__/leavePublicHolidayNotWorked.test.ts
+import { describe, expect, it } from "vitest";
+import { PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY } from "../rules/leavePublicHolidayNotWorked";
+import { employee, linesIn, run, shift } from "./fixtures";
+
+// King's Birthday (NSW) is Monday 8 June 2026
+const nsw = { publicHolidays: { state: "NSW" as const }, period: { startISO: "2026-06-08", endISO: "2026-06-14" } };
+
+describe("leavePublicHolidayNotWorked", () => {
+  it("pays a permanent employee their ordinary day for a holiday they didn't work", () => {
+    const { payLines } = run({ ...nsw, entries: [shift("2026-06-09", "07:00", "15:00")] });
+
+    const [line] = linesIn(payLines, PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY);
+    expect(line?.date).toBe("2026-06-08");
+    expect(line?.minutes).toBe(456); // 38h over 5 days
+    expect(line?.isLeave).toBe(true);
+  });
+
+  it("pays nothing when the holiday isn't one of their usual days", () => {
+    const { payLines } = run({
+      ...nsw,
+      employees: [employee({ workDays: [2, 3, 4, 5] })],
+      entries: [shift("2026-06-09", "07:00", "15:00")],
+    });
+
+    expect(linesIn(payLines, PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY)).toEqual([]);
+  });
+
+  it("splits the week over their own usual days", () => {
+    const { payLines } = run({
+      ...nsw,
+      employees: [employee({ workDays: [1, 2, 3, 4] })],
+      entries: [shift("2026-06-09", "07:00", "15:00")],
+    });
+
+    expect(linesIn(payLines, PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY)[0]?.minutes).toBe(570);
+  });
+
+  it("skips casuals and anyone who worked the holiday", () => {
+    const casual = run({
+      ...nsw,
+      employees: [employee({ employmentType: "casual" })],
+      entries: [shift("2026-06-09", "07:00", "15:00")],
+    });
+    const worked = run({ ...nsw, entries: [shift("2026-06-08", "07:00", "15:00")] });
+
+    expect(linesIn(casual.payLines, PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY)).toEqual([]);
+    expect(linesIn(worked.payLines, PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY)).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+// src/payroll_calc/__tests__/loadingsCasual.test.ts
+import { describe, expect, it } from "vitest";
+import { CASUAL_LOADING_CATEGORY } from "../rules/loadingsCasual";
+import { employee, linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const casual = employee({ employmentType: "casual" });
+
+describe("loadingsCasual", () => {
+  it("pays the loading as a separate line over every hour worked", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ casualLoading: { percent: 25, mode: "separate" } }),
+      employees: [casual],
+      entries: [shift("2026-06-02", "07:00", "17:00")],
+    });
+
+    const [loading] = linesIn(payLines, CASUAL_LOADING_CATEGORY);
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 480, "OT1.5": 120 });
+    expect(loading?.units).toBe(10);
+    expect(loading?.cost).toBe(100);
+  });
+
+  it("compounds the loading into each rate", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ casualLoading: { percent: 25, mode: "compound" } }),
+      employees: [casual],
+      entries: [shift("2026-06-02", "07:00", "17:00")],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ CAS25: 480, "OT1.5+CAS25": 120 });
+    expect(linesIn(payLines, "OT1.5+CAS25")[0]?.multiplier).toBe(1.875);
+  });
+
+  it("leaves permanent staff alone", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ casualLoading: { percent: 25, mode: "separate" } }),
+      entries: [shift("2026-06-02", "07:00", "15:00")],
+    });
+
+    expect(linesIn(payLines, CASUAL_LOADING_CATEGORY)).toEqual([]);
+  });
+});
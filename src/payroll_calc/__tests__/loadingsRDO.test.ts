@@ -0,0 +1,51 @@
+// src/payroll_calc/__tests__/loadingsRDO.test.ts
+import { describe, expect, it } from "vitest";
+import { RDO_TAKEN_CATEGORY } from "../rules/loadingsRDO";
+import { employee, linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const rdo = ruleset({ rdo: { accrualMinutesPerDay: 24 } });
+const rdoMinutes = (movements: { kind: string; minutes: number }[]) =>
+  movements.filter((m) => m.kind === "rdo").reduce((sum, m) => sum + m.minutes, 0);
+
+describe("loadingsRDO", () => {
+  it("accrues on ordinary minutes only, pro-rata to a full day", () => {
+    const full = run({ ruleset: rdo, entries: [shift("2026-06-02", "07:00", "17:00")] });
+    const half = run({ ruleset: rdo, entries: [shift("2026-06-02", "07:00", "11:00")] });
+
+    expect(rdoMinutes(full.movements)).toBe(24);
+    expect(rdoMinutes(half.movements)).toBe(12);
+  });
+
+  it("doesn't accrue for casuals", () => {
+    const { movements } = run({
+      ruleset: rdo,
+      employees: [employee({ employmentType: "casual" })],
+      entries: [shift("2026-06-02", "07:00", "15:00")],
+    });
+
+    expect(movements).toEqual([]);
+  });
+
+  it("pays an RDO as ordinary time off, not work, and draws down the balance", () => {
+    const { payLines, movements } = run({
+      ruleset: rdo,
+      balances: { E1: { rdo: 480, toil: 0 } },
+      entries: [shift("2026-06-05", "07:00", "15:00", { jobCode: "RDO" })],
+    });
+
+    const [taken] = linesIn(payLines, RDO_TAKEN_CATEGORY);
+    expect(minutesByCategory(payLines)).toEqual({ [RDO_TAKEN_CATEGORY]: 480 });
+    expect(taken?.meta?.rdoNegative).toBeUndefined();
+    expect(rdoMinutes(movements)).toBe(-480);
+  });
+
+  it("flags an RDO that leaves the balance negative", () => {
+    const { payLines } = run({
+      ruleset: rdo,
+      balances: { E1: { rdo: 100, toil: 0 } },
+      entries: [shift("2026-06-05", "07:00", "15:00", { jobCode: "RDO" })],
+    });
+
+    expect(linesIn(payLines, RDO_TAKEN_CATEGORY)[0]?.meta?.rdoNegative).toBe(true);
+  });
+});
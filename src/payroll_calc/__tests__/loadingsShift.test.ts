@@ -0,0 +1,38 @@
+// src/payroll_calc/__tests__/loadingsShift.test.ts
+import { describe, expect, it } from "vitest";
+import { shiftClassAt } from "../rules/loadingsShift";
+import { employee, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const loadings = ruleset({
+  shiftLoadings: { loadings: { afternoon: { percent: 15 }, night: { percent: 30 }, permanentNight: { percent: 30 } } },
+});
+
+describe("loadingsShift", () => {
+  it("classifies a shift by its local start time", () => {
+    expect(shiftClassAt(6 * 60)).toBe("day");
+    expect(shiftClassAt(14 * 60)).toBe("afternoon");
+    expect(shiftClassAt(2 * 60)).toBe("night");
+  });
+
+  it("loads the whole shift, not just the minutes after a clock time", () => {
+    const { payLines } = run({ ruleset: loadings, entries: [shift("2026-06-02", "14:00", "22:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ AFTSHIFT15: 480 });
+  });
+
+  it("uses the employee's declared class over the start time", () => {
+    const { payLines } = run({
+      ruleset: loadings,
+      employees: [employee({ shiftClass: "permanentNight" })],
+      entries: [shift("2026-06-02", "14:00", "22:00")],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ PERMNIGHT30: 480 });
+  });
+
+  it("pays a day shift with no loading at ordinary rate", () => {
+    const { payLines } = run({ ruleset: loadings, entries: [shift("2026-06-02", "07:00", "15:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 480 });
+  });
+});
@@ -0,0 +1,83 @@
+// src/payroll_calc/__tests__/minimumEngagement.test.ts
+import { describe, expect, it } from "vitest";
+import { employee, linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const minimumEngagement = { minutes: 240, byEmploymentType: { casual: 180 } };
+const partTimer = [employee({ employmentType: "partTime" })];
+
+describe("minimumEngagement", () => {
+  it("tops a short engagement up to the minimum at ordinary rate", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ minimumEngagement }),
+      employees: partTimer,
+      entries: [shift("2026-06-02", "07:00", "09:00")],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 120, "Minimum engagement": 120 });
+    expect(linesIn(payLines, "Minimum engagement")[0]?.cost).toBe(80);
+  });
+
+  it("merges entries within the gap into one engagement", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ minimumEngagement }),
+      employees: partTimer,
+      entries: [shift("2026-06-02", "07:00", "08:30"), shift("2026-06-02", "09:00", "10:30")],
+    });
+
+    expect(linesIn(payLines, "Minimum engagement")[0]?.minutes).toBe(60);
+  });
+
+  it("uses the employment type's own minimum", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ minimumEngagement }),
+      employees: [employee({ employmentType: "casual" })],
+      entries: [shift("2026-06-02", "07:00", "09:00")],
+    });
+
+    expect(linesIn(payLines, "Minimum engagement")[0]?.minutes).toBe(60);
+  });
+
+  it("pays a casual's top-up with their casual loading", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ minimumEngagement, casualLoading: { percent: 25, mode: "separate" } }),
+      employees: [employee({ employmentType: "casual" })],
+      entries: [shift("2026-06-02", "07:00", "09:00")],
+    });
+
+    const [topUp] = linesIn(payLines, "Minimum engagement");
+    expect(topUp?.multiplier).toBe(1.25);
+    expect(topUp?.cost).toBe(50);
+  });
+
+  it("doesn't load a permanent employee's top-up", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ minimumEngagement, casualLoading: { percent: 25, mode: "compound" } }),
+      employees: partTimer,
+      entries: [shift("2026-06-02", "07:00", "09:00")],
+    });
+
+    expect(linesIn(payLines, "Minimum engagement")[0]?.multiplier).toBe(1);
+  });
+
+  it("doesn't top up a full-timer unless their type opts in", () => {
+    const entries = [shift("2026-06-02", "07:00", "09:00")];
+    const byDefault = run({ ruleset: ruleset({ minimumEngagement }), entries });
+    const optedIn = run({
+      ruleset: ruleset({ minimumEngagement: { ...minimumEngagement, byEmploymentType: { fullTime: 180 } } }),
+      entries,
+    });
+
+    expect(linesIn(byDefault.payLines, "Minimum engagement")).toEqual([]);
+    expect(linesIn(optedIn.payLines, "Minimum engagement")[0]?.minutes).toBe(60);
+  });
+
+  it("leaves an engagement at or over the minimum alone", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ minimumEngagement }),
+      employees: partTimer,
+      entries: [shift("2026-06-02", "07:00", "11:00")],
+    });
+
+    expect(linesIn(payLines, "Minimum engagement")).toEqual([]);
+  });
+});
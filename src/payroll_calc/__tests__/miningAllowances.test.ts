@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { linesIn, run, ruleset, shift } from "./fixtures";
+
+const rules = ruleset({
+  miningSites: { "MT-WHALEBACK": { siteAllowance: 45, livingAwayPerNight: 100, travelDay: { allowance: 80 } } },
+});
+const period = { startISO: "2026-06-01", endISO: "2026-06-14" };
+const swing = ["2026-06-02", "2026-06-03", "2026-06-04"];
+
+describe("miningAllowancesRule", () => {
+  it("pays site allowance per day, living away per night and both travel days of a swing", () => {
+    const result = run({
+      ruleset: rules,
+      period,
+      entries: swing.map((d) => shift(d, "06:00", "18:00", { site: "mt-whaleback" })),
+    });
+
+    expect(linesIn(result.payLines, "Site allowance")[0]?.units).toBe(3);
+    expect(linesIn(result.payLines, "Living away allowance")[0]?.units).toBe(2);
+    expect(linesIn(result.payLines, "FIFO travel allowance").map((l) => l.date)).toEqual(["2026-06-02", "2026-06-04"]);
+  });
+
+  it("counts a night swing by shifts, not by the calendar dates they touch", () => {
+    const result = run({
+      ruleset: rules,
+      period,
+      entries: swing.map((d) => shift(d, "18:00", "06:00", { site: "MT-WHALEBACK" })),
+    });
+
+    expect(linesIn(result.payLines, "Site allowance")[0]?.units).toBe(3);
+    expect(linesIn(result.payLines, "Site allowance")[0]?.meta?.swingDays).toBe(3);
+  });
+
+  it("splits days on site with a gap into separate swings", () => {
+    const result = run({
+      ruleset: rules,
+      period,
+      entries: [...swing, "2026-06-08", "2026-06-09"].map((d) => shift(d, "06:00", "18:00", { site: "MT-WHALEBACK" })),
+    });
+
+    expect(linesIn(result.payLines, "Site allowance").map((l) => l.units)).toEqual([3, 2]);
+    expect(linesIn(result.payLines, "Living away allowance").map((l) => l.units)).toEqual([2, 1]);
+    expect(linesIn(result.payLines, "FIFO travel allowance").map((l) => l.date)).toEqual([
+      "2026-06-02",
+      "2026-06-04",
+      "2026-06-08",
+      "2026-06-09",
+    ]);
+  });
+
+  it("pays living away for every night when the swing runs past the end of the period", () => {
+    const toPeriodEnd = ["2026-06-12", "2026-06-13", "2026-06-14"];
+    const result = run({
+      ruleset: rules,
+      period,
+      entries: toPeriodEnd.map((d) => shift(d, "06:00", "18:00", { site: "MT-WHALEBACK" })),
+    });
+
+    const [lafha] = linesIn(result.payLines, "Living away allowance");
+    expect(lafha?.units).toBe(3);
+    expect(lafha?.cost).toBe(300);
+    expect(linesIn(result.payLines, "FIFO travel allowance").map((l) => l.date)).toEqual(["2026-06-12"]);
+  });
+
+  it("pays a one-day swing one travel day and no nights", () => {
+    const result = run({
+      ruleset: rules,
+      period,
+      entries: [shift("2026-06-05", "06:00", "18:00", { site: "MT-WHALEBACK" })],
+    });
+
+    expect(linesIn(result.payLines, "Site allowance")[0]?.units).toBe(1);
+    expect(linesIn(result.payLines, "Living away allowance")).toEqual([]);
+    expect(linesIn(result.payLines, "FIFO travel allowance").map((l) => l.date)).toEqual(["2026-06-05"]);
+  });
+});
@@ -0,0 +1,76 @@
+// src/payroll_calc/__tests__/miningBonuses.test.ts
+import { describe, expect, it } from "vitest";
+import { compileBonusFormula } from "../rules/miningBonuses";
+import type { BonusScheme } from "../types";
+import { linesIn, run, shift } from "./fixtures";
+
+const period = { startISO: "2026-06-01", endISO: "2026-06-07" };
+const onSite = ["2026-06-01", "2026-06-02", "2026-06-03"].map((d) => shift(d, "07:00", "15:00", { site: "PIT1" }));
+
+function scheme(overrides: Partial<BonusScheme>): BonusScheme {
+  return { name: "Production bonus", site: "pit1", formula: "tonnes * 0.02 * daysAttended / periodDays", ote: false, ...overrides };
+}
+
+describe("miningBonuses", () => {
+  it("evaluates formulas without eval", () => {
+    const f = compileBonusFormula("min(tonnes / 10, 500) + (incidents == 0 ? 100 : 0)");
+
+    expect(f.variables.sort()).toEqual(["incidents", "tonnes"]);
+    expect(f.evaluate({ tonnes: 2000, incidents: 0 })).toBe(300);
+    expect(() => compileBonusFormula("tonnes; process.exit()")).toThrow();
+  });
+
+  it("doesn't find functions or metrics on Object.prototype", () => {
+    expect(() => compileBonusFormula("constructor(1)")).toThrow('Unknown function "constructor"');
+    expect(() => compileBonusFormula("toString()")).toThrow('Unknown function "toString"');
+    expect(() => compileBonusFormula("hasOwnProperty(1)")).toThrow('Unknown function "hasOwnProperty"');
+
+    const f = compileBonusFormula("constructor * 2");
+    expect(() => f.evaluate({ tonnes: 2000 })).toThrow('No value for "constructor"');
+    expect(f.evaluate({ constructor: 3 })).toBe(6);
+  });
+
+  it("pays the formula over the site's metrics and the employee's attendance", () => {
+    const { payLines } = run({
+      period,
+      bonusSchemes: [scheme({})],
+      siteMetrics: { PIT1: { tonnes: 7000 } },
+      entries: onSite,
+    });
+
+    const [bonus] = linesIn(payLines, "Production bonus");
+    expect(bonus?.cost).toBe(60); // 7000 x 0.02 x 3 / 7
+    expect(bonus?.date).toBe("2026-06-03");
+  });
+
+  it("caps the amount and skips anyone under the minimum days", () => {
+    const capped = run({
+      period,
+      bonusSchemes: [scheme({ cap: 50 })],
+      siteMetrics: { PIT1: { tonnes: 7000 } },
+      entries: onSite,
+    });
+    const tooFew = run({
+      period,
+      bonusSchemes: [scheme({ minDaysAttended: 4 })],
+      siteMetrics: { PIT1: { tonnes: 7000 } },
+      entries: onSite,
+    });
+
+    expect(linesIn(capped.payLines, "Production bonus")[0]?.cost).toBe(50);
+    expect(linesIn(tooFew.payLines, "Production bonus")).toEqual([]);
+  });
+
+  it("pays nothing when a metric is missing", () => {
+    const { payLines } = run({ period, bonusSchemes: [scheme({})], entries: onSite });
+    const inherited = run({
+      period,
+      bonusSchemes: [scheme({ formula: "constructor * 10" })],
+      siteMetrics: { PIT1: { tonnes: 7000 } },
+      entries: onSite,
+    });
+
+    expect(linesIn(payLines, "Production bonus")).toEqual([]);
+    expect(linesIn(inherited.payLines, "Production bonus")).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+// src/payroll_calc/__tests__/onCall.test.ts
+import { describe, expect, it } from "vitest";
+import type { OnCallShift } from "../types";
+import { linesIn, run, ruleset, shift } from "./fixtures";
+
+const ON_CALL = "On-call allowance";
+
+function roster(extra: Partial<OnCallShift> = {}): OnCallShift {
+  return {
+    id: "R1",
+    employeeId: "E1",
+    startISO: "2026-06-02T17:00:00+10:00",
+    endISO: "2026-06-03T07:00:00+10:00",
+    rate: 50,
+    ...extra,
+  };
+}
+
+describe("onCallRule", () => {
+  it("pays one allowance per rostered window", () => {
+    const { payLines } = run({ entries: [], onCall: [roster()] });
+
+    expect(linesIn(payLines, ON_CALL).map((l) => [l.date, l.cost])).toEqual([["2026-06-02", 50]]);
+  });
+
+  it("drops the allowance when a call-out overlaps and the ruleset suppresses it", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ callout: { minutes: 180, multiplier: 1.5 }, onCall: { whenCalledOut: "suppress" } }),
+      entries: [shift("2026-06-02", "22:00", "23:00", { isCallout: true })],
+      onCall: [roster()],
+    });
+
+    expect(linesIn(payLines, ON_CALL)).toEqual([]);
+  });
+
+  it("skips a window with an unknown timezone instead of failing the payrun", () => {
+    const result = run({ entries: [], onCall: [roster({ timezone: "Mars/Olympus" })] });
+    const messages = result.trace.flatMap((t) => t.messages).join("\n");
+
+    expect(linesIn(result.payLines, ON_CALL)).toEqual([]);
+    expect(messages).toMatch(/skipped on-call window R1: Unknown timezone/);
+  });
+});
@@ -0,0 +1,37 @@
+// src/payroll_calc/__tests__/ote.test.ts
+import { describe, expect, it } from "vitest";
+import { buildPayCategoryRegistry } from "../rules/ote";
+import { linesIn, run, shift } from "./fixtures";
+
+describe("pay categories", () => {
+  it("stamps each line with its category and flags", () => {
+    const { payLines } = run({ entries: [shift("2026-06-02", "07:00", "17:00")] });
+
+    expect(linesIn(payLines, "ordinary")[0]?.meta).toMatchObject({ payCategory: "ordinary", ote: true });
+    expect(linesIn(payLines, "OT1.5")[0]?.meta).toMatchObject({
+      payCategory: "overtime",
+      ote: false,
+      payrollTaxLiable: true,
+    });
+  });
+
+  it("applies the admin's overrides on top of the defaults", () => {
+    const registry = buildPayCategoryRegistry({ overtime: { ote: true } });
+
+    expect(registry.overtime).toMatchObject({ ote: true, superLiable: false, overridden: true });
+    expect(registry.ordinary.overridden).toBe(false);
+  });
+
+  it("puts overtime in the super base when the admin says it is OTE", () => {
+    const entries = [shift("2026-06-02", "07:00", "17:00")];
+    const standard = run({ entries });
+    const overridden = run({ payCategories: { overtime: { ote: true, superLiable: true } }, entries });
+
+    expect(standard.super[0]?.ote).toBe(320);
+    expect(overridden.super[0]?.ote).toBe(440);
+  });
+
+  it("refuses an override for a category that doesn't exist", () => {
+    expect(() => run({ payCategories: { bogus: { ote: true } }, entries: [] })).toThrow(/bogus/);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+describe("overtimeDailyRule", () => {
+  it("pays past the ordinary day as OT tiers in sequence", () => {
+    const result = run({ entries: [shift("2026-06-01", "06:00", "18:00")] });
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 480, "OT1.5": 120, "OT2.0": 120 });
+  });
+
+  it("counts an overnight shift as one day from its start, not two halves split at midnight", () => {
+    const result = run({ entries: [shift("2026-06-01", "19:00", "07:00")] });
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 480, "OT1.5": 120, "OT2.0": 120 });
+  });
+
+  it("adds a shift that starts on the next day to that day, not the overnight shift", () => {
+    const result = run({
+      entries: [shift("2026-06-01", "22:00", "04:00"), shift("2026-06-02", "10:00", "16:00")],
+    });
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 720 });
+  });
+
+  it("pays time outside the ordinary span as OT whatever the day's total", () => {
+    const result = run({
+      entries: [shift("2026-06-01", "05:00", "11:00")],
+      ruleset: ruleset({ overtime: { ...ruleset().overtime, span: { startMinute: 360, endMinute: 1080 } } }),
+    });
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 300, "OT1.5": 60 });
+  });
+
+  it("pays a shift past maxShiftMinutes as OT", () => {
+    const result = run({
+      entries: [shift("2026-06-01", "06:00", "14:00")],
+      ruleset: ruleset({ overtime: { ...ruleset().overtime, ordinaryMinutesPerDay: 600, maxShiftMinutes: 420 } }),
+    });
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 420, "OT1.5": 60 });
+  });
+
+  it("pays work inside minRestMinutes of the previous day's shift as OT", () => {
+    const result = run({
+      entries: [shift("2026-06-01", "14:00", "22:00"), shift("2026-06-02", "06:00", "14:00")],
+      ruleset: ruleset({ overtime: { ...ruleset().overtime, minRestMinutes: 600 } }),
+    });
+
+    // 10h rest runs to 08:00, so the second shift's first 2h are OT
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 840, "OT1.5": 120 });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const higherOf = ruleset({
+  overtime: { ...ruleset().overtime, method: "higherOf", weekly: { ordinaryMinutesPerWeek: 38 * 60 } },
+});
+const period = { startISO: "2026-06-01", endISO: "2026-06-07" };
+const week = (start: string, end: string, days: string[]) => days.map((d) => shift(d, start, end));
+const monToFri = ["2026-06-01", "2026-06-02", "2026-06-03", "2026-06-04", "2026-06-05"];
+
+describe("overtimeHigherOfRule", () => {
+  it("pays the weekly allocation alone for a 5 x 9h week, not daily and weekly OT together", () => {
+    // daily alone: 5h OT1.5 (2850 weighted min); weekly alone: 2h OT1.5 + 5h OT2.0 (3060)
+    const result = run({ ruleset: higherOf, period, entries: week("07:00", "16:00", monToFri) });
+    const overtime = result.payLines.filter((l) => l.category.startsWith("OT"));
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 2280, "OT1.5": 120, "OT2.0": 300 });
+    expect(overtime.every((l) => l.meta?.otMethod === "weekly")).toBe(true);
+  });
+
+  it("pays the daily allocation when long days make it worth more", () => {
+    // daily alone: 4 x (2h OT1.5 + 2h OT2.0); weekly alone: 2h OT1.5 + 8h OT2.0
+    const result = run({ ruleset: higherOf, period, entries: week("06:00", "18:00", monToFri.slice(0, 4)) });
+    const overtime = result.payLines.filter((l) => l.category.startsWith("OT"));
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 1920, "OT1.5": 480, "OT2.0": 480 });
+    expect(overtime.every((l) => l.meta?.otMethod === "daily")).toBe(true);
+  });
+
+  it("never pays more OT minutes than were worked past either threshold", () => {
+    const result = run({ ruleset: higherOf, period, entries: week("07:00", "16:00", monToFri) });
+    const paid = Object.values(minutesByCategory(result.payLines)).reduce((a, b) => a + b, 0);
+
+    expect(paid).toBe(45 * 60);
+  });
+});
@@ -0,0 +1,40 @@
+// src/payroll_calc/__tests__/overtimeWeekly.test.ts
+import { describe, expect, it } from "vitest";
+import { employee, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const weekly = ruleset({ overtime: { ...ruleset().overtime, weekly: { ordinaryMinutesPerWeek: 38 * 60 } } });
+const period = { startISO: "2026-06-01", endISO: "2026-06-07" };
+const monToFri = ["2026-06-01", "2026-06-02", "2026-06-03", "2026-06-04", "2026-06-05"];
+const week = (start: string, end: string, days = monToFri) => days.map((d) => shift(d, start, end));
+
+describe("overtimeWeekly", () => {
+  it("pays ordinary hours past the weekly threshold as overtime", () => {
+    const { payLines } = run({ ruleset: weekly, period, entries: week("07:00", "15:00") });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 2280, "OT1.5": 120 });
+  });
+
+  it("uses the employee's own weekly hours and the tiers past the first", () => {
+    const { payLines } = run({
+      ruleset: weekly,
+      period,
+      employees: [employee({ weeklyHours: 30 })],
+      entries: week("07:00", "15:00"),
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 1800, "OT1.5": 120, "OT2.0": 480 });
+  });
+
+  it("doesn't count daily overtime towards the week", () => {
+    // 5 x 1h daily OT; 40h ordinary left, so 2h weekly OT on top
+    const { payLines } = run({ ruleset: weekly, period, entries: week("07:00", "16:00") });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 2280, "OT1.5": 420 });
+  });
+
+  it("does nothing when weekly overtime is switched off", () => {
+    const { payLines } = run({ period, entries: week("07:00", "15:00") });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 2400 });
+  });
+});
@@ -0,0 +1,52 @@
+// src/payroll_calc/__tests__/penaltiesDay.test.ts
+import { describe, expect, it } from "vitest";
+import { employee, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const weekend = ruleset({
+  dayPenalties: {
+    byDay: {
+      6: [
+        { firstMinutes: 120, multiplier: 1.5, label: "SAT1.5" },
+        { multiplier: 2, label: "SAT2" },
+      ],
+      0: [{ multiplier: 2, label: "Sunday" }],
+    },
+    byEmploymentType: { casual: { 6: [{ multiplier: 1.25, label: "SAT1.25" }] } },
+  },
+});
+
+describe("penaltiesDay", () => {
+  it("runs Saturday tiers in sequence over the day's minutes", () => {
+    const { payLines } = run({ ruleset: weekend, entries: [shift("2026-06-06", "07:00", "13:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ "SAT1.5": 120, "SAT2": 240 });
+  });
+
+  it("pays each day's tiers under their labels", () => {
+    const { payLines } = run({ ruleset: weekend, entries: [shift("2026-06-07", "07:00", "11:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ Sunday: 240 });
+  });
+
+  it("only picks up the Saturday rate after local midnight", () => {
+    const { payLines } = run({ ruleset: weekend, entries: [shift("2026-06-05", "22:00", "02:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 120, "SAT1.5": 120 });
+  });
+
+  it("uses the employment type's table for the days it lists", () => {
+    const { payLines } = run({
+      ruleset: weekend,
+      employees: [employee({ employmentType: "casual" })],
+      entries: [shift("2026-06-06", "07:00", "11:00"), shift("2026-06-07", "07:00", "09:00")],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ "SAT1.25": 240, Sunday: 120 });
+  });
+
+  it("leaves weekdays alone", () => {
+    const { payLines } = run({ ruleset: weekend, entries: [shift("2026-06-03", "07:00", "15:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 480 });
+  });
+});
@@ -0,0 +1,30 @@
+// src/payroll_calc/__tests__/penaltiesTimeOfDay.test.ts
+import { describe, expect, it } from "vitest";
+import { minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const windows = ruleset({
+  timeOfDayPenalties: [
+    { label: "AFT15", startMinute: 18 * 60, endMinute: 23 * 60, loadingPercent: 15 },
+    { label: "NIGHT30", startMinute: 23 * 60, endMinute: 7 * 60, loadingPercent: 30 },
+  ],
+});
+
+describe("penaltiesTimeOfDay", () => {
+  it("pays the minutes inside a window at its loading", () => {
+    const { payLines } = run({ ruleset: windows, entries: [shift("2026-06-02", "14:00", "22:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 240, AFT15: 240 });
+  });
+
+  it("applies a window that crosses midnight on both sides", () => {
+    const { payLines } = run({ ruleset: windows, entries: [shift("2026-06-02", "21:00", "05:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ AFT15: 120, NIGHT30: 360 });
+  });
+
+  it("loses to a higher overtime rate on the same minutes", () => {
+    const { payLines } = run({ ruleset: windows, entries: [shift("2026-06-02", "12:00", "22:00")] });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 360, AFT15: 120, "OT1.5": 120 });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { PayrollCalcError } from "../errors";
+import { minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+describe("runPipeline", () => {
+  it("pays a standard day as ordinary time and costs it", () => {
+    const result = run({ entries: [shift("2026-06-01", "07:00", "15:30", { unpaidBreakMinutes: 30 })] });
+    const ordinary = result.payLines.find((l) => l.category === "ordinary");
+
+    expect(minutesByCategory(result.payLines)).toEqual({ ordinary: 480 });
+    expect(ordinary?.cost).toBe(320);
+  });
+
+  it("skips entries with an unknown timezone instead of failing the payrun", () => {
+    const result = run({ entries: [shift("2026-06-01", "07:00", "15:00", { timezone: "Mars/Olympus" })] });
+
+    expect(result.payLines.filter((l) => !l.isOnCost)).toEqual([]);
+    expect(result.trace[0]?.messages.join("\n")).toMatch(/Unknown timezone/);
+  });
+
+  it("refuses invalid settings", () => {
+    const input = { entries: [], ruleset: ruleset({ superannuation: { rate: 12 } }) };
+
+    expect(() => run(input)).toThrow(PayrollCalcError);
+    expect(() => run(input)).toThrow(/superannuation.rate/);
+  });
+});
@@ -0,0 +1,46 @@
+// src/payroll_calc/__tests__/publicHolidays.test.ts
+import { describe, expect, it } from "vitest";
+import { publicHolidayCalendar } from "../rules/publicHolidays";
+import { minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const holidays = ruleset({ publicHolidays: { multiplier: 2.5 } });
+// King's Birthday (NSW, not QLD) is Monday 8 June 2026
+const kingsBirthday = shift("2026-06-08", "07:00", "11:00");
+
+describe("publicHolidays", () => {
+  it("pays work on a holiday in the employee's state at the holiday rate", () => {
+    const { payLines } = run({ ruleset: holidays, publicHolidays: { state: "NSW" }, entries: [kingsBirthday] });
+
+    expect(minutesByCategory(payLines)).toEqual({ "PH2.5": 240 });
+  });
+
+  it("ignores a holiday another state observes", () => {
+    const { payLines } = run({ ruleset: holidays, publicHolidays: { state: "QLD" }, entries: [kingsBirthday] });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 240 });
+  });
+
+  it("moves a bundled holiday to an admin substitute day", () => {
+    const { payLines } = run({
+      ruleset: holidays,
+      publicHolidays: {
+        state: "NSW",
+        overrides: [{ date: "2026-06-09", name: "King's Birthday", kind: "substitute", replacesDate: "2026-06-08" }],
+      },
+      entries: [kingsBirthday, shift("2026-06-09", "07:00", "09:00")],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 240, "PH2.5": 120 });
+  });
+
+  it("builds the calendar for a state, with admin extras", () => {
+    const calendar = publicHolidayCalendar("2026-04-01", "2026-04-30", "NSW", [
+      { date: "2026-04-28", name: "Show Day", kind: "extra", state: "NSW" },
+      { date: "2026-04-29", name: "Regatta", kind: "extra", state: "TAS" },
+    ]);
+
+    expect(calendar.get("2026-04-25")).toBe("Anzac Day");
+    expect(calendar.get("2026-04-28")).toBe("Show Day");
+    expect(calendar.has("2026-04-29")).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+// src/payroll_calc/__tests__/stacking.test.ts
+import { describe, expect, it } from "vitest";
+import { resolveComponents } from "../rules/stacking";
+import type { RateComponent } from "../types";
+import { linesIn, run, ruleset, shift } from "./fixtures";
+
+const ot15: RateComponent = { kind: "overtime", code: "OT1.5", multiplier: 1.5, rule: "overtimeDaily" };
+const ot2: RateComponent = { kind: "overtime", code: "OT2.0", multiplier: 2, rule: "overtimeWeekly" };
+const sat: RateComponent = { kind: "penalty", code: "SAT1.5", multiplier: 1.5, rule: "penaltiesDay" };
+const cas: RateComponent = { kind: "loading", code: "CAS25", multiplier: 1.25, rule: "loadingsCasual" };
+const night: RateComponent = { kind: "penalty", code: "NIGHT30", multiplier: 1.3, rule: "penaltiesTimeOfDay" };
+
+describe("stacking", () => {
+  it("pays ordinary rate for a segment with no components", () => {
+    expect(resolveComponents([])).toMatchObject({ multiplier: 1, code: "ordinary" });
+  });
+
+  it("highest: pays the biggest multiplier and absorbs the rest", () => {
+    const result = resolveComponents([cas, sat], "highest");
+
+    expect(result).toMatchObject({ multiplier: 1.5, code: "SAT1.5" });
+    expect(result.absorbed).toEqual([cas]);
+  });
+
+  it("additive and compounding combine everything but overtime tiers", () => {
+    expect(resolveComponents([cas, sat], "additive")).toMatchObject({ multiplier: 1.75, code: "CAS25+SAT1.5" });
+    expect(resolveComponents([cas, sat], "compounding")).toMatchObject({ multiplier: 1.875, code: "CAS25+SAT1.5" });
+    expect(resolveComponents([ot15, ot2, cas], "additive")).toMatchObject({ multiplier: 2.25, code: "OT2.0+CAS25" });
+  });
+
+  it("otReplacesPenalty: any overtime wins over a bigger penalty", () => {
+    const penalty: RateComponent = { ...sat, multiplier: 2.5, code: "SUN2.5" };
+
+    expect(resolveComponents([penalty, ot15], "otReplacesPenalty")).toMatchObject({ multiplier: 1.5, code: "OT1.5" });
+    expect(resolveComponents([penalty, night], "otReplacesPenalty")).toMatchObject({ multiplier: 2.5, code: "SUN2.5" });
+  });
+
+  it("records what was paid and absorbed on the pay line", () => {
+    const { payLines } = run({
+      ruleset: ruleset({
+        timeOfDayPenalties: [{ label: "NIGHT30", startMinute: 18 * 60, endMinute: 6 * 60, loadingPercent: 30 }],
+      }),
+      entries: [shift("2026-06-02", "12:00", "22:00")],
+    });
+
+    const [overtime] = linesIn(payLines, "OT1.5");
+    expect(overtime?.rateBreakdown?.mode).toBe("highest");
+    expect(overtime?.rateBreakdown?.absorbed.map((p) => p.code)).toEqual(["NIGHT30"]);
+  });
+});
@@ -0,0 +1,29 @@
+// src/payroll_calc/__tests__/super.test.ts
+import { describe, expect, it } from "vitest";
+import { SUPER_CATEGORY } from "../rules/super";
+import { linesIn, run, shift } from "./fixtures";
+
+describe("applySuper", () => {
+  it("pays the SG on ordinary time", () => {
+    const result = run({ entries: [shift("2026-06-01", "07:00", "15:00")] });
+
+    expect(result.super[0]).toMatchObject({ ote: 320, superBase: 320, superGuarantee: 38.4 });
+    expect(linesIn(result.payLines, SUPER_CATEGORY)[0]?.cost).toBe(38.4);
+  });
+
+  it("counts leave taken in the super base", () => {
+    const result = run({
+      entries: [shift("2026-06-01", "07:00", "15:00")],
+      leave: [{ employeeId: "E1", leaveType: "Annual Leave", date: "2026-06-02", minutes: 480 }],
+    });
+
+    expect(linesIn(result.payLines, "Annual Leave").map((l) => [l.isLeave, l.cost])).toEqual([[true, 320]]);
+    expect(result.super[0]).toMatchObject({ ote: 640, superBase: 640, superGuarantee: 76.8 });
+  });
+
+  it("leaves overtime out of the super base", () => {
+    const result = run({ entries: [shift("2026-06-01", "07:00", "17:00")] });
+
+    expect(result.super[0]).toMatchObject({ ote: 320, superGuarantee: 38.4 });
+  });
+});
@@ -0,0 +1,95 @@
+// src/payroll_calc/__tests__/toil.test.ts
+import { describe, expect, it } from "vitest";
+import { employee, linesIn, minutesByCategory, run, ruleset, shift } from "./fixtures";
+
+const toilMinutes = (movements: { kind: string; minutes: number }[]) =>
+  movements.filter((m) => m.kind === "toil").reduce((sum, m) => sum + m.minutes, 0);
+
+describe("toil", () => {
+  it("banks overtime on an entry that asks for it instead of paying it", () => {
+    const { payLines, movements } = run({
+      ruleset: ruleset({ toil: {} }),
+      entries: [shift("2026-06-02", "07:00", "17:00", { bankToil: true })],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 480 });
+    expect(toilMinutes(movements)).toBe(120);
+  });
+
+  it('reads the CSV string "false" as paid overtime, over the employee\'s election', () => {
+    const { payLines, movements } = run({
+      ruleset: ruleset({ toil: {} }),
+      employees: [employee({ toilElection: true })],
+      entries: [shift("2026-06-02", "07:00", "17:00", { bankToil: "false" })],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ ordinary: 480, "OT1.5": 120 });
+    expect(toilMinutes(movements)).toBe(0);
+  });
+
+  it('reads the CSV string "true" as banked', () => {
+    const { movements } = run({
+      ruleset: ruleset({ toil: {} }),
+      entries: [shift("2026-06-02", "07:00", "17:00", { bankToil: "true" })],
+    });
+
+    expect(toilMinutes(movements)).toBe(120);
+  });
+
+  it("falls back to the employee's election when the entry doesn't say", () => {
+    const { movements } = run({
+      ruleset: ruleset({ toil: {} }),
+      employees: [employee({ toilElection: true })],
+      entries: [shift("2026-06-02", "07:00", "17:00")],
+    });
+
+    expect(toilMinutes(movements)).toBe(120);
+  });
+
+  it("banks at the overtime multiplier when configured", () => {
+    const { movements } = run({
+      ruleset: ruleset({ toil: { rate: "multiplier" } }),
+      entries: [shift("2026-06-02", "07:00", "17:00", { bankToil: true })],
+    });
+
+    expect(toilMinutes(movements)).toBe(180);
+  });
+
+  it("pays TOIL taken at ordinary rate and flags a negative balance", () => {
+    const { payLines, movements } = run({
+      ruleset: ruleset({ toil: {} }),
+      balances: { E1: { rdo: 0, toil: 60 } },
+      entries: [shift("2026-06-02", "07:00", "09:00", { jobCode: "TOIL" })],
+    });
+
+    const [taken] = linesIn(payLines, "TOIL taken");
+    expect(taken?.minutes).toBe(120);
+    expect(taken?.meta?.toilNegative).toBe(true);
+    expect(toilMinutes(movements)).toBe(-120);
+  });
+
+  it("doesn't top a TOIL day up to the minimum engagement", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ toil: {}, minimumEngagement: { minutes: 180 } }),
+      employees: [employee({ employmentType: "partTime" })],
+      balances: { E1: { rdo: 0, toil: 120 } },
+      entries: [shift("2026-06-02", "07:00", "09:00", { jobCode: "TOIL" })],
+    });
+
+    expect(minutesByCategory(payLines)).toEqual({ "TOIL taken": 120 });
+  });
+
+  it("cashes out TOIL older than the window", () => {
+    const { payLines } = run({
+      ruleset: ruleset({ toil: { cashOutAfterWeeks: 4 } }),
+      balances: { E1: { rdo: 0, toil: 300 } },
+      toilAccruals: { E1: [{ date: "2026-06-01", minutes: 60 }] },
+      period: { startISO: "2026-06-08", endISO: "2026-06-14" },
+      entries: [shift("2026-06-09", "07:00", "15:00")],
+    });
+
+    const [cashOut] = linesIn(payLines, "TOIL cashed out");
+    expect(cashOut?.minutes).toBe(240);
+    expect(cashOut?.multiplier).toBe(1.5);
+  });
+});
@@ -1,13 +1,17 @@
-import type { PayLine } from "./types";
-import type { Employee } from "./demoStore";
+import { roundMoney, sumMoney } from "./money";
+import type { EmployeeProfile, PayLine } from "./types";
 
 export function applyCosting(
   payLines: PayLine[],
-  employee: Employee,
+  employee: Pick<EmployeeProfile, "baseRate">,
 ): PayLine[] {
   return payLines.map((l) => {
+    if (l.unitRate != null) {
+      return { ...l, baseRate: employee.baseRate, rateApplied: l.unitRate, cost: roundMoney(l.unitRate * (l.units ?? 0)) };
+    }
+
     const rateApplied = employee.baseRate * l.multiplier;
-    const cost = +(rateApplied * l.hours).toFixed(2);
+    const cost = roundMoney(rateApplied * l.hours);
 
     return {
       ...l,
@@ -18,6 +22,33 @@ export function applyCosting(
   });
 }
 
+/**
+ * Pipeline costing stage: cost each line against its own employee.
+ * Lines for people we have no profile for keep cost 0 and are reported.
+ */
+export function costPayLines(
+  payLines: PayLine[],
+  employeesById: Map<string, EmployeeProfile>,
+): { payLines: PayLine[]; messages: string[] } {
+  const messages: string[] = [];
+  const uncosted = new Set<string>();
+
+  const out = payLines.map((l) => {
+    const employee = l.employeeId ? employeesById.get(l.employeeId) : undefined;
+    if (!employee) {
+      uncosted.add(l.employeeName);
+      return { ...l, baseRate: 0, rateApplied: 0, cost: 0 };
+    }
+    const [costed] = applyCosting([l], employee);
+    return costed ?? l;
+  });
+
+  for (const name of uncosted) messages.push(`no base rate for "${name}" - lines left at $0`);
+  messages.push(`${out.length} lines, total $${sumCost(out).toFixed(2)}`);
+
+  return { payLines: out, messages };
+}
+
 export function sumCost(payLines: PayLine[]) {
-  return payLines.reduce((acc, l) => acc + (l.cost ?? 0), 0);
+  return sumMoney(payLines.map((l) => l.cost ?? 0));
 }
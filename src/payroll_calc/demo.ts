@@ -3,9 +3,10 @@ import type { CompanyRuleset, TimeEntry } from "./types";
 export const demoEntry: TimeEntry = {
   employeeName: "John Worde",
   jobCode: "JB-1001",
-  startISO: "2026-01-06T06:00:00.000Z", // Tuesday
-  endISO: "2026-01-06T18:00:00.000Z",
+  startISO: "2026-01-06T06:00:00+11:00", // Tuesday (Sydney, AEDT)
+  endISO: "2026-01-06T18:00:00+11:00",
   unpaidBreakMinutes: 30,
+  timezone: "Australia/Sydney",
 };
 
 export const demoRuleset: CompanyRuleset = {
@@ -16,4 +17,15 @@ export const demoRuleset: CompanyRuleset = {
       { multiplier: 2.0, label: "OT2.0" },
     ],
   },
+  dayPenalties: {
+    byDay: {
+      6: [
+        { firstMinutes: 2 * 60, multiplier: 1.5, label: "SAT1.5" },
+        { multiplier: 2.0, label: "SAT2.0" },
+      ],
+      0: [{ multiplier: 2.0, label: "SUN2.0" }],
+    },
+  },
+  publicHolidays: { multiplier: 2.5, label: "PH2.5" },
+  callout: { minutes: 4 * 60, multiplier: 1.5, label: "CALLOUT1.5" },
 };
@@ -1,6 +1,6 @@
 import { demoEntry } from "./demo";
-import { computePayLinesV1 } from "./engine_demo";
-import type { PayLine, TimeEntry } from "./types";
+import { runPayroll } from "./engine";
+import type { EngineResult, PayLine, TimeEntry } from "./types";
 import { getCurrentRuleset } from "./runtimeRules";
 
 /* ============================
@@ -35,29 +35,18 @@ export function getDemoTimeEntries(): TimeEntry[] {
    Pay line computation
 ============================ */
 
-export function getDemoPayLines(): PayLine[] {
-  const employee = getDemoEmployees()[0];
-  if (!employee) {
-    // satisfies strict + noUncheckedIndexedAccess
-    return [];
-  }
-
-  const ruleset = getCurrentRuleset();
-  const rawLines = computePayLinesV1(demoEntry, ruleset);
-
-  return rawLines.map((l) => {
-    const cost = +(employee.baseRate * l.multiplier * l.hours).toFixed(2);
-
-    return {
-      ...l,
-      employeeId: employee.id,
-      employeeName: employee.name,
-      baseRate: employee.baseRate,
-      cost,
-    };
+export function getDemoPayrun(): EngineResult {
+  return runPayroll({
+    entries: getDemoTimeEntries(),
+    employees: getDemoEmployees(),
+    ruleset: getCurrentRuleset(),
   });
 }
 
+export function getDemoPayLines(): PayLine[] {
+  return getDemoPayrun().payLines;
+}
+
 /* ============================
    Summary for dashboard
 ============================ */
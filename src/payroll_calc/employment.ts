@@ -0,0 +1,41 @@
+// src/payroll_calc/employment.ts
+import type { EmploymentType, EmploymentTypeKey } from "./types";
+
+export const EMPLOYMENT_TYPES: EmploymentType[] = ["fullTime", "partTime", "casual", "apprentice", "salaried"];
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  fullTime: "Full-time",
+  partTime: "Part-time",
+  casual: "Casual",
+  apprentice: "Apprentice",
+  salaried: "Salaried",
+};
+
+export const DEFAULT_EMPLOYMENT_TYPE: EmploymentType = "fullTime";
+
+export function isEmploymentType(v: unknown): v is EmploymentType {
+  return typeof v === "string" && (EMPLOYMENT_TYPES as string[]).includes(v);
+}
+
+export function isCasual(type?: EmploymentType | null): boolean {
+  return type === "casual";
+}
+
+/** Casuals and part-timers: paid for the hours they're engaged, so award minimums apply by default. */
+export function isEngagedHourly(type?: EmploymentType | null): boolean {
+  return type === "casual" || type === "partTime";
+}
+
+/**
+ * Per-employee-type override lookup: the exact type first, then "permanent" for anyone
+ * who is not casual (rulesets written before full-time/part-time/... existed keep working).
+ */
+export function pickByEmploymentType<T>(
+  table: Partial<Record<EmploymentTypeKey, T>> | undefined,
+  type?: EmploymentType | null,
+): T | undefined {
+  if (!table) return undefined;
+  const exact = table[type ?? DEFAULT_EMPLOYMENT_TYPE];
+  if (exact !== undefined) return exact;
+  return isCasual(type) ? undefined : table.permanent;
+}
@@ -1 +1,71 @@
-// src/payroll/engine.ts
+// src/payroll_calc/engine.ts
+import { type PayRule, runPipeline } from "./pipeline";
+import { allowancesRule } from "./rules/allowances";
+import { toolAllowanceRule } from "./rules/allowancesTools";
+import { travelAllowancesRule } from "./rules/allowancesTravel";
+import { brokenShiftRule } from "./rules/brokenShift";
+import { calloutMinimumRule } from "./rules/calloutMinimum";
+import { leavePublicHolidayNotWorkedRule } from "./rules/leavePublicHolidayNotWorked";
+import { leaveTakenRule } from "./rules/leaveTaken";
+import { loadingsCasualRule } from "./rules/loadingsCasual";
+import { rdoAccrualRule, rdoTakenRule } from "./rules/loadingsRDO";
+import { loadingsShiftRule } from "./rules/loadingsShift";
+import { miningAllowancesRule } from "./rules/miningAllowances";
+import { miningBonusesRule } from "./rules/miningBonuses";
+import { minimumEngagementRule } from "./rules/minimumEngagement";
+import { onCallRule } from "./rules/onCall";
+import { overtimeDailyRule } from "./rules/overtimeDaily";
+import { overtimeHigherOfRule } from "./rules/overtimeHigherOf";
+import { overtimeWeeklyRule } from "./rules/overtimeWeekly";
+import { penaltiesDayRule } from "./rules/penaltiesDay";
+import { penaltiesTimeOfDayRule } from "./rules/penaltiesTimeOfDay";
+import { publicHolidaysRule } from "./rules/publicHolidays";
+import { toilBankRule, toilTakenRule } from "./rules/toil";
+import type { EngineInput, EngineResult } from "./types";
+
+/**
+ * Rules run in this order during the pipeline's rules stage.
+ * Order matters: later rules see the segments (and splits) earlier rules produced.
+ */
+export const DEFAULT_RULES: PayRule[] = [
+  rdoTakenRule,
+  toilTakenRule,
+  calloutMinimumRule,
+  brokenShiftRule,
+  overtimeDailyRule,
+  overtimeWeeklyRule,
+  overtimeHigherOfRule,
+  penaltiesDayRule,
+  penaltiesTimeOfDayRule,
+  publicHolidaysRule,
+  loadingsShiftRule,
+  loadingsCasualRule,
+  rdoAccrualRule,
+  leaveTakenRule,
+  leavePublicHolidayNotWorkedRule,
+  minimumEngagementRule,
+  onCallRule,
+  allowancesRule,
+  toolAllowanceRule,
+  travelAllowancesRule,
+  miningAllowancesRule,
+  miningBonusesRule,
+  toilBankRule,
+];
+
+/**
+ * Payroll engine entry point.
+ * Takes every raw entry in the pay period at once (rules need to see whole days/weeks),
+ * returns costed pay lines plus a per-stage trace explaining how they were produced.
+ */
+export function runPayroll(input: EngineInput, rules: PayRule[] = DEFAULT_RULES): EngineResult {
+  return runPipeline(input, rules);
+}
+
+/** Human-readable dump of a result's trace (simulate page / logs). */
+export function formatTrace(result: EngineResult): string[] {
+  return result.trace.flatMap((t) => [
+    `[${t.stage}] ${t.name}`,
+    ...t.messages.map((m) => `  - ${m}`),
+  ]);
+}
@@ -1 +1,19 @@
-// src/payroll/errors.ts
+// src/payroll_calc/errors.ts
+
+export type PayrollCalcErrorCode = "INVALID_TIMEZONE" | "INVALID_DATE" | "INVALID_RULESET" | "UNKNOWN_PAY_CATEGORY";
+
+/**
+ * Thrown by the calc helpers when an input can't be interpreted.
+ * Pipeline stages catch these per entry and record them in the trace
+ * instead of failing the whole payrun; configuration errors (INVALID_RULESET,
+ * UNKNOWN_PAY_CATEGORY) are not caught and fail it on purpose.
+ */
+export class PayrollCalcError extends Error {
+  readonly code: PayrollCalcErrorCode;
+
+  constructor(code: PayrollCalcErrorCode, message: string) {
+    super(message);
+    this.name = "PayrollCalcError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,138 @@
+// src/payroll_calc/holidaysAU.ts
+import { addDaysISO, dayOfWeekISO } from "./time";
+import type { AuState, PublicHoliday } from "./types";
+
+/**
+ * Bundled Australian public holiday calendar (national + per-state), computed per year.
+ * Covers the state-wide gazetted days; regional days (show days, AFL Grand Final Friday,
+ * Regatta...) and one-off proclamations are entered by an admin as extra/substitute days.
+ */
+
+export const AU_STATES: AuState[] = ["NSW", "VIC", "QLD", "WA", "SA", "TAS", "ACT", "NT"];
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+}
+
+/** Easter Sunday (Gregorian, Meeus/Jones/Butcher). */
+export function easterSundayISO(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
+
+/** `n`th `dow` (0 Sun .. 6 Sat) of a month, e.g. 2nd Monday of June. */
+function nthWeekday(year: number, month: number, dow: number, n: number): string {
+  const first = ymd(year, month, 1);
+  const offset = (dow - dayOfWeekISO(first) + 7) % 7;
+  return addDaysISO(first, offset + (n - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, dow: number): string {
+  const last = addDaysISO(month === 12 ? ymd(year + 1, 1, 1) : ymd(year, month + 1, 1), -1);
+  return addDaysISO(last, -((dayOfWeekISO(last) - dow + 7) % 7));
+}
+
+/** First `dow` on or after a date. */
+function weekdayOnOrAfter(dateISO: string, dow: number): string {
+  return addDaysISO(dateISO, (dow - dayOfWeekISO(dateISO) + 7) % 7);
+}
+
+/** Following Monday when a fixed-date holiday lands on a weekend. */
+function mondayIfWeekend(dateISO: string): string | null {
+  const dow = dayOfWeekISO(dateISO);
+  if (dow === 6) return addDaysISO(dateISO, 2);
+  if (dow === 0) return addDaysISO(dateISO, 1);
+  return null;
+}
+
+const MON = 1;
+const TUE = 2;
+
+export function auPublicHolidays(year: number): PublicHoliday[] {
+  const out: PublicHoliday[] = [];
+  const add = (date: string, name: string, states: AuState[] | "all", substitute = false) =>
+    out.push({ date, name, states, ...(substitute ? { substitute } : {}) });
+  const addWithSubstitute = (date: string, name: string, states: AuState[] | "all") => {
+    add(date, name, states);
+    const sub = mondayIfWeekend(date);
+    if (sub) add(sub, `${name} (substitute)`, states, true);
+  };
+
+  // National
+  addWithSubstitute(ymd(year, 1, 1), "New Year's Day", "all");
+  addWithSubstitute(ymd(year, 1, 26), "Australia Day", "all");
+
+  const easter = easterSundayISO(year);
+  add(addDaysISO(easter, -2), "Good Friday", "all");
+  add(addDaysISO(easter, -1), "Easter Saturday", ["NSW", "VIC", "QLD", "SA", "ACT", "NT"]);
+  add(easter, "Easter Sunday", ["NSW", "VIC", "QLD", "WA", "ACT"]);
+  add(addDaysISO(easter, 1), "Easter Monday", "all");
+
+  add(ymd(year, 4, 25), "Anzac Day", "all");
+  const anzacSub = mondayIfWeekend(ymd(year, 4, 25));
+  if (anzacSub) add(anzacSub, "Anzac Day (substitute)", ["WA"], true);
+
+  // Christmas / Boxing Day: a weekend day moves to the next free weekday
+  const christmas = ymd(year, 12, 25);
+  const boxing = ymd(year, 12, 26);
+  add(christmas, "Christmas Day", "all");
+  add(boxing, "Boxing Day", "all");
+  const xmasDow = dayOfWeekISO(christmas);
+  if (xmasDow === 6) {
+    add(ymd(year, 12, 27), "Christmas Day (substitute)", "all", true);
+    add(ymd(year, 12, 28), "Boxing Day (substitute)", "all", true);
+  } else if (xmasDow === 0) {
+    add(ymd(year, 12, 27), "Christmas Day (substitute)", "all", true);
+  } else if (xmasDow === 5) {
+    add(ymd(year, 12, 28), "Boxing Day (substitute)", "all", true);
+  }
+
+  // King's Birthday
+  add(nthWeekday(year, 6, MON, 2), "King's Birthday", ["NSW", "VIC", "SA", "TAS", "ACT", "NT"]);
+  add(nthWeekday(year, 10, MON, 1), "King's Birthday", ["QLD"]);
+  add(lastWeekday(year, 9, MON), "King's Birthday", ["WA"]);
+
+  // Labour Day / Eight Hours Day / May Day
+  add(nthWeekday(year, 10, MON, 1), "Labour Day", ["NSW", "ACT", "SA"]);
+  add(nthWeekday(year, 3, MON, 2), "Labour Day", ["VIC"]);
+  add(nthWeekday(year, 3, MON, 2), "Eight Hours Day", ["TAS"]);
+  add(nthWeekday(year, 3, MON, 1), "Labour Day", ["WA"]);
+  add(nthWeekday(year, 5, MON, 1), "Labour Day", ["QLD"]);
+  add(nthWeekday(year, 5, MON, 1), "May Day", ["NT"]);
+
+  // State-only days
+  add(nthWeekday(year, 3, MON, 2), "Canberra Day", ["ACT"]);
+  add(weekdayOnOrAfter(ymd(year, 5, 27), MON), "Reconciliation Day", ["ACT"]);
+  add(nthWeekday(year, 3, MON, 2), "Adelaide Cup Day", ["SA"]);
+  add(nthWeekday(year, 11, TUE, 1), "Melbourne Cup Day", ["VIC"]);
+  add(nthWeekday(year, 6, MON, 1), "Western Australia Day", ["WA"]);
+  add(nthWeekday(year, 8, MON, 1), "Picnic Day", ["NT"]);
+
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function appliesToState(h: PublicHoliday, state?: AuState | null): boolean {
+  if (h.states === "all") return true;
+  return state ? h.states.includes(state) : false;
+}
+
+export function isAuState(v: unknown): v is AuState {
+  return typeof v === "string" && (AU_STATES as string[]).includes(v);
+}
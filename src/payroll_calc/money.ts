@@ -1 +1,11 @@
-// src/payroll/money.ts
+// src/payroll_calc/money.ts
+
+/** Round to cents (half away from zero), avoiding the 1.005 float trap. */
+export function roundMoney(x: number): number {
+  if (!Number.isFinite(x)) return 0;
+  return Math.sign(x) * Math.round((Math.abs(x) + Number.EPSILON) * 100) / 100;
+}
+
+export function sumMoney(values: number[]): number {
+  return roundMoney(values.reduce((acc, v) => acc + (Number.isFinite(v) ? v : 0), 0));
+}
@@ -1 +1,118 @@
-// src/payroll/normalize.ts
+// src/payroll_calc/normalize.ts
+import { PayrollCalcError } from "./errors";
+import { DEFAULT_TIMEZONE, minutesBetween, zonedParts } from "./time";
+import type { EmployeeProfile, NormalizedEntry, TimeEntry } from "./types";
+
+export function normalizeEmployeeName(name: string): string {
+  return String(name ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+function clampInt(n: unknown, min: number, max: number): number {
+  const x = typeof n === "number" ? n : Number(n);
+  if (!Number.isFinite(x)) return min;
+  return Math.max(min, Math.min(max, Math.round(x)));
+}
+
+/**
+ * A yes/no flag as stored (boolean) or as a CSV import gives it ("true" / "false", "yes" / "no", "1" / "0").
+ * Anything else is unset (null), so the string "false" is never read as true.
+ */
+export function parseFlag(v: unknown): boolean | null {
+  if (typeof v === "boolean") return v;
+  if (typeof v === "number") return v === 1 ? true : v === 0 ? false : null;
+  if (typeof v !== "string") return null;
+  const s = v.trim().toLowerCase();
+  if (s === "true" || s === "yes" || s === "y" || s === "1") return true;
+  if (s === "false" || s === "no" || s === "n" || s === "0") return false;
+  return null;
+}
+
+/**
+ * Resolve an entry to one of the known employees (by id first, then by name).
+ * Unknown people still get a stable key so their time isn't lost.
+ */
+export function resolveEmployee(
+  entry: Pick<TimeEntry, "employeeId" | "employeeName">,
+  employees: EmployeeProfile[],
+): { key: string; profile?: EmployeeProfile } {
+  const id = String(entry.employeeId ?? "").trim();
+  if (id) {
+    const byId = employees.find((e) => e.id === id);
+    if (byId) return { key: byId.id, profile: byId };
+  }
+
+  const name = normalizeEmployeeName(entry.employeeName);
+  const byName = name ? employees.find((e) => normalizeEmployeeName(e.name) === name) : undefined;
+  if (byName) return { key: byName.id, profile: byName };
+
+  return { key: id || name || "unknown" };
+}
+
+/**
+ * Stage 1: raw TimeEntry -> NormalizedEntry.
+ * Entries with unreadable times or a bad timezone are dropped and reported, not thrown.
+ */
+export function normalizeEntries(
+  entries: TimeEntry[],
+  employees: EmployeeProfile[],
+): { entries: NormalizedEntry[]; messages: string[] } {
+  const out: NormalizedEntry[] = [];
+  const messages: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const label = `${entry.employeeName || "?"} ${entry.startISO || "?"}`;
+
+    const startMs = new Date(entry.startISO).getTime();
+    const endMs = new Date(entry.endISO).getTime();
+    if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+      messages.push(`skipped ${label}: unreadable start/end`);
+      return;
+    }
+    if (endMs <= startMs) {
+      messages.push(`skipped ${label}: ends before it starts`);
+      return;
+    }
+
+    const timezone = String(entry.timezone ?? "").trim() || DEFAULT_TIMEZONE;
+    let date: string;
+    try {
+      date = zonedParts(startMs, timezone).date;
+    } catch (e) {
+      if (e instanceof PayrollCalcError) {
+        messages.push(`skipped ${label}: ${e.message}`);
+        return;
+      }
+      throw e;
+    }
+
+    const rawMinutes = minutesBetween(startMs, endMs);
+    const breakMinutes = clampInt(entry.unpaidBreakMinutes ?? 0, 0, rawMinutes);
+    const { key, profile } = resolveEmployee(entry, employees);
+    if (!profile) messages.push(`${label}: no matching employee profile (keyed as "${key}")`);
+
+    out.push({
+      id: String(entry.id ?? "").trim() || `${key}@${entry.startISO}#${index}`,
+      employeeKey: key,
+      employeeId: profile?.id ?? (String(entry.employeeId ?? "").trim() || undefined),
+      employeeName: profile?.name ?? entry.employeeName,
+      jobCode: String(entry.jobCode ?? "").trim(),
+      timezone,
+      startMs,
+      endMs,
+      breakMinutes,
+      workedMinutes: rawMinutes - breakMinutes,
+      date,
+      isCallout: parseFlag(entry.isCallout) === true,
+      bankToil: parseFlag(entry.bankToil),
+      source: entry,
+    });
+  });
+
+  out.sort((a, b) => a.startMs - b.startMs);
+  messages.push(`${out.length} of ${entries.length} entries normalised`);
+
+  return { entries: out, messages };
+}
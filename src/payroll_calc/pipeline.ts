@@ -1 +1,128 @@
-// src/payroll/pipeline.ts
+// src/payroll_calc/pipeline.ts
+import { costPayLines } from "./costing";
+import { PayrollCalcError } from "./errors";
+import { normalizeEntries } from "./normalize";
+import { applyDeductions } from "./rules/deductions";
+import { resolveStacking } from "./rules/stacking";
+import { applySuper } from "./rules/super";
+import { segmentEntries } from "./segment";
+import { isISODate } from "./time";
+import { validateRuleset } from "./validateRuleset";
+import type {
+  BalanceMovement,
+  CompanyRuleset,
+  EmployeeProfile,
+  EngineInput,
+  EngineResult,
+  NormalizedEntry,
+  PayLine,
+  PipelineStage,
+  Segment,
+  StageTrace,
+} from "./types";
+
+/**
+ * Stages, in order:
+ *  1. normalize - raw TimeEntry -> NormalizedEntry (instants, employee, worked minutes)
+ *  2. segment   - entries -> day-bounded Segments of worked time
+ *  3. rules     - each PayRule tags/splits segments with RateComponents or adds its own lines
+ *  4. stacking  - resolve each segment's components into one category + multiplier, group into PayLines
+ *  5. costing   - attach base rate, applied rate and $ cost
+ *  6. deductions - recurring deductions as negative lines, worked out from the costed gross
+ *  7. super     - stamp each line's pay category flags (rules/ote.ts), then super guarantee on-cost lines per job
+ *
+ * Every stage writes to the trace so a payrun can be explained after the fact.
+ */
+
+export type RuleState = {
+  segments: Segment[];
+  // Lines a rule emits directly (top-ups, allowances...). They skip stacking but are costed.
+  lines: PayLine[];
+  // Banked time (RDO...) accrued or drawn down; returned as-is for the caller to store
+  movements: BalanceMovement[];
+};
+
+export type RuleContext = {
+  input: EngineInput;
+  entries: NormalizedEntry[];
+  employeeFor: (employeeKey: string) => EmployeeProfile | undefined;
+  rulesetFor: (jobCode: string) => CompanyRuleset;
+  note: (message: string) => void;
+};
+
+export type PayRule = {
+  id: string;
+  apply: (state: RuleState, ctx: RuleContext) => RuleState;
+};
+
+export function rulesetForJob(input: EngineInput, jobCode: string): CompanyRuleset {
+  const override = input.jobRulesets?.[jobCode];
+  return override ? { ...input.ruleset, ...override } : input.ruleset;
+}
+
+export function runPipeline(rawInput: EngineInput, rules: PayRule[]): EngineResult {
+  const trace: StageTrace[] = [];
+  const record = (stage: PipelineStage, name: string) => {
+    const t: StageTrace = { stage, name, messages: [] };
+    trace.push(t);
+    return t;
+  };
+
+  // 1) normalize
+  const normalizeTrace = record("normalize", "normalize");
+
+  // Bad configuration (e.g. an override for a pay category that doesn't exist) fails the payrun loudly
+  const problems = validateRuleset(rawInput);
+  if (problems.length) throw new PayrollCalcError("INVALID_RULESET", `Invalid payroll settings: ${problems.join("; ")}`);
+
+  // A malformed period would break week/period maths in every rule; run without one instead.
+  const periodOk = !rawInput.period || (isISODate(rawInput.period.startISO) && isISODate(rawInput.period.endISO));
+  if (!periodOk) normalizeTrace.messages.push("ignored pay period: expected YYYY-MM-DD start/end");
+  const input: EngineInput = periodOk ? rawInput : { ...rawInput, period: undefined };
+
+  const employeesById = new Map(input.employees.map((e) => [e.id, e]));
+
+  const normalized = normalizeEntries(input.entries, input.employees);
+  normalizeTrace.messages.push(...normalized.messages);
+
+  // 2) segment
+  const segments = segmentEntries(normalized.entries);
+  record("segment", "segment").messages.push(`${segments.length} segments from ${normalized.entries.length} entries`);
+
+  // 3) rules
+  let state: RuleState = { segments, lines: [], movements: [] };
+  for (const rule of rules) {
+    const t = record("rules", rule.id);
+    const ctx: RuleContext = {
+      input,
+      entries: normalized.entries,
+      employeeFor: (key) => employeesById.get(key),
+      rulesetFor: (jobCode) => rulesetForJob(input, jobCode),
+      note: (message) => t.messages.push(message),
+    };
+    state = rule.apply(state, ctx);
+  }
+
+  // 4) stacking
+  const stacked = resolveStacking(state.segments, input);
+  record("stacking", "stacking").messages.push(...stacked.messages);
+
+  // 5) costing
+  const costed = costPayLines([...stacked.payLines, ...state.lines], employeesById);
+  record("costing", "costing").messages.push(...costed.messages);
+
+  // 6) deductions
+  const deducted = applyDeductions(costed.payLines, input);
+  record("deductions", "deductions").messages.push(...deducted.messages);
+
+  // 7) super
+  const superannuation = applySuper([...costed.payLines, ...deducted.payLines], input);
+  record("super", "super").messages.push(...superannuation.messages);
+
+  return {
+    payLines: [...superannuation.payLines, ...superannuation.superLines],
+    movements: state.movements,
+    super: superannuation.summaries,
+    trace,
+  };
+}
@@ -1 +1,153 @@
-// src/payroll/rules/allowances.ts
+// src/payroll_calc/rules/allowances.ts
+import type { PayRule } from "../pipeline";
+import type { AllowanceDefinition, AllowanceUnit, NormalizedEntry, PayLine, Segment } from "../types";
+import { type AllowanceTarget, allowanceFailure, dayTypeOf, describeConditions } from "./allowancesConditions";
+import { publicHolidayCalendar } from "./publicHolidays";
+
+export const ALLOWANCE_UNITS: AllowanceUnit[] = ["day", "shift", "hour", "km"];
+
+export const ALLOWANCE_UNIT_LABELS: Record<AllowanceUnit, string> = {
+  day: "per day",
+  shift: "per shift",
+  hour: "per hour",
+  km: "per km",
+};
+
+export function isAllowanceUnit(v: unknown): v is AllowanceUnit {
+  return typeof v === "string" && (ALLOWANCE_UNITS as string[]).includes(v);
+}
+
+function payable(a: AllowanceDefinition): boolean {
+  const rate = Number(a.rate);
+  return Boolean(String(a.name ?? "").trim()) && isAllowanceUnit(a.unit) && Number.isFinite(rate) && rate > 0;
+}
+
+/** Job a day's (or week's) allowance is costed to: the one with the most qualifying minutes. */
+export function busiestJob(segments: Segment[]): string {
+  const minutesByJob = new Map<string, number>();
+  for (const s of segments) minutesByJob.set(s.jobCode, (minutesByJob.get(s.jobCode) ?? 0) + s.minutes);
+  return Array.from(minutesByJob).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+}
+
+function unitsFor(
+  allowance: AllowanceDefinition,
+  segments: Segment[],
+  date: string,
+  entriesById: Map<string, NormalizedEntry>,
+): number {
+  const entries = Array.from(new Set(segments.map((s) => s.entryId)))
+    .map((id) => entriesById.get(id))
+    .filter((e): e is NormalizedEntry => Boolean(e));
+
+  switch (allowance.unit) {
+    case "day":
+      return 1;
+    case "shift":
+      // A shift counts on the day it started, not again after midnight
+      return entries.filter((e) => e.date === date).length;
+    case "hour":
+      return segments.reduce((sum, s) => sum + s.minutes, 0) / 60;
+    case "km":
+      return entries
+        .filter((e) => e.date === date)
+        .reduce((sum, e) => sum + (Number.isFinite(Number(e.source.km)) ? Math.max(0, Number(e.source.km)) : 0), 0);
+  }
+}
+
+/**
+ * Configured allowances (CompanyRuleset.allowances, or the job's own list).
+ * Each slice of work is tested against every allowance its job offers; the conditions
+ * (allowancesConditions.ts) must all hold. Qualifying time is paid as one flat line per
+ * allowance and employee/day - per job for shift/hour/km allowances, and against the
+ * busiest qualifying job for per-day ones - so it costs to the job like any other line.
+ */
+export const allowancesRule: PayRule = {
+  id: "allowances",
+  apply(state, ctx) {
+    if (!state.segments.length) return state;
+
+    const entriesById = new Map<string, NormalizedEntry>(ctx.entries.map((e) => [e.id, e]));
+    const dates = state.segments.map((s) => s.date).sort();
+    const holidays = publicHolidayCalendar(
+      dates[0] ?? "",
+      dates[dates.length - 1] ?? "",
+      ctx.input.publicHolidays?.state,
+      ctx.input.publicHolidays?.overrides,
+    );
+
+    const dayMinutes = new Map<string, number>();
+    for (const s of state.segments) {
+      const k = `${s.employeeKey}|${s.date}`;
+      dayMinutes.set(k, (dayMinutes.get(k) ?? 0) + s.minutes);
+    }
+
+    const groups = new Map<string, { allowance: AllowanceDefinition; segments: Segment[] }>();
+    const skipped = new Map<string, string>();
+
+    for (const seg of state.segments) {
+      const allowances = (ctx.rulesetFor(seg.jobCode).allowances ?? []).filter(payable);
+      if (!allowances.length) continue;
+
+      const target: AllowanceTarget = {
+        jobCode: seg.jobCode,
+        site: entriesById.get(seg.entryId)?.source.site,
+        date: seg.date,
+        dayType: dayTypeOf(seg.date, holidays),
+        dayMinutes: dayMinutes.get(`${seg.employeeKey}|${seg.date}`) ?? 0,
+        employee: ctx.employeeFor(seg.employeeKey),
+      };
+
+      for (const allowance of allowances) {
+        const failure = allowanceFailure(allowance, target);
+        if (failure) {
+          skipped.set(`${seg.employeeName} ${seg.date} ${seg.jobCode}: ${allowance.name}`, failure);
+          continue;
+        }
+        const k = [allowance.id, seg.employeeKey, seg.date, allowance.unit === "day" ? "" : seg.jobCode].join("|");
+        const group = groups.get(k) ?? { allowance, segments: [] };
+        group.segments.push(seg);
+        groups.set(k, group);
+      }
+    }
+
+    const lines: PayLine[] = [];
+    for (const { allowance, segments } of groups.values()) {
+      const first = segments[0];
+      if (!first) continue;
+      const units = unitsFor(allowance, segments, first.date, entriesById);
+      if (units <= 0) continue;
+
+      const jobCode = allowance.unit === "day" ? busiestJob(segments) : first.jobCode;
+      const rate = Number(allowance.rate);
+      const shown = Number(units.toFixed(2));
+      lines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode,
+        date: first.date,
+        category: allowance.name.trim(),
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        units,
+        unitRate: rate,
+        sourceEntryIds: Array.from(new Set(segments.map((s) => s.entryId))),
+        explain: [
+          `${shown} x $${rate.toFixed(2)} ${ALLOWANCE_UNIT_LABELS[allowance.unit]}`,
+          `conditions: ${describeConditions(allowance.conditions)}`,
+        ],
+        meta: {
+          payCategory: "allowance",
+          allowanceId: allowance.id,
+          allowanceUnit: allowance.unit,
+          taxable: Boolean(allowance.taxable),
+          superLiable: Boolean(allowance.superLiable),
+        },
+      });
+      ctx.note(`${first.employeeName} ${first.date} ${jobCode}: ${allowance.name} x ${shown}`);
+    }
+
+    for (const [what, why] of skipped) ctx.note(`${what} not paid: ${why}`);
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
@@ -1 +1,101 @@
-// src/payroll/rules/allowancesConditions.ts
+// src/payroll_calc/rules/allowancesConditions.ts
+import { dayOfWeekISO } from "../time";
+import type { AllowanceCondition, AllowanceDefinition, DayType, EmployeeProfile } from "../types";
+
+export const DAY_TYPES: DayType[] = ["weekday", "saturday", "sunday", "publicHoliday"];
+
+export const DAY_TYPE_LABELS: Record<DayType, string> = {
+  weekday: "Weekdays",
+  saturday: "Saturdays",
+  sunday: "Sundays",
+  publicHoliday: "Public holidays",
+};
+
+export function isDayType(v: unknown): v is DayType {
+  return typeof v === "string" && (DAY_TYPES as string[]).includes(v);
+}
+
+/** Day type of a local date; `holidays` is the period's calendar (publicHolidayCalendar). */
+export function dayTypeOf(dateISO: string, holidays: Map<string, string>): DayType {
+  if (holidays.has(dateISO)) return "publicHoliday";
+  const dow = dayOfWeekISO(dateISO);
+  return dow === 6 ? "saturday" : dow === 0 ? "sunday" : "weekday";
+}
+
+/** The time an allowance is being tested against: one slice of work, and the employee-day it belongs to. */
+export type AllowanceTarget = {
+  jobCode: string;
+  site?: string;
+  date: string;
+  dayType: DayType;
+  dayMinutes: number; // worked on that day across every job
+  employee?: EmployeeProfile;
+};
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Why one condition fails for the target, or null when it holds. */
+export function conditionFailure(condition: AllowanceCondition, target: AllowanceTarget): string | null {
+  switch (condition.kind) {
+    case "minHours": {
+      const hours = Number(condition.hours);
+      if (!Number.isFinite(hours) || target.dayMinutes >= hours * 60) return null;
+      return `worked ${(target.dayMinutes / 60).toFixed(2)}h, needs ${hours}h`;
+    }
+    case "jobCodes": {
+      const codes = condition.jobCodes.filter((c) => c.trim());
+      if (!codes.length || codes.some((c) => sameText(c, target.jobCode))) return null;
+      return `job ${target.jobCode || "(none)"} not in ${codes.join(", ")}`;
+    }
+    case "sites": {
+      const sites = condition.sites.filter((s) => s.trim());
+      if (!sites.length || sites.some((s) => sameText(s, target.site ?? ""))) return null;
+      return `site ${target.site ?? "(none)"} not in ${sites.join(", ")}`;
+    }
+    case "dayTypes": {
+      if (!condition.dayTypes.length || condition.dayTypes.includes(target.dayType)) return null;
+      return `${target.dayType} not in ${condition.dayTypes.join(", ")}`;
+    }
+    case "classification": {
+      const types = condition.employmentTypes ?? [];
+      const classes = (condition.classifications ?? []).filter((c) => c.trim());
+      const type = target.employee?.employmentType ?? "fullTime";
+      const trade = String(target.employee?.classification ?? "");
+      if (types.length && !types.includes(type)) return `${type} not in ${types.join(", ")}`;
+      if (classes.length && !classes.some((c) => sameText(c, trade))) {
+        return `classification ${trade || "(none)"} not in ${classes.join(", ")}`;
+      }
+      return null;
+    }
+  }
+}
+
+/** First failing condition of an allowance for the target, or null when it is payable. */
+export function allowanceFailure(allowance: AllowanceDefinition, target: AllowanceTarget): string | null {
+  for (const condition of allowance.conditions ?? []) {
+    const failure = conditionFailure(condition, target);
+    if (failure) return failure;
+  }
+  return null;
+}
+
+/** One-line summary of an allowance's conditions for explain text and the rules page. */
+export function describeConditions(conditions: AllowanceCondition[] = []): string {
+  const parts = conditions.map((c) => {
+    switch (c.kind) {
+      case "minHours":
+        return `${c.hours}h+ worked`;
+      case "jobCodes":
+        return `jobs ${c.jobCodes.join(", ")}`;
+      case "sites":
+        return `sites ${c.sites.join(", ")}`;
+      case "dayTypes":
+        return c.dayTypes.map((d) => DAY_TYPE_LABELS[d].toLowerCase()).join(", ");
+      case "classification":
+        return [...(c.employmentTypes ?? []), ...(c.classifications ?? [])].join(", ");
+    }
+  });
+  return parts.filter(Boolean).join("; ") || "always";
+}
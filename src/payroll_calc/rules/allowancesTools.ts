@@ -1 +1,89 @@
-// src/payroll/rules/allowancesTools.ts
+// src/payroll_calc/rules/allowancesTools.ts
+import type { PayRule } from "../pipeline";
+import { groupSegments } from "../segment";
+import type { CompanyRuleset, PayLine } from "../types";
+import { busiestJob } from "./allowances";
+import { employeeWeekKey } from "./overtimeWeekly";
+
+export const TOOL_ALLOWANCE_CATEGORY = "Tool allowance";
+export const DEFAULT_TOOL_DAYS_PER_WEEK = 5;
+
+/** Full-week amount for a trade classification (case-insensitive); 0 when the trade gets none. */
+export function weeklyToolAllowance(ruleset: CompanyRuleset, classification?: string | null): number {
+  const trade = String(classification ?? "").trim().toLowerCase();
+  if (!trade) return 0;
+  const hit = Object.entries(ruleset.toolAllowance?.weekly ?? {}).find(([k]) => k.trim().toLowerCase() === trade);
+  const amount = Number(hit?.[1]);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+}
+
+function daysPerWeek(ruleset: CompanyRuleset): number {
+  const n = Number(ruleset.toolAllowance?.daysPerWeek);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_TOOL_DAYS_PER_WEEK;
+}
+
+/**
+ * Weekly tool allowance (company ruleset), paid by trade classification and pro-rated by
+ * the days actually worked in each pay week: 3 of 5 days = 3 units at a fifth of the weekly
+ * amount, never more than a full week. Days come from worked segments only, so leave, RDOs
+ * and holidays not worked don't count and a week spent entirely on leave pays nothing.
+ * One line per employee-week, dated on the last day worked and costed to the busiest job.
+ */
+export const toolAllowanceRule: PayRule = {
+  id: "allowancesTools",
+  apply(state, ctx) {
+    const { ruleset } = ctx.input;
+    if (!ruleset.toolAllowance) return state;
+
+    const perWeek = daysPerWeek(ruleset);
+    const minMinutes = Math.max(0, Number(ruleset.toolAllowance.minMinutesPerDay) || 0);
+    const lines: PayLine[] = [];
+
+    for (const [key, week] of groupSegments(state.segments, (s) => employeeWeekKey(s, ctx))) {
+      const first = week[0];
+      if (!first) continue;
+
+      const trade = String(ctx.employeeFor(first.employeeKey)?.classification ?? "");
+      const weekly = weeklyToolAllowance(ruleset, trade);
+      if (!weekly) continue;
+
+      const minutesByDate = new Map<string, number>();
+      for (const s of week) minutesByDate.set(s.shiftDate, (minutesByDate.get(s.shiftDate) ?? 0) + s.minutes);
+      const days = Array.from(minutesByDate)
+        .filter(([, minutes]) => minutes > 0 && minutes >= minMinutes)
+        .map(([date]) => date)
+        .sort();
+      if (!days.length) {
+        ctx.note(`${key}: no qualifying days`);
+        continue;
+      }
+
+      const units = Math.min(days.length, perWeek);
+      const qualifying = week.filter((s) => days.includes(s.shiftDate));
+      lines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode: busiestJob(qualifying),
+        date: days[days.length - 1] ?? first.date,
+        category: String(ruleset.toolAllowance.label ?? "").trim() || TOOL_ALLOWANCE_CATEGORY,
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        units,
+        unitRate: weekly / perWeek,
+        sourceEntryIds: Array.from(new Set(qualifying.map((s) => s.entryId))),
+        explain: [`${trade}: ${units} of ${perWeek} days x $${weekly.toFixed(2)}/week`],
+        meta: {
+          payCategory: "toolAllowance",
+          allowanceId: "tool",
+          allowanceUnit: "day",
+          taxable: true,
+          classification: trade,
+        },
+      });
+      ctx.note(`${key}: ${units}/${perWeek} days at $${weekly.toFixed(2)}/week`);
+    }
+
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
@@ -1 +1,150 @@
-// src/payroll/rules/allowancesTravel.ts
+// src/payroll_calc/rules/allowancesTravel.ts
+import type { PayRule } from "../pipeline";
+import { groupSegments } from "../segment";
+import type { GeoPoint, PayLine, Segment, TravelZone } from "../types";
+
+export const VEHICLE_ALLOWANCE_CATEGORY = "Vehicle allowance";
+export const FARES_CATEGORY = "Fares allowance";
+export const TRAVEL_TIME_CATEGORY = "Travel time";
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+/** Great-circle (straight-line) distance in km. No routing service: road distance is always a bit more. */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function isGeoPoint(v: unknown): v is GeoPoint {
+  const p = v as Partial<GeoPoint> | null | undefined;
+  const lat = typeof p?.lat === "number" ? p.lat : NaN;
+  const lng = typeof p?.lng === "number" ? p.lng : NaN;
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/** Zone a one-way distance falls in: fromKm inclusive, toKm exclusive. */
+export function travelZoneFor(km: number, zones: TravelZone[] = []): TravelZone | undefined {
+  return zones.find((z) => km >= Number(z.fromKm) && (z.toKm == null || km < Number(z.toKm)));
+}
+
+function zoneLabel(zone: TravelZone): string {
+  return String(zone.label ?? "").trim() || (zone.toKm == null ? `${zone.fromKm}km+` : `${zone.fromKm}-${zone.toKm}km`);
+}
+
+function positive(n: unknown): number {
+  const x = Number(n);
+  return Number.isFinite(x) && x > 0 ? x : 0;
+}
+
+type Trip = { jobCode: string; depot: string; km: number; segments: Segment[] };
+
+/**
+ * Travel from the employee's home depot to the job site (positions from PayrollSite).
+ * Per employee-day, the farthest site worked that day sets the trip, costed to its job:
+ *  - vehicle allowance: perKm x the return distance
+ *  - fares: the zone's flat fare for the one-way distance
+ *  - travel time: the zone's minutes, as hours at the ordinary rate or as a flat allowance line
+ * Distance is straight-line (haversine), so zones should be drawn with that in mind.
+ * Days on jobs without a site position, or for employees with no depot, pay no travel.
+ */
+export const travelAllowancesRule: PayRule = {
+  id: "allowancesTravel",
+  apply(state, ctx) {
+    const sites = ctx.input.sites ?? {};
+    const depots = ctx.input.depots ?? {};
+    const lines: PayLine[] = [];
+    const noDepot = new Set<string>();
+
+    for (const [key, day] of groupSegments(state.segments, (s) => `${s.employeeKey}|${s.date}`)) {
+      const first = day[0];
+      if (!first) continue;
+
+      const employee = ctx.employeeFor(first.employeeKey);
+      const trips = new Map<string, Trip>();
+
+      for (const seg of day) {
+        const config = ctx.rulesetFor(seg.jobCode).travel;
+        const site = sites[seg.jobCode];
+        if (!config || !isGeoPoint(site)) continue;
+
+        const depot = String(employee?.homeDepot ?? "").trim() || String(config.defaultDepot ?? "").trim();
+        const from = depots[depot];
+        if (!isGeoPoint(from)) {
+          noDepot.add(first.employeeName);
+          continue;
+        }
+
+        const trip = trips.get(seg.jobCode) ?? { jobCode: seg.jobCode, depot, km: haversineKm(from, site), segments: [] };
+        trip.segments.push(seg);
+        trips.set(seg.jobCode, trip);
+      }
+
+      const trip = Array.from(trips.values()).sort((a, b) => b.km - a.km)[0];
+      if (!trip) continue;
+      const travel = ctx.rulesetFor(trip.jobCode).travel!;
+      const km = Math.round(trip.km * 10) / 10;
+      const zone = travelZoneFor(trip.km, travel.zones);
+
+      const base: Omit<PayLine, "category"> = {
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode: trip.jobCode,
+        date: first.date,
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        sourceEntryIds: Array.from(new Set(trip.segments.map((s) => s.entryId))),
+        meta: { travelKm: km, depot: trip.depot, ...(zone ? { travelZone: zoneLabel(zone) } : {}) },
+      };
+
+      const perKm = positive(travel.perKm);
+      if (perKm) {
+        const returnKm = Math.round(trip.km * 2 * 10) / 10;
+        lines.push({
+          ...base,
+          category: String(travel.labels?.vehicle ?? "").trim() || VEHICLE_ALLOWANCE_CATEGORY,
+          units: returnKm,
+          unitRate: perKm,
+          meta: { ...base.meta, payCategory: "vehicleAllowance", allowanceUnit: "km" },
+          explain: [`${trip.depot} -> ${trip.jobCode} and back: ${returnKm}km x $${perKm.toFixed(2)}`],
+        });
+      }
+
+      const fare = positive(zone?.fare);
+      if (zone && fare) {
+        lines.push({
+          ...base,
+          category: String(travel.labels?.fare ?? "").trim() || FARES_CATEGORY,
+          units: 1,
+          unitRate: fare,
+          meta: { ...base.meta, payCategory: "faresAllowance", allowanceUnit: "trip" },
+          explain: [`${zoneLabel(zone)} (${km}km from ${trip.depot}): $${fare.toFixed(2)} fare`],
+        });
+      }
+
+      const minutes = Math.round(positive(zone?.travelMinutes));
+      if (zone && minutes) {
+        const category = String(travel.labels?.travelTime ?? "").trim() || TRAVEL_TIME_CATEGORY;
+        const explain = [`${zoneLabel(zone)} (${km}km from ${trip.depot}): ${minutes} min travel time`];
+        const travelMeta = { ...base.meta, payCategory: "travelTime" };
+        if (travel.travelTimePaidAs === "allowance") {
+          const rate = positive(travel.travelTimeRate) || positive(employee?.baseRate);
+          lines.push({ ...base, category, units: minutes / 60, unitRate: rate, explain, meta: travelMeta });
+        } else {
+          lines.push({ ...base, category, minutes, hours: minutes / 60, explain, meta: travelMeta });
+        }
+      }
+
+      ctx.note(`${key}: ${trip.jobCode} ${km}km from ${trip.depot}${zone ? ` (${zoneLabel(zone)})` : ""}`);
+    }
+
+    for (const name of noDepot) ctx.note(`${name}: no home depot position - no travel paid`);
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
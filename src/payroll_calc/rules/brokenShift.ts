@@ -1 +1,102 @@
-// src/payroll/rules/brokenShift.ts
+// src/payroll_calc/rules/brokenShift.ts
+import type { PayRule } from "../pipeline";
+import { splitSegmentAt } from "../segment";
+import { MS_PER_MINUTE } from "../time";
+import type { OvertimeTier, PayLine, Segment } from "../types";
+import { overtimeComponent } from "./overtimeDaily";
+import { type Engagement, engagementsFor } from "./minimumEngagement";
+
+export const BROKEN_SHIFT_CATEGORY = "Broken shift allowance";
+
+/** Longest unpaid gap between consecutive engagements of one day, in minutes. */
+function longestGapMinutes(day: Engagement[]): number {
+  let longest = 0;
+  for (let i = 1; i < day.length; i++) {
+    const prev = day[i - 1];
+    const next = day[i];
+    if (prev && next) longest = Math.max(longest, (next.startMs - prev.endMs) / MS_PER_MINUTE);
+  }
+  return Math.round(longest);
+}
+
+/**
+ * Broken (split) shifts: an employee-day with more than one engagement and an unpaid gap
+ * longer than minGapMinutes gets one allowance line, and any work after the allowed
+ * spread (counted from the day's first start) is tagged as overtime.
+ */
+export const brokenShiftRule: PayRule = {
+  id: "brokenShift",
+  apply(state, ctx) {
+    const byDay = new Map<string, Engagement[]>();
+    for (const engagement of engagementsFor(ctx)) {
+      const key = `${engagement.employeeKey}|${engagement.date}`;
+      byDay.set(key, [...(byDay.get(key) ?? []), engagement]);
+    }
+
+    const lines: PayLine[] = [];
+    // entryId -> instant after which the spread is exceeded, and the OT tier to pay
+    const spreadLimits = new Map<string, { endMs: number; tier: OvertimeTier; spread: number }>();
+
+    for (const [key, day] of byDay) {
+      const first = day[0]?.entries[0];
+      if (!first || day.length < 2) continue;
+
+      const ruleset = ctx.rulesetFor(first.jobCode);
+      const config = ruleset.brokenShift;
+      if (!config) continue;
+
+      const gap = longestGapMinutes(day);
+      if (gap <= Number(config.minGapMinutes)) continue;
+
+      const allowance = Number(config.allowance);
+      if (Number.isFinite(allowance) && allowance > 0) {
+        lines.push({
+          employeeId: first.employeeId,
+          employeeName: first.employeeName,
+          jobCode: first.jobCode,
+          date: first.date,
+          category: String(config.label ?? "").trim() || BROKEN_SHIFT_CATEGORY,
+          multiplier: 1,
+          minutes: 0,
+          hours: 0,
+          units: 1,
+          unitRate: allowance,
+          sourceEntryIds: day.flatMap((e) => e.entries.map((x) => x.id)),
+          explain: [`${day.length} engagements, ${gap} min unpaid gap`],
+          meta: { payCategory: "brokenShiftAllowance" },
+        });
+      }
+
+      const spread = Number(config.maxSpreadMinutes);
+      if (Number.isFinite(spread) && spread > 0) {
+        const tiers = ruleset.overtime.tiers;
+        const tier = config.spreadTier ?? tiers[tiers.length - 1] ?? { label: "OT2.0", multiplier: 2 };
+        const endMs = (day[0]?.startMs ?? first.startMs) + spread * MS_PER_MINUTE;
+        for (const engagement of day) {
+          for (const entry of engagement.entries) spreadLimits.set(entry.id, { endMs, tier, spread });
+        }
+      }
+
+      ctx.note(`${key}: broken shift (${day.length} engagements, ${gap} min gap)`);
+    }
+
+    const segments: Segment[] = state.segments.flatMap((seg) => {
+      const limit = spreadLimits.get(seg.entryId);
+      if (!limit || seg.endMs <= limit.endMs) return [seg];
+
+      return splitSegmentAt(seg, limit.endMs).map((piece) =>
+        piece.startMs >= limit.endMs
+          ? {
+              ...piece,
+              components: [
+                ...piece.components,
+                overtimeComponent(limit.tier, "brokenShift", `broken shift: outside ${limit.spread / 60}h spread`),
+              ],
+            }
+          : piece,
+      );
+    });
+
+    return { ...state, segments, lines: [...state.lines, ...lines] };
+  },
+};
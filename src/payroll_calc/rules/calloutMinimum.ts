@@ -1 +1,78 @@
-// src/payroll/rules/calloutMinimum.ts
+// src/payroll_calc/rules/calloutMinimum.ts
+import type { PayRule } from "../pipeline";
+import type { CompanyRuleset, PayLine, RateComponent, Segment } from "../types";
+import { type Engagement, engagementsFor } from "./minimumEngagement";
+
+export function calloutCode(multiplier: number): string {
+  return `CALLOUT${multiplier}`;
+}
+
+function calloutConfig(ruleset: CompanyRuleset): { minutes: number; multiplier: number; code: string } | null {
+  const minutes = Number(ruleset.callout?.minutes);
+  const multiplier = Number(ruleset.callout?.multiplier);
+  if (!Number.isFinite(minutes) || minutes <= 0 || !Number.isFinite(multiplier) || multiplier <= 0) return null;
+  return { minutes, multiplier, code: String(ruleset.callout?.label ?? "").trim() || calloutCode(multiplier) };
+}
+
+export function isCalloutEngagement(engagement: Engagement): boolean {
+  return engagement.isCallout;
+}
+
+/**
+ * Call-out minimum: entries flagged isCallout are paid at the call-out rate, and their
+ * engagement is topped up to the minimum (e.g. 4h at 1.5x) with a separate line. A call-out
+ * is its own engagement even straight after a regular shift, so the top-up only counts
+ * call-out minutes. Call-out minutes carry an "overtime" component so neither daily nor
+ * weekly OT counts them as ordinary; the top-up is a rule line and never counts towards OT thresholds.
+ */
+export const calloutMinimumRule: PayRule = {
+  id: "calloutMinimum",
+  apply(state, ctx) {
+    const calloutEntryIds = new Map<string, RateComponent>();
+    const lines: PayLine[] = [];
+
+    for (const engagement of engagementsFor(ctx)) {
+      if (!isCalloutEngagement(engagement)) continue;
+
+      const first = engagement.entries[0];
+      if (!first) continue;
+      const config = calloutConfig(ctx.rulesetFor(first.jobCode));
+      if (!config) continue;
+
+      for (const entry of engagement.entries) {
+        calloutEntryIds.set(entry.id, {
+          kind: "overtime",
+          code: config.code,
+          multiplier: config.multiplier,
+          rule: "calloutMinimum",
+          note: `call-out at ${config.multiplier}x`,
+        });
+      }
+
+      const topUp = Math.round(config.minutes - engagement.workedMinutes);
+      if (topUp > 0) {
+        lines.push({
+          employeeId: first.employeeId,
+          employeeName: first.employeeName,
+          jobCode: first.jobCode,
+          date: engagement.date,
+          category: config.code,
+          multiplier: config.multiplier,
+          minutes: topUp,
+          hours: topUp / 60,
+          sourceEntryIds: engagement.entries.map((e) => e.id),
+          explain: [`call-out: worked ${engagement.workedMinutes} min, minimum ${config.minutes} min`],
+          meta: { payCategory: "callout", callout: true, topUp: true },
+        });
+      }
+      ctx.note(`${engagement.employeeKey}|${engagement.date}: call-out ${engagement.workedMinutes} min, +${Math.max(0, topUp)} min top-up`);
+    }
+
+    const segments: Segment[] = state.segments.map((seg) => {
+      const component = calloutEntryIds.get(seg.entryId);
+      return component ? { ...seg, components: [...seg.components, component] } : seg;
+    });
+
+    return { ...state, segments, lines: [...state.lines, ...lines] };
+  },
+};
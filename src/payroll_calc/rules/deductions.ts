@@ -1 +1,111 @@
-// src/payroll/rules/deductions.ts
+// src/payroll_calc/rules/deductions.ts
+import { roundMoney, sumMoney } from "../money";
+import type { DeductionKind, DeductionSchedule, EngineInput, PayLine } from "../types";
+
+export const DEDUCTION_KINDS: DeductionKind[] = ["union", "salarySacrifice", "repayment", "childSupport", "other"];
+
+export const DEDUCTION_KIND_LABELS: Record<DeductionKind, string> = {
+  union: "Union fees",
+  salarySacrifice: "Salary sacrifice to super",
+  repayment: "Repayment (uniform, tools...)",
+  childSupport: "Child support garnishee",
+  other: "Other",
+};
+
+export function isDeductionKind(v: unknown): v is DeductionKind {
+  return typeof v === "string" && (DEDUCTION_KINDS as string[]).includes(v);
+}
+
+/** Whether a schedule runs on any day of the inclusive range. */
+export function deductionActive(d: Pick<DeductionSchedule, "startDate" | "endDate">, fromISO: string, toISO: string) {
+  return (!d.startDate || d.startDate <= toISO) && (!d.endDate || d.endDate >= fromISO);
+}
+
+/** The period's amount before it's limited to what the employee actually earned. */
+export function deductionAmount(d: DeductionSchedule, gross: number): number {
+  const raw = d.amountType === "percent" ? (gross * Number(d.amount)) / 100 : Number(d.amount);
+  const cap = Number(d.cap);
+  return roundMoney(Math.max(0, Number.isFinite(cap) && cap > 0 ? Math.min(raw, cap) : raw));
+}
+
+function describe(d: DeductionSchedule, gross: number): string {
+  const base = d.amountType === "percent" ? `${d.amount}% of $${gross.toFixed(2)} gross` : `$${Number(d.amount).toFixed(2)}`;
+  return `${DEDUCTION_KIND_LABELS[d.kind] ?? d.kind}: ${base}${d.cap ? `, capped at $${Number(d.cap).toFixed(2)}` : ""}`;
+}
+
+/**
+ * Deductions stage: recurring deductions -> negative pay lines, after costing so percentages
+ * see the period's real gross (every costed line for the employee, leave included).
+ * Pre-tax deductions (salary sacrifice) are taken before post-tax ones, and nothing takes pay
+ * below zero: a deduction that doesn't fit is cut down and reported. PAYG isn't worked out
+ * here, so post-tax deductions are only checked against gross.
+ * One line per schedule per employee, dated on the period's last day with no job.
+ */
+export function applyDeductions(
+  payLines: PayLine[],
+  input: EngineInput,
+): { payLines: PayLine[]; messages: string[] } {
+  const messages: string[] = [];
+  const out: PayLine[] = [];
+
+  const schedulesByEmployee = new Map<string, DeductionSchedule[]>();
+  for (const d of input.deductions ?? []) {
+    schedulesByEmployee.set(d.employeeId, [...(schedulesByEmployee.get(d.employeeId) ?? []), d]);
+  }
+
+  for (const [employeeId, schedules] of schedulesByEmployee) {
+    const earnings = payLines.filter((l) => l.employeeId === employeeId && !l.isDeduction);
+    const dates = earnings.map((l) => l.date).sort();
+    const from = input.period?.startISO ?? dates[0];
+    const to = input.period?.endISO ?? dates[dates.length - 1];
+    if (!from || !to) continue;
+
+    const active = schedules
+      .filter((d) => deductionActive(d, from, to))
+      .sort((a, b) => Number(b.preTax) - Number(a.preTax));
+    const first = earnings[0];
+    if (!active.length) continue;
+    if (!first) {
+      const name = input.employees.find((e) => e.id === employeeId)?.name ?? employeeId;
+      messages.push(`${name}: no pay this period - ${active.length} deduction(s) not taken`);
+      continue;
+    }
+
+    const gross = sumMoney(earnings.map((l) => l.cost ?? 0));
+    let left = gross;
+    for (const d of active) {
+      const wanted = deductionAmount(d, gross);
+      const amount = roundMoney(Math.min(wanted, Math.max(0, left)));
+      if (amount < wanted) messages.push(`${first.employeeName}: ${d.name} cut to $${amount.toFixed(2)} of $${wanted.toFixed(2)}`);
+      if (amount <= 0) continue;
+      left = roundMoney(left - amount);
+
+      out.push({
+        employeeId,
+        employeeName: first.employeeName,
+        jobCode: "",
+        date: to,
+        category: d.name,
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        units: 1,
+        unitRate: -amount,
+        baseRate: first.baseRate,
+        rateApplied: -amount,
+        cost: -amount,
+        isDeduction: true,
+        explain: [describe(d, gross), d.preTax ? "pre-tax" : "post-tax"],
+        meta: {
+          payCategory: "deduction",
+          deductionId: d.id ?? d.name,
+          deductionKind: d.kind,
+          preTax: Boolean(d.preTax),
+        },
+      });
+    }
+  }
+
+  if (out.length) messages.push(`${out.length} deductions, total $${sumMoney(out.map((l) => -(l.cost ?? 0))).toFixed(2)}`);
+  return { payLines: out, messages };
+}
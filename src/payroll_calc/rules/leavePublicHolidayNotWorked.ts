@@ -1 +1,79 @@
-// src/payroll/rules/leavePublicHolidayNotWorked.ts
+// src/payroll_calc/rules/leavePublicHolidayNotWorked.ts
+import { isCasual } from "../employment";
+import type { PayRule } from "../pipeline";
+import { dayOfWeekISO } from "../time";
+import type { EmployeeProfile, PayLine } from "../types";
+import { weeklyThresholdMinutes } from "./overtimeWeekly";
+import { publicHolidayCalendar } from "./publicHolidays";
+
+// Matches the Xero leave type name; isLeave lines go out as LeaveApplications (see push-timesheets)
+export const PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY = "Public Holiday (not worked)";
+
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5];
+
+/** The employee's usual days worked (0 Sun .. 6 Sat), Mon-Fri when unset. */
+export function workDaysOf(employee: Pick<EmployeeProfile, "workDays">): number[] {
+  const days = (employee.workDays ?? []).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+  return days.length ? Array.from(new Set(days)) : DEFAULT_WORK_DAYS;
+}
+
+/**
+ * Public holiday not worked: permanent staff get their ordinary hours for a holiday
+ * that falls on one of their usual work days, if they have no time on it.
+ * Hours per day = weekly ordinary hours / usual days worked.
+ * Casuals are skipped, as are no-timesheet staff (their synthetic hours already cover the day).
+ */
+export const leavePublicHolidayNotWorkedRule: PayRule = {
+  id: "leavePublicHolidayNotWorked",
+  apply(state, ctx) {
+    const dates = state.segments.map((s) => s.date).sort();
+    const fromISO = ctx.input.period?.startISO ?? dates[0];
+    const toISO = ctx.input.period?.endISO ?? dates[dates.length - 1];
+    if (!fromISO || !toISO) return state;
+
+    const calendar = publicHolidayCalendar(
+      fromISO,
+      toISO,
+      ctx.input.publicHolidays?.state,
+      ctx.input.publicHolidays?.overrides,
+    );
+    if (!calendar.size) return state;
+
+    const worked = new Set(state.segments.map((s) => `${s.employeeKey}|${s.date}`));
+    const lines: PayLine[] = [];
+
+    for (const employee of ctx.input.employees) {
+      if (isCasual(employee.employmentType)) {
+        ctx.note(`${employee.name}: casual, no holiday pay`);
+        continue;
+      }
+      if (employee.noTimesheets) continue;
+
+      const workDays = workDaysOf(employee);
+      const minutesPerDay = Math.round(weeklyThresholdMinutes(employee, ctx.input.ruleset) / workDays.length);
+      if (minutesPerDay <= 0) continue;
+
+      for (const [date, holiday] of calendar) {
+        if (!workDays.includes(dayOfWeekISO(date))) continue;
+        if (worked.has(`${employee.id}|${date}`)) continue;
+
+        lines.push({
+          employeeId: employee.id,
+          employeeName: employee.name,
+          jobCode: "",
+          date,
+          category: PUBLIC_HOLIDAY_NOT_WORKED_CATEGORY,
+          multiplier: 1,
+          minutes: minutesPerDay,
+          hours: minutesPerDay / 60,
+          isLeave: true,
+          explain: [`${holiday}: ${minutesPerDay / 60}h ordinary (${workDays.length}-day week, not worked)`],
+          meta: { payCategory: "publicHolidayNotWorked", publicHoliday: holiday },
+        });
+      }
+    }
+
+    if (lines.length) ctx.note(`${lines.length} public holiday (not worked) lines`);
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
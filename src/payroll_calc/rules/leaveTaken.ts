@@ -0,0 +1,42 @@
+// src/payroll_calc/rules/leaveTaken.ts
+import type { PayRule } from "../pipeline";
+import { isISODate } from "../time";
+import type { PayLine } from "../types";
+
+/**
+ * Leave taken: one ordinary-rate line per leave day in input.leave, category = the leave type
+ * (isLeave lines go out as LeaveApplications, see push-timesheets). Paid by the engine rather
+ * than added afterwards so leave is costed and counts towards the super base (rules/super.ts).
+ */
+export const leaveTakenRule: PayRule = {
+  id: "leaveTaken",
+  apply(state, ctx) {
+    const lines: PayLine[] = [];
+
+    for (const leave of ctx.input.leave ?? []) {
+      const minutes = Math.round(Number(leave.minutes));
+      if (!isISODate(leave.date) || !Number.isFinite(minutes) || minutes <= 0) {
+        ctx.note(`skipped ${leave.leaveType} for ${leave.employeeName ?? leave.employeeId}: bad date or minutes`);
+        continue;
+      }
+
+      const employee = ctx.employeeFor(leave.employeeId);
+      lines.push({
+        employeeId: leave.employeeId,
+        employeeName: employee?.name ?? leave.employeeName ?? leave.employeeId,
+        jobCode: leave.jobCode ?? "",
+        date: leave.date,
+        category: leave.leaveType,
+        multiplier: 1,
+        minutes,
+        hours: minutes / 60,
+        isLeave: true,
+        explain: [`${leave.leaveType}: ${minutes / 60}h`],
+        meta: { payCategory: "leave" },
+      });
+    }
+
+    if (lines.length) ctx.note(`${lines.length} leave lines`);
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
@@ -1 +1,112 @@
-// src/payroll/rules/loadingsCasual.ts
+// src/payroll_calc/rules/loadingsCasual.ts
+import { isCasual } from "../employment";
+import type { PayRule } from "../pipeline";
+import { groupSegments } from "../segment";
+import type { CompanyRuleset, PayLine, RateComponent, Segment } from "../types";
+
+export const CASUAL_LOADING_CATEGORY = "Casual loading";
+
+/** The ruleset's casual loading %, or 0 when it has none. */
+export function casualLoadingPercent(ruleset: CompanyRuleset): number {
+  const pct = Number(ruleset.casualLoading?.percent);
+  return Number.isFinite(pct) && pct > 0 ? pct : 0;
+}
+
+/** Code for compounded components, e.g. "CAS25" -> "OT1.5+CAS25". */
+function loadingCode(ruleset: CompanyRuleset, pct: number): string {
+  return String(ruleset.casualLoading?.label ?? "").trim() || `CAS${pct}`;
+}
+
+function roundMultiplier(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+/**
+ * Compound mode: every rate on the segment is scaled by the loading; a bare loading covers ordinary time.
+ * When the job's stacking mode already combines components (additive / compounding) only the bare
+ * loading is added and stacking folds it in, so it isn't applied twice.
+ */
+function compoundSegment(seg: Segment, pct: number, code: string, combines: boolean): Segment {
+  const factor = 1 + pct / 100;
+  const loaded: RateComponent[] = combines ? seg.components : seg.components.map((c) => ({
+    ...c,
+    code: `${c.code}+${code}`,
+    multiplier: roundMultiplier(c.multiplier * factor),
+    meta: { ...(c.meta ?? {}), casualLoading: pct },
+  }));
+  return {
+    ...seg,
+    components: [
+      ...loaded,
+      {
+        kind: "loading",
+        code,
+        multiplier: roundMultiplier(factor),
+        rule: "loadingsCasual",
+        note: `casual loading +${pct}%`,
+        meta: { casualLoading: pct },
+      },
+    ],
+  };
+}
+
+/**
+ * Casual loading for employees whose employment type is casual.
+ * The ruleset (company or job) picks how it is paid:
+ *  - "separate": segments are left alone and one flat line per employee/day/job pays
+ *    percent of the base rate for every hour worked, whatever rate those hours were at
+ *  - "compound": the loading is multiplied into each OT/penalty component so the
+ *    winning rate already includes it (runs after the OT/penalty rules for that reason),
+ *    or left to the stacking mode when that combines components itself
+ */
+export const loadingsCasualRule: PayRule = {
+  id: "loadingsCasual",
+  apply(state, ctx) {
+    const out: Segment[] = [];
+    const lines: PayLine[] = [];
+
+    for (const [key, group] of groupSegments(state.segments, (s) => `${s.employeeKey}|${s.date}|${s.jobCode}`)) {
+      const first = group[0];
+      if (!first) continue;
+
+      const employee = ctx.employeeFor(first.employeeKey);
+      const ruleset = ctx.rulesetFor(first.jobCode);
+      const pct = casualLoadingPercent(ruleset);
+      if (!employee || !isCasual(employee.employmentType) || !pct) {
+        out.push(...group);
+        continue;
+      }
+
+      const minutes = group.reduce((sum, s) => sum + s.minutes, 0);
+
+      if (ruleset.casualLoading?.mode === "compound") {
+        const code = loadingCode(ruleset, pct);
+        const mode = ruleset.stacking?.mode;
+        const combines = mode === "additive" || mode === "compounding";
+        out.push(...group.map((s) => compoundSegment(s, pct, code, combines)));
+        ctx.note(`${key}: ${minutes} min compounded with +${pct}% (${code})`);
+        continue;
+      }
+
+      out.push(...group);
+      lines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode: first.jobCode,
+        date: first.date,
+        category: String(ruleset.casualLoading?.label ?? "").trim() || CASUAL_LOADING_CATEGORY,
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        units: minutes / 60,
+        unitRate: (employee.baseRate * pct) / 100,
+        sourceEntryIds: Array.from(new Set(group.map((s) => s.entryId))),
+        explain: [`casual loading +${pct}% of $${employee.baseRate.toFixed(2)}/h over ${minutes} min worked`],
+        meta: { payCategory: "casualLoading", casualLoading: pct },
+      });
+      ctx.note(`${key}: +${pct}% over ${minutes} min as a separate line`);
+    }
+
+    return { ...state, segments: out, lines: [...state.lines, ...lines] };
+  },
+};
@@ -1 +1,148 @@
-// src/payroll/rules/loadingsRDO.ts
+// src/payroll_calc/rules/loadingsRDO.ts
+import { isCasual } from "../employment";
+import type { PayRule, RuleContext } from "../pipeline";
+import { groupSegments } from "../segment";
+import type { BalanceMovement, CompanyRuleset, NormalizedEntry, PayLine, Segment } from "../types";
+
+export const RDO_JOB_CODE = "RDO";
+export const RDO_TAKEN_CATEGORY = "RDO taken";
+
+function rdoJobCode(ruleset: CompanyRuleset): string {
+  return String(ruleset.rdo?.jobCode ?? "").trim() || RDO_JOB_CODE;
+}
+
+/** An entry booked to the RDO job: a day off drawn from the balance, not work. */
+export function isRdoEntry(ctx: RuleContext, entry: Pick<NormalizedEntry, "jobCode">): boolean {
+  const { ruleset } = ctx.input;
+  return Boolean(ruleset.rdo) && entry.jobCode.trim().toUpperCase() === rdoJobCode(ruleset).toUpperCase();
+}
+
+/** Minutes banked for a day's ordinary minutes: pro-rata to a full ordinary day, never more than one day's accrual. */
+export function rdoAccrualMinutes(ordinaryMinutes: number, ruleset: CompanyRuleset): number {
+  const perDay = Number(ruleset.rdo?.accrualMinutesPerDay);
+  const fullDay = Number(ruleset.overtime.ordinaryMinutesPerDay);
+  if (!Number.isFinite(perDay) || perDay <= 0 || !Number.isFinite(fullDay) || fullDay <= 0) return 0;
+  return Math.round((Math.min(ordinaryMinutes, fullDay) / fullDay) * perDay);
+}
+
+/**
+ * RDO taken. Runs first so the day off never counts as worked time: segments from
+ * entries on the RDO job are pulled out and paid as one ordinary-rate line per
+ * employee/day, drawing the same minutes down from the RDO balance.
+ */
+export const rdoTakenRule: PayRule = {
+  id: "rdoTaken",
+  apply(state, ctx) {
+    const config = ctx.input.ruleset.rdo;
+    if (!config) return state;
+
+    const rdoEntryIds = new Set(ctx.entries.filter((e) => isRdoEntry(ctx, e)).map((e) => e.id));
+    if (!rdoEntryIds.size) return state;
+
+    const kept: Segment[] = [];
+    const taken: Segment[] = [];
+    for (const seg of state.segments) (rdoEntryIds.has(seg.entryId) ? taken : kept).push(seg);
+
+    const lines: PayLine[] = [];
+    const movements: BalanceMovement[] = [];
+
+    for (const [key, day] of groupSegments(taken, (s) => `${s.employeeKey}|${s.date}`)) {
+      const first = day[0];
+      if (!first) continue;
+      const minutes = day.reduce((sum, s) => sum + s.minutes, 0);
+
+      lines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode: first.jobCode,
+        date: first.date,
+        category: String(config.label ?? "").trim() || RDO_TAKEN_CATEGORY,
+        multiplier: 1,
+        minutes,
+        hours: minutes / 60,
+        sourceEntryIds: Array.from(new Set(day.map((s) => s.entryId))),
+        explain: [`rostered day off: ${minutes} min from the RDO balance`],
+        meta: { payCategory: "rdoTaken", rdoMinutes: -minutes },
+      });
+      movements.push({
+        employeeId: first.employeeKey,
+        employeeName: first.employeeName,
+        kind: "rdo",
+        date: first.date,
+        minutes: -minutes,
+        reason: "taken",
+        rule: "rdoTaken",
+      });
+      ctx.note(`${key}: ${minutes} min RDO taken`);
+    }
+
+    return {
+      segments: kept,
+      lines: [...state.lines, ...lines],
+      movements: [...state.movements, ...movements],
+    };
+  },
+};
+
+/**
+ * RDO accrual. Runs after the OT rules: only ordinary minutes (no overtime component)
+ * on jobs whose ruleset has RDOs bank time, per employee per day. Casuals don't accrue.
+ * Then walks each employee's balance through the period and flags any RDO taken
+ * that leaves it negative (the line is still paid; payroll decides what to do).
+ */
+export const rdoAccrualRule: PayRule = {
+  id: "rdoAccrual",
+  apply(state, ctx) {
+    const movements: BalanceMovement[] = [];
+
+    for (const [key, day] of groupSegments(state.segments, (s) => `${s.employeeKey}|${s.date}`)) {
+      const first = day[0];
+      if (!first) continue;
+      const employee = ctx.employeeFor(first.employeeKey);
+      if (isCasual(employee?.employmentType) || employee?.noTimesheets) continue;
+
+      const accruing = day.filter((s) => ctx.rulesetFor(s.jobCode).rdo);
+      const ruleset = accruing[0] && ctx.rulesetFor(accruing[0].jobCode);
+      if (!ruleset) continue;
+
+      const ordinary = accruing
+        .filter((s) => !s.components.some((c) => c.kind === "overtime"))
+        .reduce((sum, s) => sum + s.minutes, 0);
+      const minutes = rdoAccrualMinutes(ordinary, ruleset);
+      if (minutes <= 0) continue;
+
+      movements.push({
+        employeeId: first.employeeKey,
+        employeeName: first.employeeName,
+        kind: "rdo",
+        date: first.date,
+        minutes,
+        reason: "accrued",
+        rule: "rdoAccrual",
+      });
+      ctx.note(`${key}: ${minutes} min accrued from ${ordinary} ordinary min`);
+    }
+
+    const all = [...state.movements, ...movements];
+    const lines = state.lines.map((line) => {
+      if (typeof line.meta?.rdoMinutes !== "number" || line.meta.rdoMinutes >= 0) return line;
+
+      // Balance after this day off: opening + every RDO movement up to and including its date
+      const employeeId = line.employeeId ?? line.employeeName;
+      const opening = Number(ctx.input.balances?.[employeeId]?.rdo ?? 0) || 0;
+      const balance = all
+        .filter((m) => m.kind === "rdo" && m.employeeId === employeeId && m.date <= line.date)
+        .reduce((sum, m) => sum + m.minutes, opening);
+      if (balance >= 0) return line;
+
+      ctx.note(`${line.employeeName} ${line.date}: RDO balance negative (${balance} min)`);
+      return {
+        ...line,
+        explain: [...(line.explain ?? []), `RDO balance negative after this day: ${(balance / 60).toFixed(2)}h`],
+        meta: { ...line.meta, rdoNegative: true },
+      };
+    });
+
+    return { ...state, lines, movements: all };
+  },
+};
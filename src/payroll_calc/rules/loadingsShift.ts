@@ -1 +1,89 @@
-// src/payroll/rules/loadingsShift.ts
+// src/payroll_calc/rules/loadingsShift.ts
+import type { PayRule } from "../pipeline";
+import { inClockWindow, zonedParts } from "../time";
+import type { CompanyRuleset, NormalizedEntry, RateComponent, ShiftBand, ShiftClass, Segment } from "../types";
+
+export const SHIFT_CLASSES: ShiftClass[] = ["day", "afternoon", "night", "permanentNight"];
+
+// Start 05:00-11:59 day, 12:00-17:59 afternoon, 18:00-04:59 night
+export const DEFAULT_SHIFT_BANDS: ShiftBand[] = [
+  { shift: "day", startMinute: 5 * 60, endMinute: 12 * 60 },
+  { shift: "afternoon", startMinute: 12 * 60, endMinute: 18 * 60 },
+  { shift: "night", startMinute: 18 * 60, endMinute: 5 * 60 },
+];
+
+const SHIFT_CODES: Record<ShiftClass, string> = {
+  day: "DAYSHIFT",
+  afternoon: "AFTSHIFT",
+  night: "NIGHTSHIFT",
+  permanentNight: "PERMNIGHT",
+};
+
+export function isShiftClass(v: unknown): v is ShiftClass {
+  return typeof v === "string" && (SHIFT_CLASSES as string[]).includes(v);
+}
+
+/** Default category for a shift loading, e.g. "NIGHTSHIFT30" (Xero: "Night Shift" earnings rate). */
+export function shiftLoadingCode(shift: ShiftClass, percent: number): string {
+  return `${SHIFT_CODES[shift]}${percent}`;
+}
+
+/** Classification from the shift's local start time; no matching band = day shift. */
+export function shiftClassAt(minuteOfDay: number, bands: ShiftBand[] = DEFAULT_SHIFT_BANDS): ShiftClass {
+  return bands.find((b) => inClockWindow(minuteOfDay, b.startMinute, b.endMinute))?.shift ?? "day";
+}
+
+function loadingComponent(ruleset: CompanyRuleset, shift: ShiftClass): RateComponent | null {
+  const config = ruleset.shiftLoadings?.loadings[shift];
+  const pct = Number(config?.percent);
+  if (!config || !Number.isFinite(pct) || pct <= 0) return null;
+  return {
+    kind: "loading",
+    code: String(config.label ?? "").trim() || shiftLoadingCode(shift, pct),
+    multiplier: 1 + pct / 100,
+    rule: "loadingsShift",
+    note: `${shift} shift: +${pct}% on the whole shift`,
+    meta: { shift },
+  };
+}
+
+/**
+ * Shift loadings for rostered shift workers. Unlike time-of-day penalties, which only
+ * load the minutes inside a clock window, the whole shift (entry) gets one loading,
+ * picked by classification: the employee's declared class, else the job's, else the
+ * band the shift's local start time falls in. Every component on the shift's segments
+ * is tagged with the class so the pay line carries it whichever rate wins.
+ */
+export const loadingsShiftRule: PayRule = {
+  id: "loadingsShift",
+  apply(state, ctx) {
+    const entriesById = new Map<string, NormalizedEntry>(ctx.entries.map((e) => [e.id, e]));
+    const shiftByEntry = new Map<string, ShiftClass>();
+    const minutesByCode = new Map<string, number>();
+    const out: Segment[] = [];
+
+    for (const seg of state.segments) {
+      const ruleset = ctx.rulesetFor(seg.jobCode);
+      const entry = entriesById.get(seg.entryId);
+      if (!ruleset.shiftLoadings || !entry) {
+        out.push(seg);
+        continue;
+      }
+
+      let shift = shiftByEntry.get(entry.id);
+      if (!shift) {
+        const declared = ctx.employeeFor(entry.employeeKey)?.shiftClass ?? ruleset.shiftClass;
+        shift = declared ?? shiftClassAt(zonedParts(entry.startMs, entry.timezone).minuteOfDay, ruleset.shiftLoadings.bands);
+        shiftByEntry.set(entry.id, shift);
+      }
+
+      const loading = loadingComponent(ruleset, shift);
+      const tagged = seg.components.map((c) => ({ ...c, meta: { ...(c.meta ?? {}), shift } }));
+      if (loading) minutesByCode.set(loading.code, (minutesByCode.get(loading.code) ?? 0) + seg.minutes);
+      out.push({ ...seg, components: loading ? [...tagged, loading] : tagged });
+    }
+
+    for (const [code, minutes] of minutesByCode) ctx.note(`${code}: ${minutes} min`);
+    return { ...state, segments: out };
+  },
+};
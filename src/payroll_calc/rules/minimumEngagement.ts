@@ -1 +1,132 @@
-// src/payroll/rules/minimumEngagement.ts
+// src/payroll_calc/rules/minimumEngagement.ts
+import { isCasual, isEngagedHourly, pickByEmploymentType } from "../employment";
+import type { PayRule, RuleContext } from "../pipeline";
+import { MS_PER_MINUTE } from "../time";
+import { casualLoadingPercent } from "./loadingsCasual";
+import { isRdoEntry } from "./loadingsRDO";
+import { isToilEntry } from "./toil";
+import type { NormalizedEntry, PayLine } from "../types";
+
+export const DEFAULT_MERGE_GAP_MINUTES = 60;
+export const MINIMUM_ENGAGEMENT_CATEGORY = "Minimum engagement";
+
+/** One stint of work: an employee's same-day entries that run into each other. */
+export type Engagement = {
+  employeeKey: string;
+  date: string; // local date the first entry started on
+  isCallout: boolean; // call-outs are never merged with regular work (rules/calloutMinimum.ts)
+  entries: NormalizedEntry[];
+  startMs: number;
+  endMs: number;
+  workedMinutes: number;
+};
+
+/**
+ * Merge each employee's entries into engagements. Entries starting on the same local day
+ * join the previous engagement when they start within `gapMinutes` of its end, unless one
+ * is a call-out and the other isn't: a call-out has its own minimum, whatever came before it.
+ */
+export function engagementsOf(
+  entries: NormalizedEntry[],
+  gapMinutes: (entry: NormalizedEntry) => number = () => DEFAULT_MERGE_GAP_MINUTES,
+): Engagement[] {
+  const sorted = [...entries].sort(
+    (a, b) => a.employeeKey.localeCompare(b.employeeKey) || a.startMs - b.startMs || a.id.localeCompare(b.id),
+  );
+
+  const out: Engagement[] = [];
+  for (const entry of sorted) {
+    const last = out[out.length - 1];
+    const joins =
+      last?.employeeKey === entry.employeeKey &&
+      last.date === entry.date &&
+      last.isCallout === entry.isCallout &&
+      entry.startMs - last.endMs <= gapMinutes(entry) * MS_PER_MINUTE;
+
+    if (last && joins) {
+      last.entries.push(entry);
+      last.endMs = Math.max(last.endMs, entry.endMs);
+      last.workedMinutes += entry.workedMinutes;
+      continue;
+    }
+
+    out.push({
+      employeeKey: entry.employeeKey,
+      date: entry.date,
+      isCallout: entry.isCallout,
+      entries: [entry],
+      startMs: entry.startMs,
+      endMs: entry.endMs,
+      workedMinutes: entry.workedMinutes,
+    });
+  }
+
+  return out;
+}
+
+/** Engagements (RDO and TOIL days aren't work) using each entry's job ruleset for the merge gap. */
+export function engagementsFor(ctx: RuleContext): Engagement[] {
+  const worked = ctx.entries.filter((e) => !isRdoEntry(ctx, e) && !isToilEntry(ctx, e));
+  return engagementsOf(worked, (entry) => {
+    const gap = Number(ctx.rulesetFor(entry.jobCode).minimumEngagement?.mergeGapMinutes);
+    return Number.isFinite(gap) && gap >= 0 ? gap : DEFAULT_MERGE_GAP_MINUTES;
+  });
+}
+
+/**
+ * Minimum engagement: an engagement shorter than the minimum for the employee's type
+ * (or the job's ruleset) gets a top-up line for the difference. The ruleset-wide minimum
+ * only covers casuals and part-timers; other types get one only from `byEmploymentType`. The top-up is a rule
+ * line, not a segment, so it never counts towards daily or weekly OT thresholds. Casual loading
+ * never sees a line (it loads segments), so casuals get theirs on the top-up's multiplier here.
+ */
+export const minimumEngagementRule: PayRule = {
+  id: "minimumEngagement",
+  apply(state, ctx) {
+    const lines: PayLine[] = [];
+
+    for (const engagement of engagementsFor(ctx)) {
+      const first = engagement.entries[0];
+      if (!first) continue;
+
+      const ruleset = ctx.rulesetFor(first.jobCode);
+      const config = ruleset.minimumEngagement;
+      if (!config) continue;
+
+      // Call-outs have their own minimum (rules/calloutMinimum.ts)
+      if (ruleset.callout && engagement.isCallout) continue;
+
+      const employee = ctx.employeeFor(engagement.employeeKey);
+      const ownMinimum = pickByEmploymentType(config.byEmploymentType, employee?.employmentType);
+      const minimum = Number(ownMinimum ?? (isEngagedHourly(employee?.employmentType) ? config.minutes : undefined));
+      if (!Number.isFinite(minimum) || minimum <= engagement.workedMinutes) continue;
+
+      const topUp = Math.round(minimum - engagement.workedMinutes);
+      const loading = isCasual(employee?.employmentType) ? casualLoadingPercent(ruleset) : 0;
+      const explain = [`worked ${engagement.workedMinutes} min, minimum engagement ${minimum} min`];
+      if (loading) explain.push(`casual loading +${loading}%`);
+
+      lines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode: first.jobCode,
+        date: engagement.date,
+        category: String(config.label ?? "").trim() || MINIMUM_ENGAGEMENT_CATEGORY,
+        multiplier: 1 + loading / 100,
+        minutes: topUp,
+        hours: topUp / 60,
+        sourceEntryIds: engagement.entries.map((e) => e.id),
+        explain,
+        meta: {
+          payCategory: "minimumEngagement",
+          engagementMinutes: engagement.workedMinutes,
+          minimumMinutes: minimum,
+          ...(loading ? { casualLoading: loading } : {}),
+        },
+      });
+      ctx.note(`${engagement.employeeKey}|${engagement.date}: +${topUp} min top-up to ${minimum} min`);
+    }
+
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
@@ -1 +1,191 @@
-// src/payroll/rules/miningAllowances.ts
+// src/payroll_calc/rules/miningAllowances.ts
+import type { PayRule } from "../pipeline";
+import { daysBetweenISO } from "../time";
+import type { CompanyRuleset, MiningSite, NormalizedEntry, PayLine, Segment } from "../types";
+import { busiestJob } from "./allowances";
+
+export const SITE_ALLOWANCE_CATEGORY = "Site allowance";
+export const DISTRICT_ALLOWANCE_CATEGORY = "District allowance";
+export const LIVING_AWAY_CATEGORY = "Living away allowance";
+export const TRAVEL_DAY_CATEGORY = "FIFO travel";
+
+/** The configured site a slice of work is on: its entry's site first, then its job code (any case). */
+export function miningSiteFor(
+  ruleset: CompanyRuleset,
+  keys: Array<string | undefined>,
+): { code: string; site: MiningSite } | undefined {
+  const sites = Object.entries(ruleset.miningSites ?? {});
+  for (const key of keys) {
+    const k = String(key ?? "").trim().toLowerCase();
+    const hit = k ? sites.find(([code]) => code.trim().toLowerCase() === k) : undefined;
+    if (hit) return { code: hit[0], site: hit[1] };
+  }
+  return undefined;
+}
+
+/** Split sorted YYYY-MM-DD dates into runs of consecutive days. */
+export function contiguousRuns(dates: string[]): string[][] {
+  const runs: string[][] = [];
+  for (const date of dates) {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (run && last && daysBetweenISO(last, date) === 1) run.push(date);
+    else runs.push([date]);
+  }
+  return runs;
+}
+
+function positive(n: unknown): number {
+  const x = Number(n);
+  return Number.isFinite(x) && x > 0 ? x : 0;
+}
+
+function label(value: string | undefined, fallback: string): string {
+  return String(value ?? "").trim() || fallback;
+}
+
+type SiteWork = { code: string; site: MiningSite; segments: Segment[] };
+
+/**
+ * FIFO / remote site allowances. A swing is a run of consecutive days an employee works on
+ * one configured site; each swing pays, per the site's config:
+ *  - site and district allowance per day worked
+ *  - living away (LAFHA-style) per night on site: every swing day but the fly-out day
+ *  - travel on the fly-in and fly-out days, as ordinary-rate travel time and/or a flat amount
+ * A swing running into the pay period's first or last day is taken to carry on past it, so the
+ * fly-in / fly-out that falls in the neighbouring period isn't paid twice.
+ * Day and night lines are one per swing (units = days / nights), costed to the swing's busiest job.
+ */
+export const miningAllowancesRule: PayRule = {
+  id: "miningAllowances",
+  apply(state, ctx) {
+    const entriesById = new Map<string, NormalizedEntry>(ctx.entries.map((e) => [e.id, e]));
+    const bySite = new Map<string, SiteWork>();
+
+    for (const seg of state.segments) {
+      const ruleset = ctx.rulesetFor(seg.jobCode);
+      if (!ruleset.miningSites) continue;
+      const hit = miningSiteFor(ruleset, [entriesById.get(seg.entryId)?.source.site, seg.jobCode]);
+      if (!hit) continue;
+
+      const k = `${seg.employeeKey}|${hit.code}`;
+      const group = bySite.get(k) ?? { ...hit, segments: [] };
+      group.segments.push(seg);
+      bySite.set(k, group);
+    }
+
+    const period = ctx.input.period;
+    const lines: PayLine[] = [];
+
+    for (const group of bySite.values()) {
+      // Days on site by shift start, so a night swing of 14 shifts is 14 days, not 15 calendar dates
+      const dates = Array.from(new Set(group.segments.map((s) => s.shiftDate))).sort();
+
+      for (const swingDates of contiguousRuns(dates)) {
+        const segments = group.segments.filter((s) => swingDates.includes(s.shiftDate));
+        const first = segments[0];
+        const start = swingDates[0];
+        const end = swingDates[swingDates.length - 1];
+        if (!first || !start || !end) continue;
+
+        const { code, site } = group;
+        const days = swingDates.length;
+        const flyIn = start !== period?.startISO;
+        const flyOut = end !== period?.endISO;
+        const nights = days - (flyOut ? 1 : 0);
+
+        const rostered = positive(site.swingDays);
+        const overrun = rostered > 0 && days > rostered;
+        const swingNote = `${label(site.name, code)} swing ${start}..${end}: ${days} days, ${nights} nights`;
+        const explain = [
+          swingNote,
+          ...(overrun ? [`longer than the rostered ${rostered}-day swing`] : []),
+          ...(!flyIn ? ["swing runs from the start of the pay period"] : []),
+          ...(!flyOut ? ["swing runs past the end of the pay period"] : []),
+        ];
+
+        const base: Omit<PayLine, "category"> = {
+          employeeId: first.employeeId,
+          employeeName: first.employeeName,
+          jobCode: busiestJob(segments),
+          date: end,
+          multiplier: 1,
+          minutes: 0,
+          hours: 0,
+          sourceEntryIds: Array.from(new Set(segments.map((s) => s.entryId))),
+          explain,
+          meta: { miningSite: code, swingStart: start, swingDays: days, ...(overrun ? { swingOverrun: true } : {}) },
+        };
+
+        const perDay = [
+          {
+            rate: positive(site.siteAllowance),
+            category: label(site.labels?.site, SITE_ALLOWANCE_CATEGORY),
+            payCategory: "siteAllowance",
+          },
+          {
+            rate: positive(site.districtAllowance),
+            category: label(site.labels?.district, DISTRICT_ALLOWANCE_CATEGORY),
+            payCategory: "districtAllowance",
+          },
+        ];
+        for (const { rate, category, payCategory } of perDay) {
+          if (!rate) continue;
+          lines.push({
+            ...base,
+            category,
+            units: days,
+            unitRate: rate,
+            meta: { ...base.meta, payCategory, allowanceUnit: "day", taxable: true },
+          });
+        }
+
+        const lafha = positive(site.livingAwayPerNight);
+        if (lafha && nights > 0) {
+          lines.push({
+            ...base,
+            category: label(site.labels?.livingAway, LIVING_AWAY_CATEGORY),
+            units: nights,
+            unitRate: lafha,
+            meta: { ...base.meta, payCategory: "livingAwayAllowance", allowanceUnit: "night", taxable: false },
+          });
+        }
+
+        // Fly-in / fly-out: a one-day swing travels both ways on the same day
+        const travelDates = Array.from(new Set([...(flyIn ? [start] : []), ...(flyOut ? [end] : [])]));
+        const travelMinutes = Math.round(positive(site.travelDay?.minutes));
+        const travelAllowance = positive(site.travelDay?.allowance);
+        const travelCategory = label(site.labels?.travel, TRAVEL_DAY_CATEGORY);
+        for (const date of travelDates) {
+          const travelExplain = [`${date === start ? "fly-in" : "fly-out"} day, ${swingNote}`];
+          if (travelMinutes) {
+            lines.push({
+              ...base,
+              date,
+              category: travelCategory,
+              minutes: travelMinutes,
+              hours: travelMinutes / 60,
+              explain: travelExplain,
+              meta: { ...base.meta, payCategory: "fifoTravel" },
+            });
+          }
+          if (travelAllowance) {
+            lines.push({
+              ...base,
+              date,
+              category: `${travelCategory} allowance`,
+              units: 1,
+              unitRate: travelAllowance,
+              explain: travelExplain,
+              meta: { ...base.meta, payCategory: "fifoTravelAllowance", allowanceUnit: "day", taxable: true },
+            });
+          }
+        }
+
+        ctx.note(`${first.employeeName}: ${swingNote}${overrun ? " (over roster)" : ""}`);
+      }
+    }
+
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
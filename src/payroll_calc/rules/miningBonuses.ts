@@ -1 +1,286 @@
-// src/payroll/rules/miningBonuses.ts
+// src/payroll_calc/rules/miningBonuses.ts
+import type { PayRule } from "../pipeline";
+import { daysBetweenISO } from "../time";
+import type { NormalizedEntry, PayLine, Segment } from "../types";
+import { busiestJob } from "./allowances";
+
+// Always available to a formula alongside the site's metrics
+export const BONUS_BUILTIN_VARIABLES = ["daysAttended", "periodDays"] as const;
+
+type BonusFunction = (...args: number[]) => number;
+
+// A Map, not an object literal: a formula calling "constructor" or "toString" must not find Object.prototype
+const FUNCTIONS = new Map<string, BonusFunction>([
+  ["min", (...a) => Math.min(...a)],
+  ["max", (...a) => Math.max(...a)],
+  ["round", (a = 0) => Math.round(a)],
+  ["floor", (a = 0) => Math.floor(a)],
+  ["ceil", (a = 0) => Math.ceil(a)],
+]);
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "var"; name: string }
+  | { kind: "call"; fn: BonusFunction; args: Node[] }
+  | { kind: "neg"; arg: Node }
+  | { kind: "bin"; op: string; left: Node; right: Node }
+  | { kind: "if"; test: Node; then: Node; else: Node };
+
+const TOKEN = /\s*(\d+(?:\.\d+)?|[A-Za-z_]\w*|>=|<=|==|!=|[-+*/()<>?:,])/y;
+
+function tokenize(src: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < src.length) {
+    const at = TOKEN.lastIndex;
+    const m = TOKEN.exec(src);
+    if (!m?.[1]) {
+      if (!src.slice(at).trim()) break;
+      throw new Error(`Unexpected "${src.slice(at).trim()[0]}" in formula`);
+    }
+    tokens.push(m[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Small arithmetic language for bonus formulas (no eval): numbers, metric names, + - * /,
+ * comparisons (1 or 0), `test ? a : b`, parentheses and min / max / round / floor / ceil.
+ */
+function parse(src: string): Node {
+  const tokens = tokenize(src);
+  let i = 0;
+  const peek = () => tokens[i];
+  const take = (expected?: string) => {
+    const t = tokens[i];
+    if (t === undefined || (expected && t !== expected)) {
+      throw new Error(expected ? `Expected "${expected}" in formula` : "Formula ends early");
+    }
+    i++;
+    return t;
+  };
+
+  const conditional = (): Node => {
+    const test = comparison();
+    if (peek() !== "?") return test;
+    take("?");
+    const then = conditional();
+    take(":");
+    return { kind: "if", test, then, else: conditional() };
+  };
+  const comparison = (): Node => {
+    const left = additive();
+    const op = peek();
+    if (op && [">", "<", ">=", "<=", "==", "!="].includes(op)) {
+      take();
+      return { kind: "bin", op, left, right: additive() };
+    }
+    return left;
+  };
+  const additive = (): Node => {
+    let node = multiplicative();
+    while (peek() === "+" || peek() === "-") node = { kind: "bin", op: take(), left: node, right: multiplicative() };
+    return node;
+  };
+  const multiplicative = (): Node => {
+    let node = unary();
+    while (peek() === "*" || peek() === "/") node = { kind: "bin", op: take(), left: node, right: unary() };
+    return node;
+  };
+  const unary = (): Node => {
+    if (peek() === "-") {
+      take();
+      return { kind: "neg", arg: unary() };
+    }
+    return primary();
+  };
+  const primary = (): Node => {
+    const t = take();
+    if (t === "(") {
+      const inner = conditional();
+      take(")");
+      return inner;
+    }
+    if (/^\d/.test(t)) return { kind: "num", value: Number(t) };
+    if (!/^[A-Za-z_]/.test(t)) throw new Error(`Unexpected "${t}" in formula`);
+    if (peek() !== "(") return { kind: "var", name: t };
+
+    const fn = FUNCTIONS.get(t);
+    if (!fn) throw new Error(`Unknown function "${t}"`);
+    take("(");
+    const args: Node[] = [];
+    if (peek() !== ")") {
+      args.push(conditional());
+      while (peek() === ",") {
+        take(",");
+        args.push(conditional());
+      }
+    }
+    take(")");
+    return { kind: "call", fn, args };
+  };
+
+  const node = conditional();
+  if (i < tokens.length) throw new Error(`Unexpected "${tokens[i]}" in formula`);
+  return node;
+}
+
+function variablesOf(node: Node, out: Set<string>): Set<string> {
+  if (node.kind === "var") out.add(node.name);
+  if (node.kind === "call") node.args.forEach((a) => variablesOf(a, out));
+  if (node.kind === "neg") variablesOf(node.arg, out);
+  if (node.kind === "bin") [node.left, node.right].forEach((a) => variablesOf(a, out));
+  if (node.kind === "if") [node.test, node.then, node.else].forEach((a) => variablesOf(a, out));
+  return out;
+}
+
+function evaluate(node: Node, vars: Record<string, number>): number {
+  switch (node.kind) {
+    case "num":
+      return node.value;
+    case "var": {
+      const v = Object.hasOwn(vars, node.name) ? vars[node.name] : undefined;
+      if (v === undefined) throw new Error(`No value for "${node.name}"`);
+      return v;
+    }
+    case "call":
+      return node.fn(...node.args.map((a) => evaluate(a, vars)));
+    case "neg":
+      return -evaluate(node.arg, vars);
+    case "if":
+      return evaluate(node.test, vars) ? evaluate(node.then, vars) : evaluate(node.else, vars);
+    case "bin": {
+      const a = evaluate(node.left, vars);
+      const b = evaluate(node.right, vars);
+      if (node.op === "+") return a + b;
+      if (node.op === "-") return a - b;
+      if (node.op === "*") return a * b;
+      if (node.op === "/") return b === 0 ? 0 : a / b;
+      if (node.op === ">") return Number(a > b);
+      if (node.op === "<") return Number(a < b);
+      if (node.op === ">=") return Number(a >= b);
+      if (node.op === "<=") return Number(a <= b);
+      if (node.op === "==") return Number(a === b);
+      return Number(a !== b);
+    }
+  }
+}
+
+/** Parse a bonus formula; throws with a readable message when it's malformed. */
+export function compileBonusFormula(formula: string): {
+  variables: string[];
+  evaluate: (vars: Record<string, number>) => number;
+} {
+  const node = parse(String(formula ?? ""));
+  return {
+    variables: Array.from(variablesOf(node, new Set())),
+    evaluate: (vars) => evaluate(node, vars),
+  };
+}
+
+function sameSite(a: string | undefined, b: string): boolean {
+  return String(a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function metricsFor(site: string, siteMetrics: Record<string, Record<string, number>>): Record<string, number> {
+  return Object.entries(siteMetrics).find(([code]) => sameSite(code, site))?.[1] ?? {};
+}
+
+function failed(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Site bonus schemes (production, safety, attendance). Each scheme's formula is worked out per
+ * employee from the metrics entered against its site for the pay period, plus how many days that
+ * employee worked on the site. Employees under the scheme's minDaysAttended get nothing.
+ * One line per employee per scheme, dated on their last day on site and costed to their busiest job;
+ * `meta.ote` says whether super is paid on it.
+ */
+export const miningBonusesRule: PayRule = {
+  id: "miningBonuses",
+  apply(state, ctx) {
+    const schemes = ctx.input.bonusSchemes ?? [];
+    if (!schemes.length) return state;
+
+    const entriesById = new Map<string, NormalizedEntry>(ctx.entries.map((e) => [e.id, e]));
+    const period = ctx.input.period;
+    const lines: PayLine[] = [];
+
+    for (const scheme of schemes) {
+      const site = String(scheme.site ?? "").trim();
+      let formula: ReturnType<typeof compileBonusFormula>;
+      try {
+        formula = compileBonusFormula(scheme.formula);
+      } catch (e) {
+        ctx.note(`${scheme.name}: ${failed(e)} - not paid`);
+        continue;
+      }
+
+      const byEmployee = new Map<string, Segment[]>();
+      for (const seg of state.segments) {
+        if (!sameSite(entriesById.get(seg.entryId)?.source.site, site) && !sameSite(seg.jobCode, site)) continue;
+        byEmployee.set(seg.employeeKey, [...(byEmployee.get(seg.employeeKey) ?? []), seg]);
+      }
+
+      const metrics = metricsFor(site, ctx.input.siteMetrics ?? {});
+      for (const segments of byEmployee.values()) {
+        const first = segments[0];
+        const dates = Array.from(new Set(segments.map((s) => s.shiftDate))).sort();
+        const last = dates[dates.length - 1];
+        if (!first || !last) continue;
+
+        const daysAttended = dates.length;
+        const minDays = Number(scheme.minDaysAttended) || 0;
+        if (daysAttended < minDays) {
+          ctx.note(`${first.employeeName}: ${scheme.name} needs ${minDays} days on ${site}, attended ${daysAttended}`);
+          continue;
+        }
+
+        const periodDays = period ? daysBetweenISO(period.startISO, period.endISO) + 1 : daysAttended;
+        let amount: number;
+        try {
+          amount = formula.evaluate({ ...metrics, daysAttended, periodDays });
+        } catch (e) {
+          ctx.note(`${first.employeeName}: ${scheme.name}: ${failed(e)} - not paid`);
+          continue;
+        }
+
+        const cap = Number(scheme.cap);
+        const capped = Number.isFinite(cap) && cap > 0 && amount > cap;
+        amount = Math.round((capped ? cap : amount) * 100) / 100;
+        if (!Number.isFinite(amount) || amount <= 0) continue;
+
+        lines.push({
+          employeeId: first.employeeId,
+          employeeName: first.employeeName,
+          jobCode: busiestJob(segments),
+          date: last,
+          category: scheme.name,
+          multiplier: 1,
+          minutes: 0,
+          hours: 0,
+          units: 1,
+          unitRate: amount,
+          sourceEntryIds: Array.from(new Set(segments.map((s) => s.entryId))),
+          explain: [
+            `${scheme.formula} on ${site}, ${daysAttended} days attended`,
+            ...formula.variables.filter((v) => v in metrics).map((v) => `${v} = ${metrics[v]}`),
+            ...(capped ? [`capped at $${cap.toFixed(2)}`] : []),
+          ],
+          meta: {
+            payCategory: "bonus",
+            bonusId: scheme.id ?? scheme.name,
+            bonusSite: site,
+            daysAttended,
+            taxable: true,
+            ote: Boolean(scheme.ote),
+            superLiable: Boolean(scheme.ote),
+          },
+        });
+      }
+    }
+
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
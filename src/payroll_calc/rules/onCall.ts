@@ -1 +1,92 @@
-// src/payroll/rules/onCall.ts
+// src/payroll_calc/rules/onCall.ts
+import { PayrollCalcError } from "../errors";
+import { roundMoney } from "../money";
+import type { PayRule } from "../pipeline";
+import { DEFAULT_TIMEZONE, zonedParts } from "../time";
+import type { OnCallShift, PayLine } from "../types";
+
+export const ON_CALL_CATEGORY = "On-call allowance";
+
+function windowMs(shift: OnCallShift): { startMs: number; endMs: number } | null {
+  const startMs = Date.parse(shift.startISO);
+  const endMs = Date.parse(shift.endISO);
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) return null;
+  return { startMs, endMs };
+}
+
+/**
+ * On-call / standby: one allowance line per rostered window, dated on the window's
+ * local start day. When one of the employee's call-out entries overlaps the window the
+ * ruleset decides whether the allowance is kept, suppressed, or reduced by a set amount
+ * (the call-out itself is paid by rules/calloutMinimum.ts).
+ */
+export const onCallRule: PayRule = {
+  id: "onCall",
+  apply(state, ctx) {
+    const config = ctx.input.ruleset.onCall;
+    const mode = config?.whenCalledOut ?? "keep";
+    const lines: PayLine[] = [];
+
+    for (const shift of ctx.input.onCall ?? []) {
+      const window = windowMs(shift);
+      const rate = Number(shift.rate);
+      if (!window || !Number.isFinite(rate) || rate <= 0) {
+        ctx.note(`skipped on-call window ${shift.id ?? shift.startISO}: bad times or rate`);
+        continue;
+      }
+
+      const timezone = String(shift.timezone ?? "").trim() || DEFAULT_TIMEZONE;
+      let date: string;
+      try {
+        date = zonedParts(window.startMs, timezone).date;
+      } catch (e) {
+        if (e instanceof PayrollCalcError) {
+          ctx.note(`skipped on-call window ${shift.id ?? shift.startISO}: ${e.message}`);
+          continue;
+        }
+        throw e;
+      }
+      const period = ctx.input.period;
+      if (period && (date < period.startISO || date > period.endISO)) continue; // paid in the period it starts in
+
+      const employee = ctx.input.employees.find((e) => e.id === shift.employeeId);
+      const callouts = ctx.entries.filter(
+        (e) =>
+          e.employeeKey === shift.employeeId &&
+          e.isCallout &&
+          e.startMs < window.endMs &&
+          e.endMs > window.startMs,
+      );
+
+      let amount = rate;
+      const explain = [`standby ${shift.startISO} -> ${shift.endISO}`];
+      if (callouts.length && mode === "suppress") {
+        ctx.note(`${shift.employeeId}: on-call suppressed by ${callouts.length} call-out(s)`);
+        continue;
+      }
+      if (callouts.length && mode === "reduce") {
+        amount = Math.max(0, roundMoney(rate - Number(config?.reduceBy ?? 0)));
+        explain.push(`reduced by $${Number(config?.reduceBy ?? 0).toFixed(2)}: called out during the window`);
+      }
+
+      lines.push({
+        employeeId: shift.employeeId,
+        employeeName: employee?.name ?? shift.employeeId,
+        jobCode: "",
+        date,
+        category: String(config?.label ?? "").trim() || ON_CALL_CATEGORY,
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        units: 1,
+        unitRate: amount,
+        sourceEntryIds: callouts.map((e) => e.id),
+        explain,
+        meta: { payCategory: "onCallAllowance", ...(shift.id ? { onCallId: shift.id } : {}) },
+      });
+    }
+
+    if (lines.length) ctx.note(`${lines.length} on-call allowance lines`);
+    return { ...state, lines: [...state.lines, ...lines] };
+  },
+};
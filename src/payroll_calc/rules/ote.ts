@@ -1 +1,166 @@
-// src/payroll/rules/ote.ts
+// src/payroll_calc/rules/ote.ts
+import { PayrollCalcError } from "../errors";
+import type { PayCategoryFlags, PayCategoryKey, PayLine } from "../types";
+import { ORDINARY_CATEGORY } from "./stacking";
+
+export const PAY_CATEGORY_FLAG_NAMES: (keyof PayCategoryFlags)[] = [
+  "ote",
+  "superLiable",
+  "payrollTaxLiable",
+  "workersCompLiable",
+];
+
+export const PAY_CATEGORY_FLAG_LABELS: Record<keyof PayCategoryFlags, string> = {
+  ote: "OTE",
+  superLiable: "Super",
+  payrollTaxLiable: "Payroll tax",
+  workersCompLiable: "Workers comp",
+};
+
+export const PAY_CATEGORY_LABELS: Record<PayCategoryKey, string> = {
+  ordinary: "Ordinary hours",
+  overtime: "Overtime",
+  penalty: "Penalty rates (weekend, public holiday, time of day)",
+  loading: "Shift and casual loadings on worked time",
+  casualLoading: "Casual loading (separate line)",
+  callout: "Call-out top-up",
+  minimumEngagement: "Minimum engagement top-up",
+  publicHolidayNotWorked: "Public holiday not worked",
+  rdoTaken: "RDO taken",
+  toilTaken: "TOIL taken",
+  toilCashOut: "TOIL cashed out",
+  brokenShiftAllowance: "Broken shift allowance",
+  onCallAllowance: "On-call allowance",
+  allowance: "Configured allowances",
+  toolAllowance: "Tool allowance",
+  vehicleAllowance: "Vehicle allowance (per km)",
+  faresAllowance: "Fares allowance",
+  travelTime: "Travel time",
+  siteAllowance: "Site allowance (FIFO)",
+  districtAllowance: "District allowance (FIFO)",
+  livingAwayAllowance: "Living away allowance (FIFO)",
+  fifoTravel: "FIFO travel time",
+  fifoTravelAllowance: "FIFO travel day allowance",
+  bonus: "Site bonuses",
+  leave: "Leave",
+  deduction: "Deductions",
+  superGuarantee: "Super guarantee (employer on-cost)",
+};
+
+export const PAY_CATEGORY_KEYS = Object.keys(PAY_CATEGORY_LABELS) as PayCategoryKey[];
+
+export function isPayCategoryKey(v: unknown): v is PayCategoryKey {
+  return typeof v === "string" && (PAY_CATEGORY_KEYS as string[]).includes(v);
+}
+
+const all = (on: boolean): PayCategoryFlags => ({
+  ote: on,
+  superLiable: on,
+  payrollTaxLiable: on,
+  workersCompLiable: on,
+});
+const wagesNotOte: PayCategoryFlags = { ote: false, superLiable: false, payrollTaxLiable: true, workersCompLiable: true };
+
+/**
+ * Defaults, following the ATO's OTE guidance: pay for ordinary hours (with its penalties, loadings,
+ * allowances and leave) is OTE; overtime and call-outs paid at overtime rates, and TOIL cashed out,
+ * are wages but not OTE; expense reimbursements (vehicle, fares, living away, travel days) aren't wages at all.
+ * Super itself is an on-cost that counts toward payroll tax and workers comp wages.
+ */
+export const DEFAULT_PAY_CATEGORY_FLAGS: Record<PayCategoryKey, PayCategoryFlags> = {
+  ordinary: all(true),
+  overtime: wagesNotOte,
+  penalty: all(true),
+  loading: all(true),
+  casualLoading: all(true),
+  callout: wagesNotOte,
+  minimumEngagement: all(true),
+  publicHolidayNotWorked: all(true),
+  rdoTaken: all(true),
+  toilTaken: all(true),
+  toilCashOut: wagesNotOte,
+  brokenShiftAllowance: all(true),
+  onCallAllowance: all(true),
+  allowance: all(true),
+  toolAllowance: { ...all(true), ote: false, superLiable: false },
+  vehicleAllowance: all(false),
+  faresAllowance: all(false),
+  travelTime: all(true),
+  siteAllowance: all(true),
+  districtAllowance: all(true),
+  livingAwayAllowance: all(false),
+  fifoTravel: all(true),
+  fifoTravelAllowance: all(false),
+  bonus: all(true),
+  leave: all(true),
+  deduction: all(false),
+  superGuarantee: { ...all(false), payrollTaxLiable: true, workersCompLiable: true },
+};
+
+export type PayCategoryRegistry = Record<PayCategoryKey, PayCategoryFlags & { overridden: boolean }>;
+
+/**
+ * Defaults with the admin's overrides applied. Overrides must already have passed
+ * validatePayCategoryOverrides (validateRuleset.ts); an unknown key throws here too.
+ */
+export function buildPayCategoryRegistry(overrides: Record<string, Partial<PayCategoryFlags>> = {}): PayCategoryRegistry {
+  for (const key of Object.keys(overrides)) {
+    if (!isPayCategoryKey(key)) throw new PayrollCalcError("UNKNOWN_PAY_CATEGORY", `Unknown pay category "${key}"`);
+  }
+
+  const registry = {} as PayCategoryRegistry;
+  for (const key of PAY_CATEGORY_KEYS) {
+    const override = overrides[key] ?? {};
+    const changed = PAY_CATEGORY_FLAG_NAMES.filter((f) => typeof override[f] === "boolean");
+    registry[key] = {
+      ...DEFAULT_PAY_CATEGORY_FLAGS[key],
+      ...Object.fromEntries(changed.map((f) => [f, override[f]])),
+      overridden: changed.length > 0,
+    };
+  }
+  return registry;
+}
+
+/**
+ * The registry key for a line. Rules stamp `meta.payCategory` on what they emit; stacked time lines
+ * are classed by the components they were paid at (any overtime wins, then penalties, then loadings).
+ * A line that can't be placed throws: every category the engine makes has to be in the registry.
+ */
+export function payCategoryOf(line: PayLine): PayCategoryKey {
+  const stamped = line.meta?.payCategory;
+  if (stamped !== undefined) {
+    if (isPayCategoryKey(stamped)) return stamped;
+    throw new PayrollCalcError("UNKNOWN_PAY_CATEGORY", `"${line.category}" has unknown pay category "${String(stamped)}"`);
+  }
+  if (line.isOnCost) return "superGuarantee";
+  if (line.isDeduction) return "deduction";
+  if (line.isLeave) return "leave";
+
+  const applied = line.rateBreakdown?.applied ?? [];
+  if (applied.some((p) => p.kind === "overtime")) return "overtime";
+  if (applied.some((p) => p.kind === "penalty")) return "penalty";
+  if (applied.some((p) => p.kind === "loading")) return "loading";
+  if (line.rateBreakdown || line.category === ORDINARY_CATEGORY) return "ordinary";
+
+  throw new PayrollCalcError("UNKNOWN_PAY_CATEGORY", `No pay category registered for "${line.category}"`);
+}
+
+/**
+ * A line's flags: the registry's, except that allowances and bonus schemes configured with their own
+ * super setting (meta.superLiable / meta.ote) keep it unless the admin has overridden that category.
+ */
+export function payCategoryFlags(line: PayLine, registry: PayCategoryRegistry): PayCategoryFlags {
+  const { overridden, ...flags } = registry[payCategoryOf(line)];
+  if (overridden) return flags;
+
+  const own = typeof line.meta?.ote === "boolean" ? line.meta.ote : line.meta?.superLiable;
+  return typeof own === "boolean" ? { ...flags, ote: own, superLiable: own } : flags;
+}
+
+/** Stamp each line's category and flags into `meta` so the payrun, exports and super all agree on them. */
+export function tagPayCategories(payLines: PayLine[], registry: PayCategoryRegistry): PayLine[] {
+  return payLines.map((l) => ({
+    ...l,
+    meta: { ...l.meta, payCategory: payCategoryOf(l), ...payCategoryFlags(l, registry) },
+  }));
+}
@@ -1 +1,295 @@
-// src/payroll/rules/overtimeDaily.ts
+// src/payroll_calc/rules/overtimeDaily.ts
+import type { PayRule, RuleContext } from "../pipeline";
+import { clockMinuteOf, groupSegments, splitSegmentAfter, splitSegmentAt, workedIntervals } from "../segment";
+import { MS_PER_MINUTE, inClockWindow, zonedTimeMs } from "../time";
+import type { CompanyRuleset, OvertimeMethod, OvertimeTier, RateComponent, Segment } from "../types";
+import { isRdoEntry } from "./loadingsRDO";
+import { isToilEntry } from "./toil";
+
+/** A run of minutes (counted from the start of the day/week) paid at one rate. */
+export type OvertimeBand = {
+  fromMinutes: number;
+  toMinutes: number | null; // null = open-ended
+  tier: OvertimeTier | null; // null = ordinary
+};
+
+function clampInt(n: unknown, min: number, max: number): number {
+  const x = typeof n === "number" ? n : Number(n);
+  if (!Number.isFinite(x)) return min;
+  return Math.max(min, Math.min(max, Math.round(x)));
+}
+
+/**
+ * Ordinary up to `thresholdMinutes`, then each OT tier in sequence.
+ * Same semantics as computePayLinesV1: invalid tiers are skipped and whatever the
+ * tiers don't cover is paid at the last tier's multiplier (or 1.5x).
+ */
+export function overtimeBands(thresholdMinutes: number, tiers: OvertimeTier[]): OvertimeBand[] {
+  const bands: OvertimeBand[] = [{ fromMinutes: 0, toMinutes: Math.max(0, thresholdMinutes), tier: null }];
+  let cursor = Math.max(0, thresholdMinutes);
+
+  for (const tier of tiers) {
+    const mult = Number(tier.multiplier);
+    if (!Number.isFinite(mult) || mult <= 0) continue;
+
+    if (tier.firstMinutes == null) {
+      bands.push({ fromMinutes: cursor, toMinutes: null, tier });
+      return bands;
+    }
+
+    const len = clampInt(tier.firstMinutes, 0, 24 * 60 * 7);
+    if (len <= 0) continue;
+    bands.push({ fromMinutes: cursor, toMinutes: cursor + len, tier });
+    cursor += len;
+  }
+
+  const last = tiers[tiers.length - 1];
+  const mult = Number(last?.multiplier ?? 1.5);
+  bands.push({
+    fromMinutes: cursor,
+    toMinutes: null,
+    tier: {
+      label: String(last?.label ?? "").trim() || "overtime",
+      multiplier: Number.isFinite(mult) && mult > 0 ? mult : 1.5,
+    },
+  });
+
+  return bands;
+}
+
+export function overtimeComponent(tier: OvertimeTier, rule: string, note: string): RateComponent {
+  return { kind: "overtime", code: tier.label || "overtime", multiplier: Number(tier.multiplier), rule, note };
+}
+
+/**
+ * Walk chronological segments, counting minutes from `startOffset`, and tag each
+ * minute with the band it falls in. Segments are split at band edges.
+ * `counts` decides which segments advance the counter (all of them by default).
+ */
+export function applyBands(
+  segments: Segment[],
+  bands: OvertimeBand[],
+  makeComponent: (band: OvertimeBand) => RateComponent | null,
+  opts?: { startOffset?: number; counts?: (seg: Segment) => boolean },
+): { segments: Segment[]; endOffset: number } {
+  const out: Segment[] = [];
+  let offset = opts?.startOffset ?? 0;
+
+  for (const original of segments) {
+    if (opts?.counts && !opts.counts(original)) {
+      out.push(original);
+      continue;
+    }
+
+    let rest: Segment | undefined = original;
+    while (rest && rest.minutes > 0) {
+      const band = bands.find((b) => offset >= b.fromMinutes && (b.toMinutes == null || offset < b.toMinutes));
+      const room: number = band?.toMinutes == null ? rest.minutes : band.toMinutes - offset;
+      const [head, tail]: Array<Segment | undefined> = room < rest.minutes ? splitSegmentAfter(rest, room) : [rest, undefined];
+      if (!head) break;
+
+      const component = band ? makeComponent(band) : null;
+      out.push(component ? { ...head, components: [...head.components, component] } : head);
+      offset += head.minutes;
+      rest = tail;
+    }
+  }
+
+  return { segments: out, endOffset: offset };
+}
+
+/** Worked time an OT trigger applies to, as instants within one entry. */
+export type OvertimeWindow = {
+  entryId: string;
+  startMs: number;
+  endMs: number;
+  reason: string;
+};
+
+/**
+ * Per-entry trigger windows that need the whole entry (or the employee's other entries):
+ * - maxShiftMinutes: everything after the shift's Nth worked minute
+ * - minRestMinutes: work that starts inside the rest break after the previous day's shift
+ * The ordinary-hours span is per segment and handled in applyDailyOvertime.
+ */
+export function overtimeWindows(ctx: RuleContext): OvertimeWindow[] {
+  const out: OvertimeWindow[] = [];
+
+  for (const entry of ctx.entries) {
+    const { overtime } = ctx.rulesetFor(entry.jobCode);
+
+    const maxShift = Number(overtime.maxShiftMinutes);
+    if (Number.isFinite(maxShift) && maxShift > 0 && entry.workedMinutes > maxShift) {
+      let left = maxShift;
+      for (const [a, b] of workedIntervals(entry)) {
+        const len = (b - a) / MS_PER_MINUTE;
+        if (left < len) {
+          out.push({
+            entryId: entry.id,
+            startMs: a + left * MS_PER_MINUTE,
+            endMs: entry.endMs,
+            reason: `shift past ${maxShift / 60}h`,
+          });
+          break;
+        }
+        left -= len;
+      }
+    }
+
+    const minRest = Number(overtime.minRestMinutes);
+    if (Number.isFinite(minRest) && minRest > 0) {
+      let previousEndMs: number | null = null;
+      for (const other of ctx.entries) {
+        if (other.employeeKey !== entry.employeeKey || other.date >= entry.date || other.endMs > entry.startMs) continue;
+        if (isRdoEntry(ctx, other) || isToilEntry(ctx, other)) continue;
+        if (previousEndMs == null || other.endMs > previousEndMs) previousEndMs = other.endMs;
+      }
+
+      const restEndsMs = previousEndMs == null ? null : previousEndMs + minRest * MS_PER_MINUTE;
+      if (restEndsMs != null && restEndsMs > entry.startMs) {
+        out.push({
+          entryId: entry.id,
+          startMs: entry.startMs,
+          endMs: Math.min(entry.endMs, restEndsMs),
+          reason: `inside ${minRest / 60}h rest break`,
+        });
+      }
+    }
+  }
+
+  return out;
+}
+
+function outsideSpan(seg: Segment, span: { startMinute: number; endMinute: number }): boolean {
+  return !inClockWindow(clockMinuteOf(seg), span.startMinute, span.endMinute);
+}
+
+function validSpan(overtime: CompanyRuleset["overtime"]): { startMinute: number; endMinute: number } | null {
+  const span = overtime.span;
+  if (!span) return null;
+  const startMinute = clampInt(span.startMinute, 0, 24 * 60);
+  const endMinute = clampInt(span.endMinute, 0, 24 * 60);
+  return startMinute === endMinute ? null : { startMinute, endMinute };
+}
+
+/** Split a segment at trigger edges and label each piece with the trigger covering it (if any). */
+function triggeredPieces(
+  seg: Segment,
+  overtime: CompanyRuleset["overtime"],
+  windows: OvertimeWindow[],
+): Array<{ seg: Segment; reason: string | null }> {
+  const span = validSpan(overtime);
+  const own = windows.filter((w) => w.entryId === seg.entryId);
+
+  const cuts = own.flatMap((w) => [w.startMs, w.endMs]);
+  if (span) {
+    cuts.push(zonedTimeMs(seg.date, span.startMinute, seg.timezone), zonedTimeMs(seg.date, span.endMinute, seg.timezone));
+  }
+
+  let pieces = [seg];
+  for (const at of Array.from(new Set(cuts)).sort((a, b) => a - b)) {
+    const last = pieces.pop();
+    if (last) pieces = [...pieces, ...splitSegmentAt(last, at)];
+  }
+
+  return pieces.map((piece) => {
+    const w = own.find((x) => x.startMs <= piece.startMs && piece.startMs < x.endMs);
+    if (w) return { seg: piece, reason: w.reason };
+    if (span && outsideSpan(piece, span)) return { seg: piece, reason: "outside ordinary span" };
+    return { seg: piece, reason: null };
+  });
+}
+
+/**
+ * Daily OT for one employee-day (chronological segments).
+ * Minutes hit by a trigger (outside the ordinary span, long shift, short rest) are OT
+ * outright; the rest count towards the ordinary day and are OT once past it.
+ * All OT minutes take the tiers in sequence, in the order they were worked.
+ * Segments already paid as overtime (call-outs, rules/calloutMinimum.ts) pass through and
+ * don't count towards the ordinary day.
+ */
+export function applyDailyOvertime(
+  daySegments: Segment[],
+  ruleset: CompanyRuleset,
+  windows: OvertimeWindow[] = [],
+): { segments: Segment[]; workedMinutes: number; thresholdMinutes: number; overtimeMinutes: number } {
+  const { overtime } = ruleset;
+  const threshold = clampInt(overtime.ordinaryMinutesPerDay, 0, 24 * 60);
+  const otBands = overtimeBands(0, overtime.tiers);
+
+  const out: Segment[] = [];
+  let ordinary = 0;
+  let worked = 0;
+  let otOffset = 0;
+
+  const payOvertime = (seg: Segment, reason: string) => {
+    const r = applyBands([seg], otBands, (band) =>
+      band.tier ? overtimeComponent(band.tier, "overtimeDaily", `daily: ${reason}`) : null,
+      { startOffset: otOffset },
+    );
+    out.push(...r.segments);
+    otOffset = r.endOffset;
+  };
+
+  for (const original of daySegments) {
+    if (original.components.some((c) => c.kind === "overtime")) {
+      out.push(original);
+      continue;
+    }
+    worked += original.minutes;
+
+    for (const { seg, reason } of triggeredPieces(original, overtime, windows)) {
+      if (reason) {
+        payOvertime(seg, reason);
+        continue;
+      }
+
+      const room = Math.max(0, threshold - ordinary);
+      const [head, tail]: Array<Segment | undefined> = room < seg.minutes ? splitSegmentAfter(seg, room) : [seg, undefined];
+      if (head && room > 0) {
+        out.push(head);
+        ordinary += head.minutes;
+      }
+      const over = room > 0 ? tail : seg;
+      if (over) payOvertime(over, `worked past ${threshold / 60}h ordinary day`);
+    }
+  }
+
+  return { segments: out, workedMinutes: worked, thresholdMinutes: threshold, overtimeMinutes: otOffset };
+}
+
+export function overtimeMethod(ruleset: CompanyRuleset): OvertimeMethod {
+  return ruleset.overtime.method ?? "dailyThenWeekly";
+}
+
+/**
+ * Daily overtime: per employee per working day, counted from the day each shift started
+ * (a 19:00-07:00 shift is one 12h day, not two halves). Thresholds and triggers come from
+ * the ruleset of the job the day started on. Skipped when the job pays weekly-only
+ * or higher-of (rules/overtimeHigherOf.ts does its own daily pass).
+ */
+export const overtimeDailyRule: PayRule = {
+  id: "overtimeDaily",
+  apply(state, ctx) {
+    const out: Segment[] = [];
+    const windows = overtimeWindows(ctx);
+
+    for (const [key, daySegments] of groupSegments(state.segments, (s) => `${s.employeeKey}|${s.shiftDate}`)) {
+      const first = daySegments[0];
+      if (!first) continue;
+
+      const ruleset = ctx.rulesetFor(first.jobCode);
+      const method = overtimeMethod(ruleset);
+      if (method === "weekly" || method === "higherOf") {
+        out.push(...daySegments);
+        continue;
+      }
+
+      const { segments, workedMinutes, overtimeMinutes } = applyDailyOvertime(daySegments, ruleset, windows);
+      if (overtimeMinutes > 0) ctx.note(`${key}: ${overtimeMinutes} of ${workedMinutes} min worked are OT`);
+      out.push(...segments);
+    }
+
+    return { ...state, segments: out };
+  },
+};
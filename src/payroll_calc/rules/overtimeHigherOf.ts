@@ -1 +1,89 @@
-// src/payroll/rules/overtimeHigherOf.ts
+// src/payroll_calc/rules/overtimeHigherOf.ts
+import type { PayRule } from "../pipeline";
+import { groupSegments } from "../segment";
+import type { RateComponent, Segment } from "../types";
+import { applyDailyOvertime, overtimeMethod, overtimeWindows } from "./overtimeDaily";
+import { applyWeeklyOvertime, employeeWeekKey, weeklyThresholdMinutes } from "./overtimeWeekly";
+
+export type OvertimeOutcome = "daily" | "weekly";
+
+function overtimeOf(seg: Segment): RateComponent | null {
+  let best: RateComponent | null = null;
+  for (const c of seg.components) {
+    if (c.kind === "overtime" && (!best || c.multiplier > best.multiplier)) best = c;
+  }
+  return best;
+}
+
+function weightedMinutes(segments: Segment[]): number {
+  return segments.reduce((acc, s) => acc + s.minutes * (overtimeOf(s)?.multiplier ?? 1), 0);
+}
+
+/**
+ * Pick the better of two OT allocations of the same employee-week: whichever pays more
+ * weighted minutes (minutes x multiplier) wins outright, daily on a tie. Mixing them minute
+ * by minute would pay the union, counting hours already paid as daily OT towards the weekly
+ * threshold again. The winner's OT components are relabelled with the method that won.
+ */
+export function pickHigherOvertime(
+  daily: Segment[],
+  weekly: Segment[],
+): { segments: Segment[]; outcome: OvertimeOutcome; weighted: Record<OvertimeOutcome, number> } {
+  const weighted: Record<OvertimeOutcome, number> = { daily: weightedMinutes(daily), weekly: weightedMinutes(weekly) };
+  const outcome: OvertimeOutcome = weighted.weekly > weighted.daily ? "weekly" : "daily";
+  const rule = outcome === "weekly" ? "overtimeWeekly" : "overtimeDaily";
+
+  const segments = (outcome === "weekly" ? weekly : daily).map((seg) => ({
+    ...seg,
+    components: seg.components.map((c) =>
+      c.kind === "overtime" && c.rule === rule
+        ? { ...c, rule: "overtimeHigherOf", meta: { ...c.meta, otMethod: outcome } }
+        : c,
+    ),
+  }));
+
+  return { segments, outcome, weighted };
+}
+
+/**
+ * "Higher of daily or weekly" overtime, for jobs whose ruleset sets
+ * overtime.method = "higherOf". Both outcomes are computed for the employee-week
+ * and only the more generous one is paid; the winning method is recorded on the
+ * pay line as meta.otMethod.
+ */
+export const overtimeHigherOfRule: PayRule = {
+  id: "overtimeHigherOf",
+  apply(state, ctx) {
+    const out: Segment[] = [];
+    const windows = overtimeWindows(ctx);
+
+    for (const [key, weekSegments] of groupSegments(state.segments, (s) => employeeWeekKey(s, ctx))) {
+      const first = weekSegments[0];
+      if (!first) continue;
+
+      const ruleset = ctx.rulesetFor(first.jobCode);
+      if (overtimeMethod(ruleset) !== "higherOf") {
+        out.push(...weekSegments);
+        continue;
+      }
+
+      const daily: Segment[] = [];
+      for (const daySegments of groupSegments(weekSegments, (s) => s.shiftDate).values()) {
+        const dayRuleset = ctx.rulesetFor(daySegments[0]?.jobCode ?? first.jobCode);
+        daily.push(...applyDailyOvertime(daySegments, dayRuleset, windows).segments);
+      }
+
+      const employee = ctx.employeeFor(first.employeeKey);
+      const weeklyOff = ruleset.overtime.weekly?.enabled === false || employee?.noTimesheets;
+      const weekly = weeklyOff
+        ? weekSegments
+        : applyWeeklyOvertime(weekSegments, weeklyThresholdMinutes(employee, ruleset), ruleset).segments;
+
+      const { segments, outcome, weighted } = pickHigherOvertime(daily, weekly);
+      ctx.note(`${key}: daily=${weighted.daily} weighted min, weekly=${weighted.weekly}; paid ${outcome}`);
+      out.push(...segments);
+    }
+
+    return { ...state, segments: out };
+  },
+};
@@ -1 +1,93 @@
-// src/payroll/rules/overtimeWeekly.ts
+// src/payroll_calc/rules/overtimeWeekly.ts
+import type { PayRule, RuleContext } from "../pipeline";
+import { groupSegments } from "../segment";
+import { payWeekStartISO } from "../time";
+import type { CompanyRuleset, EmployeeProfile, Segment } from "../types";
+import { applyBands, overtimeBands, overtimeComponent, overtimeMethod } from "./overtimeDaily";
+
+export const DEFAULT_ORDINARY_MINUTES_PER_WEEK = 38 * 60;
+
+/** Ordinary minutes an employee works before weekly OT: their own weeklyHours, else the ruleset's. */
+export function weeklyThresholdMinutes(employee: EmployeeProfile | undefined, ruleset: CompanyRuleset): number {
+  const weeklyHours = Number(employee?.weeklyHours);
+  if (Number.isFinite(weeklyHours) && weeklyHours > 0) return Math.round(weeklyHours * 60);
+
+  const configured = Number(ruleset.overtime.weekly?.ordinaryMinutesPerWeek);
+  return Number.isFinite(configured) && configured > 0 ? Math.round(configured) : DEFAULT_ORDINARY_MINUTES_PER_WEEK;
+}
+
+export function isOvertime(seg: Segment): boolean {
+  return seg.components.some((c) => c.kind === "overtime");
+}
+
+/** Group key for an employee's pay week (see payWeekStartISO); a shift belongs to the week it started in. */
+export function employeeWeekKey(seg: Segment, ctx: RuleContext): string {
+  const weekStartsOn = ctx.rulesetFor(seg.jobCode).overtime.weekly?.weekStartsOn ?? 1;
+  return `${seg.employeeKey}|${payWeekStartISO(seg.shiftDate, ctx.input.period?.startISO, weekStartsOn)}`;
+}
+
+/**
+ * Weekly OT for one employee-week (chronological segments).
+ * Only minutes still ordinary count towards the threshold, so time already paid
+ * as daily OT is never counted twice; ordinary minutes past it become weekly OT tiers.
+ */
+export function applyWeeklyOvertime(
+  weekSegments: Segment[],
+  thresholdMinutes: number,
+  ruleset: CompanyRuleset,
+): { segments: Segment[]; ordinaryMinutes: number } {
+  const tiers = ruleset.overtime.weekly?.tiers?.length ? ruleset.overtime.weekly.tiers : ruleset.overtime.tiers;
+  const bands = overtimeBands(thresholdMinutes, tiers);
+
+  const { segments, endOffset } = applyBands(
+    weekSegments,
+    bands,
+    (band) =>
+      band.tier
+        ? overtimeComponent(band.tier, "overtimeWeekly", `weekly: ordinary hours past ${thresholdMinutes / 60}h week`)
+        : null,
+    { counts: (seg) => !isOvertime(seg) },
+  );
+
+  return { segments, ordinaryMinutes: endOffset };
+}
+
+/**
+ * Weekly overtime: accumulates each employee's ordinary minutes across every entry
+ * in the pay week and converts anything over their weekly hours to tiered OT.
+ * Skipped when the job pays daily-only or higher-of.
+ */
+export const overtimeWeeklyRule: PayRule = {
+  id: "overtimeWeekly",
+  apply(state, ctx) {
+    const out: Segment[] = [];
+
+    for (const [key, weekSegments] of groupSegments(state.segments, (s) => employeeWeekKey(s, ctx))) {
+      const first = weekSegments[0];
+      if (!first) continue;
+
+      const ruleset = ctx.rulesetFor(first.jobCode);
+      const employee = ctx.employeeFor(first.employeeKey);
+      const method = overtimeMethod(ruleset);
+      if (
+        method === "daily" ||
+        method === "higherOf" ||
+        ruleset.overtime.weekly?.enabled === false ||
+        employee?.noTimesheets
+      ) {
+        out.push(...weekSegments);
+        continue;
+      }
+
+      const threshold = weeklyThresholdMinutes(employee, ruleset);
+      const { segments, ordinaryMinutes } = applyWeeklyOvertime(weekSegments, threshold, ruleset);
+
+      if (ordinaryMinutes > threshold) {
+        ctx.note(`${key}: ${ordinaryMinutes - threshold} ordinary min over ${threshold} min week -> OT`);
+      }
+      out.push(...segments);
+    }
+
+    return { ...state, segments: out };
+  },
+};
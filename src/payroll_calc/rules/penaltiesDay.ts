@@ -1 +1,74 @@
-// src/payroll/rules/penaltiesDay.ts
+// src/payroll_calc/rules/penaltiesDay.ts
+import { DEFAULT_EMPLOYMENT_TYPE, pickByEmploymentType } from "../employment";
+import type { PayRule } from "../pipeline";
+import { groupSegments } from "../segment";
+import { dayOfWeekISO } from "../time";
+import type { CompanyRuleset, EmploymentType, OvertimeTier, Segment } from "../types";
+import { applyBands, overtimeBands } from "./overtimeDaily";
+
+const DAY_CODES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] as const;
+
+/** Default category for a day penalty tier without a label, e.g. "SAT1.5". */
+export function dayPenaltyCode(dow: number, multiplier: number): string {
+  return `${DAY_CODES[dow] ?? "DAY"}${multiplier}`;
+}
+
+/** Tiers for a local weekday: the employee type's override if it lists the day, else the company table. */
+export function dayPenaltyTiers(
+  ruleset: CompanyRuleset,
+  dow: number,
+  employmentType?: EmploymentType,
+): OvertimeTier[] {
+  const config = ruleset.dayPenalties;
+  if (!config) return [];
+  const tiers = pickByEmploymentType(config.byEmploymentType, employmentType)?.[dow] ?? config.byDay[dow];
+  return (tiers ?? [])
+    .filter((t) => Number.isFinite(Number(t.multiplier)) && Number(t.multiplier) > 0)
+    .map((t) => ({ ...t, label: String(t.label ?? "").trim() || dayPenaltyCode(dow, Number(t.multiplier)) }));
+}
+
+/**
+ * Day-of-week penalties (Saturday / Sunday rates).
+ * Per employee per local day - segments are already cut at the entry timezone's
+ * midnight, so a Friday night shift only picks up the Saturday rate after 00:00.
+ * Tiers run in sequence over the day's worked minutes (first 2h at 1.5x, then 2x).
+ * Each tier is a "penalty" component whose label becomes its own pay line category.
+ */
+export const penaltiesDayRule: PayRule = {
+  id: "penaltiesDay",
+  apply(state, ctx) {
+    const out: Segment[] = [];
+
+    for (const [key, daySegments] of groupSegments(state.segments, (s) => `${s.employeeKey}|${s.date}`)) {
+      const first = daySegments[0];
+      if (!first) continue;
+
+      const dow = dayOfWeekISO(first.date);
+      const employee = ctx.employeeFor(first.employeeKey);
+      const tiers = dayPenaltyTiers(ctx.rulesetFor(first.jobCode), dow, employee?.employmentType);
+      if (!tiers.length) {
+        out.push(...daySegments);
+        continue;
+      }
+
+      const day = DAY_CODES[dow] ?? "day";
+      const bands = overtimeBands(0, tiers);
+      const { segments, endOffset } = applyBands(daySegments, bands, (band) => {
+        if (!band.tier) return null;
+        const multiplier = Number(band.tier.multiplier);
+        return {
+          kind: "penalty",
+          code: band.tier.label,
+          multiplier,
+          rule: "penaltiesDay",
+          note: `${day}: day penalty ${multiplier}x`,
+        };
+      });
+
+      ctx.note(`${key}: ${endOffset} min at ${day} rates (${employee?.employmentType ?? DEFAULT_EMPLOYMENT_TYPE})`);
+      out.push(...segments);
+    }
+
+    return { ...state, segments: out };
+  },
+};
@@ -1 +1,60 @@
-// src/payroll/rules/penaltiesTimeOfDay.ts
+// src/payroll_calc/rules/penaltiesTimeOfDay.ts
+import type { PayRule } from "../pipeline";
+import { clockMinuteOf, splitSegmentAtClock } from "../segment";
+import { inClockWindow } from "../time";
+import type { RateComponent, Segment, TimeOfDayPenalty } from "../types";
+
+function clampMinute(n: unknown): number {
+  const x = Number(n);
+  return Number.isFinite(x) ? Math.max(0, Math.min(24 * 60, Math.round(x))) : 0;
+}
+
+function penaltyComponent(p: TimeOfDayPenalty): RateComponent {
+  const pct = Number(p.loadingPercent);
+  return {
+    kind: "penalty",
+    code: String(p.label ?? "").trim() || `PEN${pct}`,
+    multiplier: 1 + pct / 100,
+    rule: "penaltiesTimeOfDay",
+    note: `time of day: +${pct}% (${p.label})`,
+  };
+}
+
+/**
+ * Afternoon / night shift penalties from the ruleset's clock windows.
+ * Each segment is cut at the window edges on its own local date, and every
+ * piece inside a window gets that window's loading as a penalty component.
+ * A shift crossing midnight is already two segments, so 23:00-07:00 applies to both sides.
+ */
+export const penaltiesTimeOfDayRule: PayRule = {
+  id: "penaltiesTimeOfDay",
+  apply(state, ctx) {
+    const out: Segment[] = [];
+    const minutesByCode = new Map<string, number>();
+
+    for (const seg of state.segments) {
+      const windows = (ctx.rulesetFor(seg.jobCode).timeOfDayPenalties ?? [])
+        .map((p) => ({ ...p, startMinute: clampMinute(p.startMinute), endMinute: clampMinute(p.endMinute) }))
+        .filter((p) => Number(p.loadingPercent) > 0 && p.startMinute !== p.endMinute);
+      if (!windows.length) {
+        out.push(seg);
+        continue;
+      }
+
+      const pieces = splitSegmentAtClock(
+        seg,
+        windows.flatMap((w) => [w.startMinute, w.endMinute]),
+      );
+
+      for (const piece of pieces) {
+        const minute = clockMinuteOf(piece);
+        const hits = windows.filter((w) => inClockWindow(minute, w.startMinute, w.endMinute)).map(penaltyComponent);
+        for (const c of hits) minutesByCode.set(c.code, (minutesByCode.get(c.code) ?? 0) + piece.minutes);
+        out.push(hits.length ? { ...piece, components: [...piece.components, ...hits] } : piece);
+      }
+    }
+
+    for (const [code, minutes] of minutesByCode) ctx.note(`${code}: ${minutes} min inside window`);
+    return { ...state, segments: out };
+  },
+};
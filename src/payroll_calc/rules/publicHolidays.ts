@@ -1 +1,86 @@
-// src/payroll/rules/publicHolidays.ts
+// src/payroll_calc/rules/publicHolidays.ts
+import { appliesToState, auPublicHolidays } from "../holidaysAU";
+import type { PayRule } from "../pipeline";
+import type { AuState, PublicHolidayOverride, Segment } from "../types";
+
+/**
+ * Holidays observed in `state` between two dates (inclusive), keyed by date.
+ * Bundled calendar first, then admin days: a substitute removes the bundled day it
+ * replaces (if any) and adds its own date; an extra just adds its date.
+ */
+export function publicHolidayCalendar(
+  fromISO: string,
+  toISO: string,
+  state?: AuState | null,
+  overrides: PublicHolidayOverride[] = [],
+): Map<string, string> {
+  const out = new Map<string, string>();
+  const fromYear = Number(fromISO.slice(0, 4));
+  const toYear = Number(toISO.slice(0, 4));
+
+  for (let year = fromYear; year <= toYear; year++) {
+    for (const h of auPublicHolidays(year)) {
+      if (h.date < fromISO || h.date > toISO || !appliesToState(h, state)) continue;
+      out.set(h.date, out.has(h.date) ? `${out.get(h.date)} / ${h.name}` : h.name);
+    }
+  }
+
+  for (const o of overrides) {
+    if (o.state && o.state !== state) continue;
+    if (o.kind === "substitute" && o.replacesDate) out.delete(o.replacesDate);
+    if (o.date >= fromISO && o.date <= toISO) out.set(o.date, o.name);
+  }
+
+  return new Map(Array.from(out).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function publicHolidayCode(multiplier: number): string {
+  return `PH${multiplier}`;
+}
+
+/**
+ * Work on a public holiday: every minute on a holiday (local date, from the entry's
+ * timezone) gets the ruleset's holiday multiplier as a penalty component.
+ */
+export const publicHolidaysRule: PayRule = {
+  id: "publicHolidays",
+  apply(state, ctx) {
+    if (!state.segments.length) return state;
+
+    const dates = state.segments.map((s) => s.date).sort();
+    const calendar = publicHolidayCalendar(
+      dates[0] ?? "",
+      dates[dates.length - 1] ?? "",
+      ctx.input.publicHolidays?.state,
+      ctx.input.publicHolidays?.overrides,
+    );
+    if (!calendar.size) return state;
+
+    const minutesByDate = new Map<string, number>();
+    const out: Segment[] = state.segments.map((seg) => {
+      const holiday = calendar.get(seg.date);
+      const config = ctx.rulesetFor(seg.jobCode).publicHolidays;
+      const multiplier = Number(config?.multiplier);
+      if (!holiday || !Number.isFinite(multiplier) || multiplier <= 0) return seg;
+
+      minutesByDate.set(seg.date, (minutesByDate.get(seg.date) ?? 0) + seg.minutes);
+      return {
+        ...seg,
+        components: [
+          ...seg.components,
+          {
+            kind: "penalty",
+            code: String(config?.label ?? "").trim() || publicHolidayCode(multiplier),
+            multiplier,
+            rule: "publicHolidays",
+            note: `public holiday: ${holiday}`,
+            meta: { publicHoliday: holiday },
+          },
+        ],
+      };
+    });
+
+    for (const [date, minutes] of minutesByDate) ctx.note(`${date} ${calendar.get(date)}: ${minutes} min worked`);
+    return { ...state, segments: out };
+  },
+};
@@ -1 +1,169 @@
-// src/payroll/rules/stacking.ts
+// src/payroll_calc/rules/stacking.ts
+import { rulesetForJob } from "../pipeline";
+import type {
+  EngineInput,
+  PayLine,
+  RateBreakdown,
+  RateBreakdownPart,
+  RateComponent,
+  Segment,
+  StackingMode,
+} from "../types";
+
+export const ORDINARY_CATEGORY = "ordinary";
+export const DEFAULT_STACKING_MODE: StackingMode = "highest";
+export const STACKING_MODES: StackingMode[] = ["highest", "additive", "compounding", "otReplacesPenalty"];
+
+export function isStackingMode(v: unknown): v is StackingMode {
+  return typeof v === "string" && (STACKING_MODES as string[]).includes(v);
+}
+
+export type StackingResult = {
+  applied: RateComponent[];
+  absorbed: RateComponent[];
+  multiplier: number;
+  code: string;
+};
+
+function highest(components: RateComponent[]): RateComponent | null {
+  let winner: RateComponent | null = null;
+  for (const c of components) {
+    if (!winner || c.multiplier > winner.multiplier) winner = c;
+  }
+  return winner;
+}
+
+function roundMultiplier(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+/**
+ * Resolve one segment's components into a single rate.
+ * - highest: the biggest multiplier wins, everything else is absorbed (ties go to the component added first)
+ * - otReplacesPenalty: any overtime wins outright (highest OT tier); penalties/loadings only count on ordinary time
+ * - additive: 1 + the sum of each component's extra (casual 1.25 + Saturday 1.5 = 1.75)
+ * - compounding: the product of every multiplier (1.25 x 1.5 = 1.875)
+ * Overtime tiers never combine with each other: in the combining modes only the highest overtime
+ * component applies and any other overtime is absorbed.
+ */
+export function resolveComponents(components: RateComponent[], mode: StackingMode = DEFAULT_STACKING_MODE): StackingResult {
+  if (!components.length) return { applied: [], absorbed: [], multiplier: 1, code: ORDINARY_CATEGORY };
+
+  if (mode === "highest" || mode === "otReplacesPenalty") {
+    const overtime = components.filter((c) => c.kind === "overtime");
+    const winner = highest(mode === "otReplacesPenalty" && overtime.length ? overtime : components)!;
+    return {
+      applied: [winner],
+      absorbed: components.filter((c) => c !== winner),
+      multiplier: winner.multiplier,
+      code: winner.code,
+    };
+  }
+
+  const topOvertime = highest(components.filter((c) => c.kind === "overtime"));
+  const applied = components.filter((c) => c.kind !== "overtime" || c === topOvertime);
+  const multiplier =
+    mode === "additive"
+      ? applied.reduce((sum, c) => sum + (c.multiplier - 1), 1)
+      : applied.reduce((product, c) => product * c.multiplier, 1);
+
+  return {
+    applied,
+    absorbed: components.filter((c) => !applied.includes(c)),
+    multiplier: roundMultiplier(multiplier),
+    code: applied.map((c) => c.code).join("+"),
+  };
+}
+
+function part(c: RateComponent): RateBreakdownPart {
+  return { kind: c.kind, code: c.code, multiplier: c.multiplier, rule: c.rule };
+}
+
+function mergeParts(a: RateBreakdownPart[], b: RateBreakdownPart[]): RateBreakdownPart[] {
+  const byKey = new Map(a.map((p) => [`${p.rule}|${p.code}`, p]));
+  for (const p of b) if (!byKey.has(`${p.rule}|${p.code}`)) byKey.set(`${p.rule}|${p.code}`, p);
+  return Array.from(byKey.values());
+}
+
+function lineKey(
+  l: Pick<PayLine, "employeeId" | "employeeName" | "date" | "jobCode" | "category" | "multiplier" | "meta">,
+) {
+  return [l.employeeId ?? l.employeeName, l.date, l.jobCode, l.category, l.multiplier, JSON.stringify(l.meta ?? {})].join(
+    "|",
+  );
+}
+
+/**
+ * Stacking stage: segments -> pay lines.
+ * Each segment is resolved with its job's stacking mode (company default "highest").
+ * Segments that resolve to the same employee/day/job/category/multiplier are merged into one line,
+ * and the line's rateBreakdown keeps every component that was paid or absorbed for audit.
+ */
+export function resolveStacking(
+  segments: Segment[],
+  input: EngineInput,
+): { payLines: PayLine[]; messages: string[] } {
+  const byKey = new Map<string, PayLine>();
+  const absorbedByMode = new Map<StackingMode, number>();
+
+  for (const seg of segments) {
+    const mode = rulesetForJob(input, seg.jobCode).stacking?.mode ?? DEFAULT_STACKING_MODE;
+    const { applied, absorbed, multiplier, code } = resolveComponents(seg.components, mode);
+    if (absorbed.length) absorbedByMode.set(mode, (absorbedByMode.get(mode) ?? 0) + absorbed.length);
+
+    const meta = applied.reduce<Record<string, string | number | boolean> | undefined>(
+      (acc, c) => (c.meta ? { ...(acc ?? {}), ...c.meta } : acc),
+      undefined,
+    );
+
+    const explain = [
+      ...seg.components.map((c) => c.note).filter((n): n is string => Boolean(n)),
+      ...(applied.length > 1 ? [`${code}: ${applied.map((c) => `${c.multiplier}x`).join(" & ")} ${mode} = ${multiplier}x`] : []),
+      ...absorbed.map((c) => `${c.code} (${c.multiplier}x from ${c.rule}) absorbed by ${code} (${mode})`),
+    ];
+
+    const draft: PayLine = {
+      employeeId: seg.employeeId,
+      employeeName: seg.employeeName,
+      jobCode: seg.jobCode,
+      date: seg.date,
+      category: code,
+      multiplier,
+      minutes: 0,
+      hours: 0,
+      ...(meta ? { meta } : {}),
+    };
+
+    const k = lineKey(draft);
+    const line = byKey.get(k) ?? draft;
+    line.minutes += seg.minutes;
+    line.hours = line.minutes / 60;
+    line.sourceEntryIds = Array.from(new Set([...(line.sourceEntryIds ?? []), seg.entryId]));
+    if (explain.length) line.explain = Array.from(new Set([...(line.explain ?? []), ...explain]));
+    if (seg.components.length) {
+      const breakdown: RateBreakdown = line.rateBreakdown ?? { mode, applied: [], absorbed: [] };
+      line.rateBreakdown = {
+        mode,
+        applied: mergeParts(breakdown.applied, applied.map(part)),
+        absorbed: mergeParts(breakdown.absorbed, absorbed.map(part)),
+      };
+    }
+    byKey.set(k, line);
+  }
+
+  const payLines = Array.from(byKey.values()).sort(
+    (a, b) =>
+      a.employeeName.localeCompare(b.employeeName) ||
+      a.date.localeCompare(b.date) ||
+      a.jobCode.localeCompare(b.jobCode) ||
+      a.multiplier - b.multiplier,
+  );
+
+  return {
+    payLines,
+    messages: [
+      `${segments.length} segments -> ${payLines.length} lines`,
+      ...Array.from(absorbedByMode).map(([mode, count]) => `${count} components absorbed (${mode})`),
+    ],
+  };
+}
@@ -1 +1,131 @@
-// src/payroll/rules/super.ts
+// src/payroll_calc/rules/super.ts
+import { roundMoney, sumMoney } from "../money";
+import { quarterStartISO } from "../time";
+import type { EngineInput, PayLine, SuperSummary } from "../types";
+import { buildPayCategoryRegistry, tagPayCategories } from "./ote";
+
+export const SUPER_CATEGORY = "Super guarantee";
+export const DEFAULT_SG_RATE = 0.12;
+export const DEFAULT_MAX_QUARTERLY_BASE = 62500; // 2025-26 maximum super contribution base
+
+function positive(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * Super stage: the super guarantee as an employer on-cost, after deductions so it can see salary sacrifice.
+ * - the base is the employee's super-liable pay for the period (rules/ote.ts), capped so the quarter's total base
+ *   (input.superQuarterToDate + this period) doesn't pass the maximum contribution base
+ * - salary sacrifice is taken from pay but still counts as OTE, so it never reduces the SG; it's reported
+ *   alongside (the sacrificed $ go to the fund on top)
+ * - one line per employee per job with OTE, split pro-rata so super lands on the job that earned it;
+ *   units = $ of base, unitRate = the SG rate, isOnCost so it's costed but never paid or pushed to Xero
+ * Leave taken comes in as input.leave (rules/leaveTaken.ts), so it's in the base like any other OTE line.
+ * Returns every input line with its pay category and flags stamped in `meta`, plus the new super lines.
+ */
+export function applySuper(
+  payLines: PayLine[],
+  input: EngineInput,
+): { payLines: PayLine[]; superLines: PayLine[]; summaries: SuperSummary[]; messages: string[] } {
+  const config = input.ruleset.superannuation ?? {};
+  const rate = positive(config.rate, DEFAULT_SG_RATE);
+  const maxBase = positive(config.maxQuarterlyBase, DEFAULT_MAX_QUARTERLY_BASE);
+  const category = String(config.label ?? "").trim() || SUPER_CATEGORY;
+  const percent = Number((rate * 100).toFixed(2));
+
+  const registry = buildPayCategoryRegistry(input.payCategories);
+  const tagged = tagPayCategories(payLines, registry);
+  const messages: string[] = [];
+  const superLines: PayLine[] = [];
+  const summaries: SuperSummary[] = [];
+
+  const byEmployee = new Map<string, PayLine[]>();
+  for (const l of tagged) {
+    const id = l.employeeId ?? l.employeeName;
+    byEmployee.set(id, [...(byEmployee.get(id) ?? []), l]);
+  }
+
+  for (const [employeeId, lines] of byEmployee) {
+    const earnings = lines.filter((l) => l.meta?.superLiable === true);
+    const first = earnings[0];
+    const dates = earnings.map((l) => l.date).sort();
+    const date = input.period?.endISO ?? dates[dates.length - 1];
+    if (!first || !date) continue;
+
+    const oteByJob = new Map<string, number>();
+    for (const l of earnings) oteByJob.set(l.jobCode, (oteByJob.get(l.jobCode) ?? 0) + (l.cost ?? 0));
+    const ote = sumMoney(Array.from(oteByJob.values()));
+    if (ote <= 0) continue;
+
+    const salarySacrifice = sumMoney(
+      lines.filter((l) => l.isDeduction && l.meta?.deductionKind === "salarySacrifice").map((l) => -(l.cost ?? 0)),
+    );
+
+    const quarterStart = quarterStartISO(date);
+    const priorBase = Math.max(0, Number(input.superQuarterToDate?.[employeeId]) || 0);
+    const superBase = roundMoney(Math.min(ote, Math.max(0, maxBase - priorBase)));
+    const superGuarantee = roundMoney(superBase * rate);
+    if (superBase < ote) {
+      messages.push(
+        `${first.employeeName}: super base capped at $${superBase.toFixed(2)} of $${ote.toFixed(2)} OTE ` +
+          `($${maxBase.toFixed(2)} quarterly maximum, $${priorBase.toFixed(2)} already used)`,
+      );
+    }
+    if (salarySacrifice > 0) {
+      messages.push(`${first.employeeName}: $${salarySacrifice.toFixed(2)} salary sacrifice on top of the SG`);
+    }
+    summaries.push({
+      employeeId,
+      employeeName: first.employeeName,
+      quarterStart,
+      ote,
+      superBase,
+      superGuarantee,
+      salarySacrifice,
+    });
+    if (superGuarantee <= 0) continue;
+
+    // Pro-rata by job; the last job takes the rounding so the lines add up to the SG exactly
+    const jobs = Array.from(oteByJob).filter(([, amount]) => amount > 0);
+    let baseLeft = superBase;
+    let superLeft = superGuarantee;
+    jobs.forEach(([jobCode, jobOte], i) => {
+      const last = i === jobs.length - 1;
+      const base = last ? baseLeft : roundMoney((superBase * jobOte) / ote);
+      const cost = last ? superLeft : roundMoney(base * rate);
+      baseLeft = roundMoney(baseLeft - base);
+      superLeft = roundMoney(superLeft - cost);
+      if (cost <= 0) return;
+
+      superLines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode,
+        date,
+        category,
+        multiplier: 1,
+        minutes: 0,
+        hours: 0,
+        units: base,
+        unitRate: rate,
+        baseRate: first.baseRate,
+        rateApplied: rate,
+        cost,
+        isOnCost: true,
+        explain: [
+          `${percent}% of $${base.toFixed(2)} OTE on ${jobCode || "no job"}`,
+          ...(superBase < ote ? [`quarterly maximum base $${maxBase.toFixed(2)} reached`] : []),
+        ],
+        meta: { payCategory: "superGuarantee", superRate: rate, quarterStart, ...(salarySacrifice > 0 ? { salarySacrifice } : {}) },
+      });
+    });
+  }
+
+  if (superLines.length) {
+    messages.push(
+      `${summaries.length} employees, super $${sumMoney(superLines.map((l) => l.cost ?? 0)).toFixed(2)} at ${percent}%`,
+    );
+  }
+  return { payLines: tagged, superLines: tagPayCategories(superLines, registry), summaries, messages };
+}
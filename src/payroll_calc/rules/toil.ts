@@ -1 +1,219 @@
-// src/payroll/rules/toil.ts
+// src/payroll_calc/rules/toil.ts
+import type { PayRule, RuleContext } from "../pipeline";
+import { groupSegments } from "../segment";
+import { addDaysISO } from "../time";
+import type { BalanceMovement, CompanyRuleset, NormalizedEntry, PayLine, Segment } from "../types";
+
+export const TOIL_JOB_CODE = "TOIL";
+export const TOIL_TAKEN_CATEGORY = "TOIL taken";
+export const TOIL_CASH_OUT_CATEGORY = "TOIL cashed out";
+
+function toilJobCode(ruleset: CompanyRuleset): string {
+  return String(ruleset.toil?.jobCode ?? "").trim() || TOIL_JOB_CODE;
+}
+
+/** An entry booked to the TOIL job: time off drawn from the TOIL balance, not work. */
+export function isToilEntry(ctx: RuleContext, entry: Pick<NormalizedEntry, "jobCode">): boolean {
+  const { ruleset } = ctx.input;
+  return Boolean(ruleset.toil) && entry.jobCode.trim().toUpperCase() === toilJobCode(ruleset).toUpperCase();
+}
+
+/** Rate unused TOIL is paid out at: minutes banked at the OT multiplier are already worth it. */
+export function toilCashOutMultiplier(ruleset: CompanyRuleset): number {
+  const configured = Number(ruleset.toil?.cashOutMultiplier);
+  if (Number.isFinite(configured) && configured > 0) return configured;
+  if (ruleset.toil?.rate === "multiplier") return 1;
+  return ruleset.overtime.tiers[0]?.multiplier ?? 1;
+}
+
+/**
+ * TOIL taken. Runs first (like RDOs) so time off never counts as worked time: segments from
+ * entries on the TOIL job are pulled out and paid as one ordinary-rate line per employee/day,
+ * drawing the same minutes down from the TOIL balance.
+ */
+export const toilTakenRule: PayRule = {
+  id: "toilTaken",
+  apply(state, ctx) {
+    const config = ctx.input.ruleset.toil;
+    if (!config) return state;
+
+    const toilEntryIds = new Set(ctx.entries.filter((e) => isToilEntry(ctx, e)).map((e) => e.id));
+    if (!toilEntryIds.size) return state;
+
+    const kept: Segment[] = [];
+    const taken: Segment[] = [];
+    for (const seg of state.segments) (toilEntryIds.has(seg.entryId) ? taken : kept).push(seg);
+
+    const lines: PayLine[] = [];
+    const movements: BalanceMovement[] = [];
+
+    for (const [key, day] of groupSegments(taken, (s) => `${s.employeeKey}|${s.date}`)) {
+      const first = day[0];
+      if (!first) continue;
+      const minutes = day.reduce((sum, s) => sum + s.minutes, 0);
+
+      lines.push({
+        employeeId: first.employeeId,
+        employeeName: first.employeeName,
+        jobCode: first.jobCode,
+        date: first.date,
+        category: String(config.label ?? "").trim() || TOIL_TAKEN_CATEGORY,
+        multiplier: 1,
+        minutes,
+        hours: minutes / 60,
+        sourceEntryIds: Array.from(new Set(day.map((s) => s.entryId))),
+        explain: [`time off in lieu: ${minutes} min from the TOIL balance`],
+        meta: { payCategory: "toilTaken", toilMinutes: -minutes },
+      });
+      movements.push({
+        employeeId: first.employeeKey,
+        employeeName: first.employeeName,
+        kind: "toil",
+        date: first.date,
+        minutes: -minutes,
+        reason: "taken",
+        rule: "toilTaken",
+      });
+      ctx.note(`${key}: ${minutes} min TOIL taken`);
+    }
+
+    return {
+      segments: kept,
+      lines: [...state.lines, ...lines],
+      movements: [...state.movements, ...movements],
+    };
+  },
+};
+
+/** Whether overtime on an entry is banked: the entry's own choice (mobile app), else the employee's election. */
+function banksToil(ctx: RuleContext, entry: NormalizedEntry | undefined): boolean {
+  const own = entry?.bankToil;
+  if (own != null) return own;
+  return Boolean(entry && ctx.employeeFor(entry.employeeKey)?.toilElection);
+}
+
+/**
+ * TOIL banking and cash-out. Runs last, once every other rule has seen the overtime as worked time.
+ *  - Overtime segments (any overtime component) on entries that bank TOIL, on jobs whose ruleset has
+ *    TOIL, are taken out of pay and banked per employee/day: one minute per minute, or the minutes
+ *    times the segment's overtime multiplier for `rate: "multiplier"`.
+ *  - TOIL taken that leaves the balance negative is flagged (still paid; payroll decides).
+ *  - With `cashOutAfterWeeks`, whatever is still unused at the end of the period from TOIL banked
+ *    before the window is paid out (oldest TOIL is used first).
+ */
+export const toilBankRule: PayRule = {
+  id: "toilBank",
+  apply(state, ctx) {
+    const entriesById = new Map(ctx.entries.map((e) => [e.id, e]));
+    const banking = (s: Segment) =>
+      Boolean(ctx.rulesetFor(s.jobCode).toil) &&
+      s.components.some((c) => c.kind === "overtime") &&
+      banksToil(ctx, entriesById.get(s.entryId));
+
+    const kept: Segment[] = [];
+    const banked: Segment[] = [];
+    for (const seg of state.segments) (banking(seg) ? banked : kept).push(seg);
+
+    const movements: BalanceMovement[] = [];
+    for (const [key, day] of groupSegments(banked, (s) => `${s.employeeKey}|${s.date}`)) {
+      const first = day[0];
+      if (!first) continue;
+
+      const overtime = day.reduce((sum, s) => sum + s.minutes, 0);
+      const minutes = Math.round(
+        day.reduce((sum, s) => {
+          if (ctx.rulesetFor(s.jobCode).toil?.rate !== "multiplier") return sum + s.minutes;
+          const multiplier = Math.max(...s.components.filter((c) => c.kind === "overtime").map((c) => c.multiplier));
+          return sum + s.minutes * multiplier;
+        }, 0),
+      );
+
+      movements.push({
+        employeeId: first.employeeKey,
+        employeeName: first.employeeName,
+        kind: "toil",
+        date: first.date,
+        minutes,
+        reason: "accrued",
+        rule: "toilBank",
+      });
+      ctx.note(`${key}: ${overtime} overtime min banked as ${minutes} min TOIL`);
+    }
+
+    const all = [...state.movements, ...movements];
+    const toilBalance = (employeeId: string, onOrBefore?: string) =>
+      all
+        .filter((m) => m.kind === "toil" && m.employeeId === employeeId && (!onOrBefore || m.date <= onOrBefore))
+        .reduce((sum, m) => sum + m.minutes, Number(ctx.input.balances?.[employeeId]?.toil ?? 0) || 0);
+
+    const lines = state.lines.map((line) => {
+      if (line.meta?.payCategory !== "toilTaken") return line;
+
+      const balance = toilBalance(line.employeeId ?? line.employeeName, line.date);
+      if (balance >= 0) return line;
+
+      ctx.note(`${line.employeeName} ${line.date}: TOIL balance negative (${balance} min)`);
+      return {
+        ...line,
+        explain: [...(line.explain ?? []), `TOIL balance negative after this day: ${(balance / 60).toFixed(2)}h`],
+        meta: { ...line.meta, toilNegative: true },
+      };
+    });
+
+    const { ruleset, period } = ctx.input;
+    const weeks = Number(ruleset.toil?.cashOutAfterWeeks);
+    if (!ruleset.toil || !period || !Number.isFinite(weeks) || weeks <= 0) {
+      return { segments: kept, lines, movements: all };
+    }
+
+    // Banked before this date and still unused at the end of the period: paid out
+    const cutoff = addDaysISO(period.endISO, -Math.round(weeks * 7));
+    const employeeIds = new Set([
+      ...Object.keys(ctx.input.balances ?? {}),
+      ...all.filter((m) => m.kind === "toil").map((m) => m.employeeId),
+    ]);
+
+    const cashOut: PayLine[] = [];
+    const cashedOut: BalanceMovement[] = [];
+    for (const employeeId of employeeIds) {
+      const balance = toilBalance(employeeId);
+      const recent = [
+        ...(ctx.input.toilAccruals?.[employeeId] ?? []),
+        ...all.filter((m) => m.kind === "toil" && m.employeeId === employeeId && m.reason === "accrued"),
+      ]
+        .filter((a) => a.date > cutoff)
+        .reduce((sum, a) => sum + a.minutes, 0);
+      const minutes = Math.round(balance - recent);
+      if (minutes <= 0) continue;
+
+      const employeeName =
+        ctx.employeeFor(employeeId)?.name ?? all.find((m) => m.employeeId === employeeId)?.employeeName ?? employeeId;
+      const multiplier = toilCashOutMultiplier(ruleset);
+
+      cashOut.push({
+        employeeId,
+        employeeName,
+        jobCode: toilJobCode(ruleset),
+        date: period.endISO,
+        category: String(ruleset.toil.cashOutLabel ?? "").trim() || TOIL_CASH_OUT_CATEGORY,
+        multiplier,
+        minutes,
+        hours: minutes / 60,
+        explain: [`TOIL banked on or before ${cutoff} and not taken within ${weeks} weeks: ${minutes} min paid out`],
+        meta: { payCategory: "toilCashOut", toilMinutes: -minutes },
+      });
+      cashedOut.push({
+        employeeId,
+        employeeName,
+        kind: "toil",
+        date: period.endISO,
+        minutes: -minutes,
+        reason: "cashedOut",
+        rule: "toilBank",
+      });
+      ctx.note(`${employeeName}: ${minutes} min TOIL older than ${weeks} weeks cashed out at ${multiplier}x`);
+    }
+
+    return { segments: kept, lines: [...lines, ...cashOut], movements: [...all, ...cashedOut] };
+  },
+};
@@ -1 +1,123 @@
-// src/payroll/segment.ts
+// src/payroll_calc/segment.ts
+import { MS_PER_MINUTE, addDaysISO, minutesBetween, zonedMidnightMs, zonedParts, zonedTimeMs } from "./time";
+import type { NormalizedEntry, Segment } from "./types";
+
+/**
+ * Worked intervals of an entry.
+ * The unpaid break is taken out of the middle of the shift so the minutes either
+ * side keep their real clock times (matters for time-of-day and day-boundary rules).
+ */
+export function workedIntervals(entry: NormalizedEntry): Array<[number, number]> {
+  if (entry.breakMinutes <= 0) return [[entry.startMs, entry.endMs]];
+
+  const breakMs = entry.breakMinutes * MS_PER_MINUTE;
+  const mid = entry.startMs + Math.round((entry.endMs - entry.startMs - breakMs) / 2 / MS_PER_MINUTE) * MS_PER_MINUTE;
+
+  const intervals: Array<[number, number]> = [
+    [entry.startMs, mid],
+    [mid + breakMs, entry.endMs],
+  ];
+  return intervals.filter(([a, b]) => b > a);
+}
+
+/** Split [startMs, endMs) at every local midnight it crosses. */
+function splitAtMidnights(startMs: number, endMs: number, timezone: string): Array<[number, number, string]> {
+  const out: Array<[number, number, string]> = [];
+  let cursor = startMs;
+
+  while (cursor < endMs) {
+    const date = zonedParts(cursor, timezone).date;
+    const nextMidnight = zonedMidnightMs(addDaysISO(date, 1), timezone);
+    const stop = Math.min(endMs, nextMidnight);
+    out.push([cursor, stop, date]);
+    cursor = stop;
+  }
+
+  return out;
+}
+
+export function makeSegment(entry: NormalizedEntry, startMs: number, endMs: number, date: string): Segment {
+  return {
+    entryId: entry.id,
+    employeeKey: entry.employeeKey,
+    employeeId: entry.employeeId,
+    employeeName: entry.employeeName,
+    jobCode: entry.jobCode,
+    timezone: entry.timezone,
+    date,
+    shiftDate: entry.date,
+    startMs,
+    endMs,
+    minutes: minutesBetween(startMs, endMs),
+    components: [],
+  };
+}
+
+/** Stage 2: entries -> day-bounded segments of worked time (chronological). */
+export function segmentEntries(entries: NormalizedEntry[]): Segment[] {
+  const out: Segment[] = [];
+
+  for (const entry of entries) {
+    for (const [a, b] of workedIntervals(entry)) {
+      for (const [s, e, date] of splitAtMidnights(a, b, entry.timezone)) {
+        const seg = makeSegment(entry, s, e, date);
+        if (seg.minutes > 0) out.push(seg);
+      }
+    }
+  }
+
+  return sortSegments(out);
+}
+
+export function sortSegments(segments: Segment[]): Segment[] {
+  return [...segments].sort((a, b) => a.startMs - b.startMs || a.entryId.localeCompare(b.entryId));
+}
+
+/**
+ * Cut a segment at an instant. Both halves keep the components already applied.
+ * Returns the original segment alone when `atMs` is not strictly inside it.
+ */
+export function splitSegmentAt(seg: Segment, atMs: number): Segment[] {
+  if (atMs <= seg.startMs || atMs >= seg.endMs) return [seg];
+  return [
+    { ...seg, endMs: atMs, minutes: minutesBetween(seg.startMs, atMs), components: [...seg.components] },
+    { ...seg, startMs: atMs, minutes: minutesBetween(atMs, seg.endMs), components: [...seg.components] },
+  ];
+}
+
+/** Cut a segment after its first `minutes` worked minutes. */
+export function splitSegmentAfter(seg: Segment, minutes: number): Segment[] {
+  return splitSegmentAt(seg, seg.startMs + minutes * MS_PER_MINUTE);
+}
+
+/**
+ * Cut a segment at local wall-clock minutes of its own date (18:00 = 1080).
+ * Segments never cross midnight, so a 23:00-07:00 window only needs cuts at 07:00 and 23:00.
+ */
+export function splitSegmentAtClock(seg: Segment, clockMinutes: number[]): Segment[] {
+  const cuts = Array.from(new Set(clockMinutes.map((m) => zonedTimeMs(seg.date, m, seg.timezone)))).sort((a, b) => a - b);
+
+  let pieces = [seg];
+  for (const at of cuts) {
+    const last = pieces.pop();
+    if (last) pieces = [...pieces, ...splitSegmentAt(last, at)];
+  }
+  return pieces;
+}
+
+/** Local clock minute a segment starts at. */
+export function clockMinuteOf(seg: Segment): number {
+  return zonedParts(seg.startMs, seg.timezone).minuteOfDay;
+}
+
+/** Group segments by a key, keeping chronological order inside each group. */
+export function groupSegments(segments: Segment[], keyOf: (s: Segment) => string): Map<string, Segment[]> {
+  const out = new Map<string, Segment[]>();
+  for (const s of sortSegments(segments)) {
+    const k = keyOf(s);
+    const list = out.get(k);
+    if (list) list.push(s);
+    else out.set(k, [s]);
+  }
+  return out;
+}
@@ -1 +1,156 @@
-// src/payroll/time.ts
+// src/payroll_calc/time.ts
+import { PayrollCalcError } from "./errors";
+
+// Matches the @default on TimeEntry.timezone / MobileTimeEntry.timezone in prisma/schema.prisma
+export const DEFAULT_TIMEZONE = "Australia/Sydney";
+
+export const MS_PER_MINUTE = 60_000;
+export const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  const cached = formatters.get(timezone);
+  if (cached) return cached;
+
+  try {
+    const f = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, f);
+    return f;
+  } catch {
+    throw new PayrollCalcError("INVALID_TIMEZONE", `Unknown timezone "${timezone}"`);
+  }
+}
+
+/** Whether `timezone` is an IANA zone the engine can use, e.g. "Australia/Perth". */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type ZonedParts = {
+  date: string; // YYYY-MM-DD (local)
+  dow: number; // 0 Sun .. 6 Sat (local)
+  minuteOfDay: number; // 0..1439 (local)
+};
+
+/** Local calendar date / weekday / clock minute of an instant in `timezone`. */
+export function zonedParts(ms: number, timezone: string): ZonedParts {
+  const parts = formatterFor(timezone).formatToParts(new Date(ms));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  const y = get("year");
+  const m = get("month");
+  const d = get("day");
+  const date = `${y}-${pad2(m)}-${pad2(d)}`;
+
+  return {
+    date,
+    dow: dayOfWeekISO(date),
+    minuteOfDay: get("hour") * 60 + get("minute"),
+  };
+}
+
+/** Offset (local - UTC) in ms for an instant in `timezone`. */
+function offsetMs(ms: number, timezone: string): number {
+  const parts = formatterFor(timezone).formatToParts(new Date(ms));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a local wall-clock time (`minuteOfDay` on `dateISO`) in `timezone`.
+ * Wall times skipped by a DST jump resolve to the instant just after the jump.
+ */
+export function zonedTimeMs(dateISO: string, minuteOfDay: number, timezone: string): number {
+  const wall = isoToUtcMs(dateISO) + minuteOfDay * MS_PER_MINUTE;
+  // Two passes settle the offset either side of a DST transition.
+  let guess = wall - offsetMs(wall, timezone);
+  guess = wall - offsetMs(guess, timezone);
+  return guess;
+}
+
+/** UTC instant of local midnight at the start of `dateISO` in `timezone`. */
+export function zonedMidnightMs(dateISO: string, timezone: string): number {
+  return zonedTimeMs(dateISO, 0, timezone);
+}
+
+/* ============================
+   Calendar-date helpers (no timezone involved)
+============================ */
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export function isISODate(s: unknown): s is string {
+  return typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+export function isoToUtcMs(dateISO: string): number {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateISO);
+  if (!m) throw new PayrollCalcError("INVALID_DATE", `Invalid ISO date: ${dateISO}`);
+  return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+export function addDaysISO(dateISO: string, days: number): string {
+  return new Date(isoToUtcMs(dateISO) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/** 0 Sun .. 6 Sat */
+export function dayOfWeekISO(dateISO: string): number {
+  return new Date(isoToUtcMs(dateISO)).getUTCDay();
+}
+
+export function daysBetweenISO(fromISO: string, toISO: string): number {
+  return Math.round((isoToUtcMs(toISO) - isoToUtcMs(fromISO)) / MS_PER_DAY);
+}
+
+/** First day (YYYY-MM-DD) of the week containing `dateISO`; weeks start on `weekStartsOn` (0 Sun .. 6 Sat). */
+export function weekStartISO(dateISO: string, weekStartsOn = 1): string {
+  const back = (dayOfWeekISO(dateISO) - weekStartsOn + 7) % 7;
+  return addDaysISO(dateISO, -back);
+}
+
+/** First day (YYYY-MM-DD) of the calendar quarter (Jan / Apr / Jul / Oct) containing `dateISO`. */
+export function quarterStartISO(dateISO: string): string {
+  const d = new Date(isoToUtcMs(dateISO));
+  const month = Math.floor(d.getUTCMonth() / 3) * 3 + 1;
+  return `${d.getUTCFullYear()}-${String(month).padStart(2, "0")}-01`;
+}
+
+export function minutesBetween(startMs: number, endMs: number): number {
+  return Math.max(0, Math.round((endMs - startMs) / MS_PER_MINUTE));
+}
+
+/** Whether a clock minute falls inside [start, end); start > end means the window crosses midnight. */
+export function inClockWindow(minute: number, startMinute: number, endMinute: number): boolean {
+  return startMinute <= endMinute
+    ? minute >= startMinute && minute < endMinute
+    : minute >= startMinute || minute < endMinute;
+}
+
+/**
+ * First day of the pay week containing `dateISO`.
+ * With an active pay period, weeks are counted from its start date (so a fortnight is two
+ * weeks aligned to the period); otherwise calendar weeks starting on `weekStartsOn`.
+ */
+export function payWeekStartISO(dateISO: string, periodStartISO?: string, weekStartsOn = 1): string {
+  if (!periodStartISO) return weekStartISO(dateISO, weekStartsOn);
+  const weeks = Math.floor(daysBetweenISO(periodStartISO, dateISO) / 7);
+  return addDaysISO(periodStartISO, weeks * 7);
+}
@@ -4,16 +4,371 @@ export type TimeEntry = {
   startISO: string;
   endISO: string;
   unpaidBreakMinutes: number;
+
+  // Optional extras carried through from imports / DB rows
+  id?: string;
+  employeeId?: string;
+  timezone?: string; // IANA zone, defaults to Australia/Sydney like the TimeEntry model
+  isCallout?: boolean | string | null; // called back to site (TimeEntry.isCallout); CSV imports give "true" / "false"
+  site?: string; // site the work was on (Fergus site name / code), for site allowances
+  km?: number; // work travel logged against the entry, for per-km allowances
+  bankToil?: boolean | string | null; // overtime on this entry to TOIL (true) or paid (false); unset = the employee's election
+};
+
+export type OvertimeTier = {
+  firstMinutes?: number;
+  multiplier: number;
+  label: string;
+};
+
+// PayrollEmployee.employmentType
+export type EmploymentType = "fullTime" | "partTime" | "casual" | "apprentice" | "salaried";
+
+// Keys for per-employee-type rule overrides; "permanent" covers every non-casual type (employment.ts)
+export type EmploymentTypeKey = EmploymentType | "permanent";
+
+// Multipliers by day of week (0 Sun .. 6 Sat); tiers run in sequence from the start of that day's work
+export type DayPenaltyTable = Partial<Record<number, Array<OvertimeTier>>>;
+
+// Afternoon / night shift window (rules/penaltiesTimeOfDay.ts)
+export type TimeOfDayPenalty = {
+  label: string; // pay line category, e.g. "NIGHT30"
+  startMinute: number; // local clock minutes; start > end crosses midnight (23:00-07:00 = 1380..420)
+  endMinute: number;
+  loadingPercent: number; // +15 = paid at 1.15x
+};
+
+// Rostered shift classification (rules/loadingsShift.ts)
+export type ShiftClass = "day" | "afternoon" | "night" | "permanentNight";
+
+// Start-time window for a classification, local clock minutes; start > end crosses midnight
+export type ShiftBand = { shift: ShiftClass; startMinute: number; endMinute: number };
+
+export type AuState = "NSW" | "VIC" | "QLD" | "WA" | "SA" | "TAS" | "ACT" | "NT";
+
+/** A day off from the bundled calendar (holidaysAU.ts). */
+export type PublicHoliday = {
+  date: string; // YYYY-MM-DD
+  name: string;
+  states: AuState[] | "all";
+  substitute?: boolean; // weekend holiday moved to a weekday
 };
 
+/** Admin-entered day (PayrollPublicHoliday table); state null = every state. */
+export type PublicHolidayOverride = {
+  date: string; // YYYY-MM-DD
+  name: string;
+  state?: AuState | null;
+  kind: "extra" | "substitute";
+  replacesDate?: string | null; // substitute: the bundled date it moves
+};
+
+/** A day of leave taken (Fergus leave rows): paid at the base rate and part of the super base. */
+export type LeaveTaken = {
+  employeeId: string;
+  employeeName?: string;
+  leaveType: string; // Xero leave type name, e.g. "Annual Leave"; becomes the line's category
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  jobCode?: string;
+};
+
+/** A rostered on-call / standby window (PayrollOnCallRoster). */
+export type OnCallShift = {
+  id?: string;
+  employeeId: string;
+  startISO: string;
+  endISO: string;
+  timezone?: string;
+  rate: number; // standby allowance $ for the window
+};
+
+/**
+ * What a pay line is, for on-cost purposes (rules/ote.ts). Rules stamp it on the lines they emit as
+ * `meta.payCategory`; stacked time lines get ordinary / overtime / penalty / loading from their components.
+ */
+export type PayCategoryKey =
+  | "ordinary"
+  | "overtime"
+  | "penalty"
+  | "loading"
+  | "casualLoading"
+  | "callout"
+  | "minimumEngagement"
+  | "publicHolidayNotWorked"
+  | "rdoTaken"
+  | "toilTaken"
+  | "toilCashOut"
+  | "brokenShiftAllowance"
+  | "onCallAllowance"
+  | "allowance"
+  | "toolAllowance"
+  | "vehicleAllowance"
+  | "faresAllowance"
+  | "travelTime"
+  | "siteAllowance"
+  | "districtAllowance"
+  | "livingAwayAllowance"
+  | "fifoTravel"
+  | "fifoTravelAllowance"
+  | "bonus"
+  | "leave"
+  | "deduction"
+  | "superGuarantee";
+
+export type PayCategoryFlags = {
+  ote: boolean; // ordinary time earnings (super base, leave loadings)
+  superLiable: boolean;
+  payrollTaxLiable: boolean;
+  workersCompLiable: boolean;
+};
+
+/** One employee's super guarantee for a payrun (rules/super.ts), stored per period in PayrollSuperLedger. */
+export type SuperSummary = {
+  employeeId: string;
+  employeeName: string;
+  quarterStart: string; // YYYY-MM-DD, first day of the quarter the period ends in
+  ote: number; // $ ordinary time earnings this period
+  superBase: number; // $ of it super was paid on, after the quarterly maximum base
+  superGuarantee: number; // $ employer contribution
+  salarySacrifice: number; // $ sacrificed to super on top (doesn't reduce the SG)
+};
+
+/** Banked time kept per employee across pay periods (PayrollBalanceMovement). */
+export type BalanceKind = "rdo" | "toil";
+
+/** A change to an employee's banked time produced by a payrun, in minutes (+ accrued, - drawn down). */
+export type BalanceMovement = {
+  employeeId: string;
+  employeeName: string;
+  kind: BalanceKind;
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  reason: "accrued" | "taken" | "cashedOut";
+  rule: string;
+};
+
+/**
+ * Admin-defined site bonus (PayrollBonusScheme, rules/miningBonuses.ts). The formula is the $ each
+ * eligible employee gets, over the site's metrics for the period plus `daysAttended` / `periodDays`.
+ */
+export type BonusScheme = {
+  id?: string;
+  name: string;
+  site: string; // site code: metrics are entered against it; attendance = days worked on that site / job code
+  formula: string; // e.g. "tonnes * 0.02 * daysAttended / periodDays" or "daysWithoutIncident >= 28 ? 500 : 0"
+  minDaysAttended?: number;
+  cap?: number; // $ per employee per period
+  ote: boolean; // ordinary time earnings: super is paid on it
+};
+
+// What a recurring deduction is for (rules/deductions.ts); picks the Xero DeductionType when no name matches
+export type DeductionKind = "union" | "salarySacrifice" | "repayment" | "childSupport" | "other";
+
+/** A recurring per-employee deduction (PayrollDeductionSchedule), taken once per pay period. */
+export type DeductionSchedule = {
+  id?: string;
+  employeeId: string;
+  name: string; // pay line category; a Xero DeductionType with the same name wins
+  kind: DeductionKind;
+  amountType: "fixed" | "percent";
+  amount: number; // $ per pay period, or % of the period's gross earnings
+  startDate?: string | null; // YYYY-MM-DD, inclusive
+  endDate?: string | null; // YYYY-MM-DD, inclusive
+  cap?: number | null; // most taken in one pay period ($)
+  preTax: boolean; // taken from gross before PAYG (salary sacrifice) vs from net pay
+};
+
+// What an allowance is paid per (rules/allowances.ts)
+export type AllowanceUnit = "day" | "shift" | "hour" | "km";
+
+// Local day type for allowance conditions; a public holiday beats the weekday / weekend
+export type DayType = "weekday" | "saturday" | "sunday" | "publicHoliday";
+
+/** Every condition on an allowance must hold (rules/allowancesConditions.ts). */
+export type AllowanceCondition =
+  | { kind: "minHours"; hours: number } // worked at least this many hours that day (all jobs)
+  | { kind: "jobCodes"; jobCodes: string[] } // only time on these jobs
+  | { kind: "sites"; sites: string[] } // only time on these sites (TimeEntry.site, case-insensitive)
+  | { kind: "dayTypes"; dayTypes: DayType[] }
+  | { kind: "classification"; employmentTypes?: EmploymentType[]; classifications?: string[] };
+
+/** A configured allowance, e.g. { name: "Site allowance", unit: "hour", rate: 2.5, taxable: true, superLiable: false } */
+export type AllowanceDefinition = {
+  id: string;
+  name: string; // pay line category; match a Xero earnings rate of the same name
+  unit: AllowanceUnit;
+  rate: number; // $ per unit
+  taxable: boolean;
+  superLiable: boolean;
+  conditions?: AllowanceCondition[];
+};
+
+/** A point on the map, decimal degrees (PayrollSite). */
+export type GeoPoint = { lat: number; lng: number };
+
+// Fare / travel time band by one-way straight-line distance from the depot (rules/allowancesTravel.ts)
+export type TravelZone = {
+  fromKm: number;
+  toKm?: number; // exclusive; unset = no upper limit
+  label?: string; // e.g. "Zone 2 (20-50km)"
+  fare?: number; // $ per day travelled to a site in this zone
+  travelMinutes?: number; // paid travel time per day
+};
+
+/** Remote / mine site paid per FIFO swing (rules/miningAllowances.ts); keyed by site code in the ruleset. */
+export type MiningSite = {
+  name?: string;
+  siteAllowance?: number; // $ per day worked on site
+  districtAllowance?: number; // $ per day worked on site, for the remote district
+  livingAwayPerNight?: number; // LAFHA-style $ per night on site (nights between swing days)
+  travelDay?: { minutes?: number; allowance?: number }; // fly-in and fly-out days: paid travel time and/or a flat $
+  swingDays?: number; // rostered days on (14 of a 14/7); longer swings are flagged
+  labels?: { site?: string; district?: string; livingAway?: string; travel?: string };
+};
+
+// How a segment's overtime / penalty / loading components combine into one rate (rules/stacking.ts)
+export type StackingMode = "highest" | "additive" | "compounding" | "otReplacesPenalty";
+
+export type OvertimeMethod = "dailyThenWeekly" | "daily" | "weekly" | "higherOf";
+
 export type CompanyRuleset = {
   overtime: {
     ordinaryMinutesPerDay: number;
-    tiers: Array<{
-      firstMinutes?: number;
-      multiplier: number;
-      label: string;
-    }>;
+    tiers: Array<OvertimeTier>;
+
+    // How daily and weekly OT combine (default "dailyThenWeekly"):
+    // - dailyThenWeekly: daily OT first, then weekly OT on the minutes still ordinary
+    // - daily / weekly: only that one
+    // - higherOf: compute both per employee-week, pay whichever allocation is worth more (weighted minutes)
+    method?: OvertimeMethod;
+
+    // Extra daily OT triggers (rules/overtimeDaily.ts), each off unless set.
+    // Triggered minutes are OT whatever the day's total and take the tiers in sequence.
+    span?: { startMinute: number; endMinute: number }; // ordinary span, local clock minutes (360..1080 = 6am-6pm)
+    maxShiftMinutes?: number; // OT once a single shift passes this many worked minutes
+    minRestMinutes?: number; // OT for work inside this rest break after the previous day's shift (e.g. 600)
+
+    // Weekly accumulation (rules/overtimeWeekly.ts). On unless enabled === false.
+    weekly?: {
+      enabled?: boolean;
+      ordinaryMinutesPerWeek?: number; // used when the employee has no weeklyHours (default 38h)
+      weekStartsOn?: number; // 0 Sun .. 6 Sat; only used when there is no active pay period (default Mon)
+      tiers?: Array<OvertimeTier>; // defaults to the daily tiers
+    };
+  };
+
+  // Weekend / day-of-week penalties (rules/penaltiesDay.ts), e.g.
+  // { 6: [{ firstMinutes: 120, multiplier: 1.5, label: "SAT1.5" }, { multiplier: 2, label: "SAT2.0" }], 0: [...] }
+  dayPenalties?: {
+    byDay: DayPenaltyTable;
+    // Replaces byDay for the days it lists, for employees of that type
+    byEmploymentType?: Partial<Record<EmploymentTypeKey, DayPenaltyTable>>;
+  };
+
+  // Combining rates on the same minutes (default "highest": only the biggest multiplier is paid)
+  stacking?: { mode: StackingMode };
+
+  // Clock-time penalties, e.g. 18:00-23:00 +15%, 23:00-07:00 +30%
+  timeOfDayPenalties?: Array<TimeOfDayPenalty>;
+
+  // Whole-shift loadings by classification (rules/loadingsShift.ts), e.g.
+  // { loadings: { afternoon: { percent: 15 }, night: { percent: 30 }, permanentNight: { percent: 30 } } }
+  shiftLoadings?: {
+    bands?: Array<ShiftBand>; // classify by shift start; default DEFAULT_SHIFT_BANDS
+    loadings: Partial<Record<ShiftClass, { percent: number; label?: string }>>;
+  };
+  // Fixed classification for every shift on this job (usually set per job); employees can declare their own
+  shiftClass?: ShiftClass;
+
+  // Minimum paid time per engagement (rules/minimumEngagement.ts)
+  minimumEngagement?: {
+    minutes?: number; // casuals and part-timers, unless their employment type has its own
+    byEmploymentType?: Partial<Record<EmploymentTypeKey, number>>; // the only way full-timers etc. get one
+    mergeGapMinutes?: number; // same-day entries this close are one engagement (default 60)
+    label?: string; // top-up category (default "Minimum engagement")
+  };
+
+  // Call-outs (rules/calloutMinimum.ts): worked at `multiplier`, engagement topped up to `minutes`
+  callout?: { minutes: number; multiplier: number; label?: string };
+
+  // Split shifts (rules/brokenShift.ts): engagements on one day separated by more than minGapMinutes
+  brokenShift?: {
+    minGapMinutes: number; // unpaid gap that makes it a broken shift (e.g. 60)
+    allowance: number; // $ per broken shift day
+    label?: string; // allowance category (default "Broken shift allowance")
+    maxSpreadMinutes?: number; // from the first start; work past it is OT (e.g. 12h = 720)
+    spreadTier?: OvertimeTier; // rate outside the spread (default: the last daily OT tier)
+  };
+
+  // Standby allowance (rules/onCall.ts) and what happens to it when a call-out overlaps the window
+  onCall?: {
+    label?: string; // allowance category (default "On-call allowance")
+    whenCalledOut?: "keep" | "suppress" | "reduce"; // default "keep"
+    reduceBy?: number; // $ off the allowance for "reduce"
+  };
+
+  // Casual loading (rules/loadingsCasual.ts), e.g. { percent: 25, mode: "compound" }
+  // - separate: one extra line per day at percent of base rate over the hours worked
+  // - compound: folded into the segment's rate (OT1.5 -> 1.5 x 1.25 as "OT1.5+CAS25")
+  casualLoading?: { percent: number; mode: "separate" | "compound"; label?: string };
+
+  // Rostered days off (rules/loadingsRDO.ts): ordinary hours bank RDO time, entries on the RDO job draw it down.
+  // Accrual is pro-rata to a full ordinary day, e.g. 24 min (0.4h) per 8h day on a 38h week.
+  rdo?: {
+    accrualMinutesPerDay: number;
+    jobCode?: string; // job code RDO entries are booked against (default "RDO")
+    label?: string; // paid category (default "RDO taken")
+  };
+
+  // Time off in lieu (rules/toil.ts): overtime on entries the employee elects to bank goes to the TOIL balance
+  // instead of being paid; entries on the TOIL job draw it down, e.g. { rate: "multiplier", cashOutAfterWeeks: 12 }
+  toil?: {
+    rate?: "oneToOne" | "multiplier"; // per OT minute: one minute, or the OT multiplier's worth (default "oneToOne")
+    jobCode?: string; // job code TOIL taken is booked against (default "TOIL")
+    label?: string; // paid category (default "TOIL taken")
+    cashOutAfterWeeks?: number; // TOIL unused this long after it was banked is paid out; unset = never
+    cashOutMultiplier?: number; // paid out at (default: 1 when banked at the multiplier, else the first OT tier)
+    cashOutLabel?: string; // paid category (default "TOIL cashed out")
+  };
+
+  // Allowances paid on top of worked time (rules/allowances.ts). A job's list replaces the company's.
+  allowances?: AllowanceDefinition[];
+
+  // Weekly tool allowance by trade classification (rules/allowancesTools.ts), pro-rata to days worked, e.g.
+  // { weekly: { Electrician: 32.5, Plumber: 29.1 }, daysPerWeek: 5 }
+  toolAllowance?: {
+    weekly: Record<string, number>; // $ per full week, keyed by EmployeeProfile.classification (any case)
+    daysPerWeek?: number; // worked days that make a full week (default 5)
+    minMinutesPerDay?: number; // a day counts once this much is worked (default: any work)
+    label?: string; // category (default "Tool allowance")
+  };
+
+  // Depot -> site travel (rules/allowancesTravel.ts), e.g.
+  // { perKm: 0.99, zones: [{ fromKm: 0, toKm: 20 }, { fromKm: 20, toKm: 50, fare: 12, travelMinutes: 30 },
+  //   { fromKm: 50, fare: 25, travelMinutes: 60 }], travelTimePaidAs: "ordinary" }
+  travel?: {
+    perKm?: number; // vehicle allowance $ per km, depot -> site and back
+    zones?: TravelZone[];
+    travelTimePaidAs?: "ordinary" | "allowance"; // hours at the ordinary rate (default), or a flat allowance line
+    travelTimeRate?: number; // $ per hour for "allowance" (default: the employee's base rate)
+    defaultDepot?: string; // depot code for employees without a home depot
+    labels?: { vehicle?: string; fare?: string; travelTime?: string };
+  };
+
+  // FIFO / remote sites by site code (rules/miningAllowances.ts). Work belongs to a site when its
+  // TimeEntry.site or job code matches a key (any case), e.g. { "MT-WHALEBACK": { siteAllowance: 45, ... } }
+  miningSites?: Record<string, MiningSite>;
+
+  // Work on a public holiday (rules/publicHolidays.ts), e.g. { multiplier: 2.5, label: "PH2.5" }
+  publicHolidays?: { multiplier: number; label?: string };
+
+  // Super guarantee (rules/super.ts), company-wide; job overrides are ignored. Paid on every line that is
+  // ordinary time earnings (rules/ote.ts), e.g. { rate: 0.12, maxQuarterlyBase: 62500 }
+  superannuation?: {
+    rate?: number; // SG rate as a fraction (default 0.12)
+    maxQuarterlyBase?: number; // maximum super contribution base, OTE $ per quarter (default 62500)
+    label?: string; // on-cost category (default "Super guarantee")
   };
 };
 
@@ -30,5 +385,145 @@ export type PayLine = {
   // NEW (for costing + exports)
   employeeId?: string;
   baseRate?: number;   // $/hour
+  rateApplied?: number; // $/hour after multiplier
   cost?: number;       // $
+  isLeave?: boolean;
+  isDeduction?: boolean; // negative line taken from pay (rules/deductions.ts); not an employer cost
+  isOnCost?: boolean; // employer cost on top of pay (rules/super.ts); costed to the job, never paid to the employee
+
+  // Flat-rate lines (allowances): cost = units x unitRate, not baseRate x multiplier x hours
+  units?: number;
+  unitRate?: number; // $ per unit
+
+  // Engine audit trail (which entries fed this line, and why it was categorised this way)
+  sourceEntryIds?: string[];
+  explain?: string[];
+  meta?: Record<string, string | number | boolean>;
+  rateBreakdown?: RateBreakdown;
+};
+
+/** One component as it was paid (or absorbed) on a line. */
+export type RateBreakdownPart = {
+  kind: RateComponent["kind"];
+  code: string;
+  multiplier: number;
+  rule: string;
+};
+
+/** How stacking arrived at a line's multiplier: what was paid, and what was absorbed and not paid. */
+export type RateBreakdown = {
+  mode: StackingMode;
+  applied: RateBreakdownPart[];
+  absorbed: RateBreakdownPart[];
+};
+
+/* ============================
+   Engine (pipeline) types
+============================ */
+
+/** What the engine needs to know about a person to cost their time. */
+export type EmployeeProfile = {
+  id: string;
+  name: string;
+  baseRate: number; // $/hour
+  weeklyHours?: number | null;
+  noTimesheets?: boolean; // office/salaried: synthetic hours, never weekly OT
+  employmentType?: EmploymentType; // unknown = full-time
+  workDays?: number[]; // usual days worked, 0 Sun .. 6 Sat (default Mon-Fri)
+  shiftClass?: ShiftClass; // e.g. permanent night shift; beats the job's and the start-time classification
+  classification?: string; // trade classification, e.g. "Electrician" (allowance conditions)
+  homeDepot?: string; // depot code travel is measured from (EngineInput.depots)
+  toilElection?: boolean; // overtime goes to the TOIL balance unless an entry says otherwise (rules/toil.ts)
+};
+
+/** A raw TimeEntry after validation: real instants, resolved employee, worked minutes. */
+export type NormalizedEntry = {
+  id: string;
+  employeeKey: string; // employee id when known, otherwise the normalised name
+  employeeId?: string;
+  employeeName: string;
+  jobCode: string;
+  timezone: string;
+  startMs: number;
+  endMs: number;
+  breakMinutes: number;
+  workedMinutes: number;
+  date: string; // local YYYY-MM-DD the entry started on
+  isCallout: boolean; // source.isCallout, parsed (normalize.ts parseFlag)
+  bankToil: boolean | null; // source.bankToil, parsed; null = not set on the entry
+  source: TimeEntry;
+};
+
+/** A candidate rate applied to a segment by a rule (resolved later by stacking). */
+export type RateComponent = {
+  kind: "overtime" | "penalty" | "loading";
+  code: string; // becomes the pay line category if it wins, e.g. "OT1.5"
+  multiplier: number;
+  rule: string; // id of the rule that added it
+  note?: string;
+  meta?: Record<string, string | number | boolean>; // copied onto the pay line if this component wins
+};
+
+/** A contiguous slice of worked time that never crosses a local midnight. */
+export type Segment = {
+  entryId: string;
+  employeeKey: string;
+  employeeId?: string;
+  employeeName: string;
+  jobCode: string;
+  timezone: string;
+  date: string; // local YYYY-MM-DD
+  shiftDate: string; // local YYYY-MM-DD the entry started on; an overnight shift is one working day
+  startMs: number;
+  endMs: number;
+  minutes: number;
+  components: RateComponent[];
+};
+
+export type PipelineStage = "normalize" | "segment" | "rules" | "stacking" | "costing" | "deductions" | "super";
+
+export type StageTrace = {
+  stage: PipelineStage;
+  name: string; // stage name, or the rule id during the rules stage
+  messages: string[];
+};
+
+export type EngineInput = {
+  entries: TimeEntry[];
+  employees: EmployeeProfile[];
+  ruleset: CompanyRuleset;
+  // Per-job overrides (JobRules from /app/payroll/rules), merged over `ruleset`
+  jobRulesets?: Record<string, Partial<CompanyRuleset>>;
+  // Active pay period, inclusive YYYY-MM-DD
+  period?: { startISO: string; endISO: string };
+  // Company state (settings) + admin extra/substitute days; without a state only national days apply
+  publicHolidays?: { state?: AuState | null; overrides?: PublicHolidayOverride[] };
+  // On-call roster windows overlapping the period
+  onCall?: OnCallShift[];
+  // Leave taken in the period (not worked time; rules/leaveTaken.ts)
+  leave?: LeaveTaken[];
+  // Locations for travel allowances (PayrollSite): job code -> site, depot code -> depot
+  sites?: Record<string, GeoPoint>;
+  depots?: Record<string, GeoPoint>;
+  // Site bonus schemes and the metrics entered for this period: site code -> metric name -> value (PayrollSiteMetric)
+  bonusSchemes?: BonusScheme[];
+  siteMetrics?: Record<string, Record<string, number>>;
+  // Recurring deductions (PayrollDeductionSchedule); only those active in the period are taken
+  deductions?: DeductionSchedule[];
+  // Banked minutes per employee id at the start of the period (before this payrun's movements)
+  balances?: Record<string, Partial<Record<BalanceKind, number>>>;
+  // TOIL banked per employee id before the period but inside the cash-out window (PayrollBalanceMovement)
+  toilAccruals?: Record<string, Array<{ date: string; minutes: number }>>;
+  // Admin overrides of the pay category registry (PayrollPayCategory): key -> flags to change.
+  // Keys must be PayCategoryKeys; anything else fails the payrun (validateRuleset.ts).
+  payCategories?: Record<string, Partial<PayCategoryFlags>>;
+  // Super base already used per employee id this quarter, before the period starts (PayrollSuperLedger)
+  superQuarterToDate?: Record<string, number>;
+};
+
+export type EngineResult = {
+  payLines: PayLine[];
+  movements: BalanceMovement[]; // banked time accrued / drawn down by this payrun
+  super: SuperSummary[]; // per employee, for the quarter's running total
+  trace: StageTrace[];
 };
@@ -1 +1,51 @@
-// src/payroll/validateRuleset.ts
+// src/payroll_calc/validateRuleset.ts
+import { PAY_CATEGORY_FLAG_NAMES, isPayCategoryKey } from "./rules/ote";
+import type { EngineInput } from "./types";
+
+/** Problems with pay category overrides: unknown keys or flags, and flags that aren't true/false. */
+export function validatePayCategoryOverrides(overrides: unknown): string[] {
+  if (overrides == null) return [];
+  if (typeof overrides !== "object" || Array.isArray(overrides)) return ["pay category overrides must be an object"];
+
+  const problems: string[] = [];
+  for (const [key, flags] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!isPayCategoryKey(key)) {
+      problems.push(`unknown pay category "${key}"`);
+      continue;
+    }
+    if (!flags || typeof flags !== "object") {
+      problems.push(`${key}: flags must be an object`);
+      continue;
+    }
+    for (const [flag, value] of Object.entries(flags as Record<string, unknown>)) {
+      if (!(PAY_CATEGORY_FLAG_NAMES as string[]).includes(flag)) problems.push(`${key}: unknown flag "${flag}"`);
+      else if (value != null && typeof value !== "boolean") problems.push(`${key}.${flag} must be true or false`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Configuration the engine can't run with. The pipeline refuses such input outright
+ * (PayrollCalcError INVALID_RULESET) rather than paying on a guess.
+ */
+export function validateRuleset(input: Pick<EngineInput, "ruleset" | "payCategories">): string[] {
+  const problems = validatePayCategoryOverrides(input.payCategories);
+
+  const sg = input.ruleset.superannuation;
+  if (sg?.rate != null && !(Number(sg.rate) > 0 && Number(sg.rate) < 1)) {
+    problems.push("superannuation.rate must be a fraction between 0 and 1, e.g. 0.12");
+  }
+  if (sg?.maxQuarterlyBase != null && !(Number(sg.maxQuarterlyBase) > 0)) {
+    problems.push("superannuation.maxQuarterlyBase must be a positive $ amount");
+  }
+
+  const toil = input.ruleset.toil;
+  if (toil?.rate != null && toil.rate !== "oneToOne" && toil.rate !== "multiplier") {
+    problems.push('toil.rate must be "oneToOne" or "multiplier"');
+  }
+  if (toil?.cashOutAfterWeeks != null && !(Number(toil.cashOutAfterWeeks) > 0)) {
+    problems.push("toil.cashOutAfterWeeks must be a positive number of weeks");
+  }
+  return problems;
+}
@@ -0,0 +1,32 @@
+// src/server/payroll/balances.ts
+import { db } from "~/server/db";
+
+/** Banked minutes per kind, e.g. { rdo: 132 }. */
+export type BalanceTotals = Record<string, number>;
+
+/**
+ * Sum PayrollBalanceMovement rows per employee and kind.
+ * `beforeISO` (YYYY-MM-DD) limits it to movements dated before that day: the opening balance for a pay period.
+ */
+export async function balanceTotals(opts: {
+  xeroEmployeeId?: string;
+  beforeISO?: string;
+}): Promise<Map<string, BalanceTotals>> {
+  const rows = await db.payrollBalanceMovement.groupBy({
+    by: ["xeroEmployeeId", "kind"],
+    where: {
+      ...(opts.xeroEmployeeId ? { xeroEmployeeId: opts.xeroEmployeeId } : {}),
+      ...(opts.beforeISO ? { date: { lt: opts.beforeISO } } : {}),
+    },
+    _sum: { minutes: true },
+  });
+
+  const out = new Map<string, BalanceTotals>();
+  for (const r of rows as any[]) {
+    const id = String(r.xeroEmployeeId);
+    const totals = out.get(id) ?? {};
+    totals[String(r.kind)] = Number(r._sum?.minutes ?? 0);
+    out.set(id, totals);
+  }
+  return out;
+}
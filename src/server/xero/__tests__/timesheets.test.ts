@@ -0,0 +1,76 @@
+// src/server/xero/__tests__/timesheets.test.ts
+import { describe, expect, it } from "vitest";
+import type { PayLine } from "~/payroll_calc/types";
+import type { XeroEmployee, XeroPayItem } from "../payrollAu";
+import { buildTimesheetsFromPayLines, earningsRateIdFor } from "../timesheets";
+
+const xeroEmployee: XeroEmployee = {
+  EmployeeID: "X1",
+  FirstName: "Alex",
+  LastName: "Worker",
+  Status: "ACTIVE",
+  OrdinaryEarningsRateID: "ord",
+};
+
+const payItems: XeroPayItem = {
+  earningsRates: [
+    { earningsRateID: "ot15", name: "Overtime 1.5x" },
+    { earningsRateID: "sat15", name: "Saturday 1.5" },
+    { earningsRateID: "ph", name: "Public holiday worked" },
+  ],
+};
+
+const line = (category: string): PayLine => ({
+  employeeId: "E1",
+  employeeName: "Alex Worker",
+  jobCode: "J1",
+  date: "2026-06-02",
+  category,
+  multiplier: 1,
+  minutes: 120,
+  hours: 2,
+  sourceEntryIds: [],
+  explain: [],
+});
+
+describe("earningsRateIdFor", () => {
+  it("still guesses plain codes", () => {
+    expect(earningsRateIdFor("ORD", xeroEmployee, payItems)).toBe("ord");
+    expect(earningsRateIdFor("OT1.5", xeroEmployee, payItems)).toBe("ot15");
+    expect(earningsRateIdFor("SAT1.5", xeroEmployee, payItems)).toBe("sat15");
+    expect(earningsRateIdFor("PH2.5", xeroEmployee, payItems)).toBe("ph");
+  });
+
+  it.each(["OT1.5+CAS25", "SAT1.5+CAS25", "PH2.5+CAS25"])(
+    "doesn't drop the casual loading from %s onto a plain rate",
+    (category) => {
+      expect(earningsRateIdFor(category, xeroEmployee, payItems)).toBeNull();
+    },
+  );
+
+  it.each(["SAT1.5+NIGHT30", "OT2.0+NIGHT30"])(
+    "doesn't drop the night penalty from %s onto a plain rate",
+    (category) => {
+      expect(earningsRateIdFor(category, xeroEmployee, payItems)).toBeNull();
+    },
+  );
+
+  it("uses an explicit mapping for a combined code", () => {
+    expect(earningsRateIdFor("OT1.5+CAS25", xeroEmployee, payItems, { "ot1.5+cas25": "ot15cas" })).toBe("ot15cas");
+  });
+});
+
+describe("buildTimesheetsFromPayLines", () => {
+  it("reports an unmapped combined code as missing instead of pushing it", () => {
+    const { timesheets, warnings } = buildTimesheetsFromPayLines({
+      payLines: [line("ORD"), line("OT1.5+CAS25")],
+      periodStartISO: "2026-06-01",
+      periodEndISOInclusive: "2026-06-07",
+      xeroEmployees: [xeroEmployee],
+      payItems,
+    });
+
+    expect(timesheets[0]?.TimesheetLines.map((l) => l.EarningsRateID)).toEqual(["ord"]);
+    expect(warnings.missingCategories).toEqual([{ employeeName: "Alex Worker", category: "OT1.5+CAS25" }]);
+  });
+});
@@ -0,0 +1,186 @@
+// src/server/xero/deductions.ts
+
+import type { PayLine } from "~/payroll_calc/types";
+import type { XeroPayItem } from "~/server/xero/payrollAu";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+function norm(v: any) {
+  return s(v).toLowerCase().replace(/\s+/g, " ");
+}
+
+// Fallbacks when no DeductionType is named like the line: Xero DeductionCategory first, then name hints
+const KIND_HINTS: Record<string, { categories: string[]; name: RegExp }> = {
+  union: { categories: ["UNIONFEES"], name: /union/ },
+  salarySacrifice: { categories: ["SALARYSACRIFICE"], name: /salary\s*sacrifice|super/ },
+  childSupport: { categories: ["CHILDSUPPORT"], name: /child\s*support|garnish/ },
+  repayment: { categories: [], name: /repay|uniform|tool|loan|advance/ },
+};
+
+export type PayslipDeductionDraft = {
+  EmployeeID: string;
+  DeductionLines: Array<{
+    DeductionTypeID: string;
+    CalculationType: "FIXEDAMOUNT";
+    Amount: number;
+  }>;
+};
+
+/** Xero dates come back as "/Date(1538352000000+0000)/" or ISO strings. */
+function xeroDateISO(v: any): string {
+  const raw = s(v);
+  const ms = /\/Date\((-?\d+)/.exec(raw)?.[1];
+  const d = ms ? new Date(Number(ms)) : new Date(raw);
+  return Number.isNaN(d.getTime()) ? "" : d.toISOString().slice(0, 10);
+}
+
+/**
+ * Deductions can't go on Timesheets either: they are payslip DeductionLines against a
+ * DeductionType. One draft per employee, amounts summed per DeductionType.
+ */
+export function buildPayslipDeductionsFromPayLines(args: {
+  payLines: PayLine[];
+  employeeNameToId: Map<string, string>; // normalized name -> EmployeeID
+  payItems: XeroPayItem | null;
+}) {
+  const { payLines, employeeNameToId, payItems } = args;
+
+  const deductionLines = payLines.filter((l: any) => Boolean(l?.isDeduction));
+  if (!deductionLines.length) return { deductions: [] as PayslipDeductionDraft[], warnings: [] as string[] };
+
+  const types = ((payItems as any)?.deductionTypes ?? (payItems as any)?.DeductionTypes ?? []) as any[];
+  const typeFor = (category: string, kind: string): string => {
+    const byName = types.find((t) => norm(t?.name ?? t?.Name) === norm(category));
+    if (byName) return s(byName.deductionTypeID ?? byName.DeductionTypeID);
+
+    const hint = KIND_HINTS[kind];
+    if (!hint) return "";
+    const hit =
+      types.find((t) => hint.categories.includes(s(t?.deductionCategory ?? t?.DeductionCategory).toUpperCase())) ??
+      types.find((t) => hint.name.test(norm(t?.name ?? t?.Name)));
+    return s(hit?.deductionTypeID ?? hit?.DeductionTypeID);
+  };
+
+  const warnings: string[] = [];
+  const byEmployee = new Map<string, Map<string, number>>();
+
+  for (const l of deductionLines as any[]) {
+    const employeeName = s(l?.employeeName);
+    const employeeID = employeeNameToId.get(norm(employeeName)) ?? "";
+    if (!employeeID) {
+      warnings.push(`Deduction skipped: no Xero EmployeeID for "${employeeName}"`);
+      continue;
+    }
+
+    const category = s(l?.category);
+    const deductionTypeId = typeFor(category, s(l?.meta?.deductionKind));
+    if (!deductionTypeId) {
+      warnings.push(`Deduction skipped: could not find Xero DeductionTypeID for "${category}"`);
+      continue;
+    }
+
+    // Lines are negative in the payrun; Xero wants the amount taken as a positive number
+    const amount = Math.abs(Number(l?.cost ?? l?.unitRate) || 0);
+    if (!(amount > 0)) continue;
+
+    const byType = byEmployee.get(employeeID) ?? new Map<string, number>();
+    byType.set(deductionTypeId, (byType.get(deductionTypeId) ?? 0) + amount);
+    byEmployee.set(employeeID, byType);
+  }
+
+  const deductions: PayslipDeductionDraft[] = Array.from(byEmployee, ([EmployeeID, byType]) => ({
+    EmployeeID,
+    DeductionLines: Array.from(byType, ([DeductionTypeID, amount]) => ({
+      DeductionTypeID,
+      CalculationType: "FIXEDAMOUNT",
+      Amount: Math.round(amount * 100) / 100,
+    })),
+  }));
+
+  return { deductions, warnings };
+}
+
+export function xeroHeaders(accessToken: string, tenantId: string) {
+  return {
+    Authorization: `Bearer ${accessToken}`,
+    "Xero-tenant-id": tenantId,
+    Accept: "application/json",
+  };
+}
+
+export async function xeroGetJson(url: string, headers: Record<string, string>) {
+  const res = await fetch(url, { method: "GET", headers, cache: "no-store" });
+  if (!res.ok) throw new Error(`Xero GET ${url} failed (${res.status}): ${await res.text()}`);
+  return await res.json();
+}
+
+/** The DRAFT pay run for exactly this period and its payslips; payRunID "" when there isn't one. */
+export async function findDraftPayRun(args: {
+  headers: Record<string, string>;
+  periodStartISO: string;
+  periodEndISOInclusive: string;
+}): Promise<{ payRunID: string; payslips: any[] }> {
+  const { headers, periodStartISO, periodEndISOInclusive } = args;
+  const where = encodeURIComponent('PayRunStatus=="DRAFT"');
+  const runs = ((await xeroGetJson(`https://api.xero.com/payroll.xro/1.0/PayRuns?where=${where}`, headers))
+    ?.PayRuns ?? []) as any[];
+  const run = runs.find(
+    (r) =>
+      xeroDateISO(r?.PayRunPeriodStartDate) === periodStartISO &&
+      xeroDateISO(r?.PayRunPeriodEndDate) === periodEndISOInclusive,
+  );
+  const payRunID = s(run?.PayRunID);
+  if (!payRunID) return { payRunID, payslips: [] };
+
+  const detail = await xeroGetJson(`https://api.xero.com/payroll.xro/1.0/PayRuns/${encodeURIComponent(payRunID)}`, headers);
+  return { payRunID, payslips: (detail?.PayRuns?.[0]?.Payslips ?? []) as any[] };
+}
+
+/**
+ * Payslips only exist once the pay run is drafted in Xero, so this finds the DRAFT pay run
+ * for exactly this period and sets each employee's payslip DeductionLines. Without one,
+ * nothing is sent and every draft is reported as pending (push again after drafting).
+ */
+export async function pushPayslipDeductionsToXero(args: {
+  accessToken: string;
+  tenantId: string;
+  periodStartISO: string;
+  periodEndISOInclusive: string;
+  deductions: PayslipDeductionDraft[];
+}) {
+  const { accessToken, tenantId, periodStartISO, periodEndISOInclusive, deductions } = args;
+  const results: Array<{ employeeID: string; status: "UPDATED" | "PENDING" | "ERROR"; note?: string }> = [];
+  if (!deductions.length) return { payRunID: "", results };
+
+  const headers = xeroHeaders(accessToken, tenantId);
+  const { payRunID, payslips } = await findDraftPayRun({ headers, periodStartISO, periodEndISOInclusive });
+  if (!payRunID) {
+    for (const d of deductions) {
+      results.push({ employeeID: d.EmployeeID, status: "PENDING", note: "No draft pay run in Xero for this period yet." });
+    }
+    return { payRunID, results };
+  }
+
+  for (const d of deductions) {
+    const payslipID = s(payslips.find((p) => s(p?.EmployeeID) === d.EmployeeID)?.PayslipID);
+    if (!payslipID) {
+      results.push({ employeeID: d.EmployeeID, status: "PENDING", note: "Employee has no payslip in the draft pay run." });
+      continue;
+    }
+
+    const res = await fetch(`https://api.xero.com/payroll.xro/1.0/Payslip/${encodeURIComponent(payslipID)}`, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify([{ DeductionLines: d.DeductionLines }]),
+    });
+    if (!res.ok) {
+      results.push({ employeeID: d.EmployeeID, status: "ERROR", note: `Xero (${res.status}): ${(await res.text()).slice(0, 300)}` });
+      continue;
+    }
+    results.push({ employeeID: d.EmployeeID, status: "UPDATED" });
+  }
+
+  return { payRunID, results };
+}
@@ -0,0 +1,142 @@
+// src/server/xero/earnings.ts
+
+import type { PayLine } from "~/payroll_calc/types";
+import { findDraftPayRun, xeroGetJson, xeroHeaders } from "~/server/xero/deductions";
+import type { XeroEmployee, XeroPayItem } from "~/server/xero/payrollAu";
+import { activeEmployeesByName, earningsRateIdFor, isAmountLine } from "~/server/xero/timesheets";
+
+function s(v: any) {
+  return String(v ?? "").trim();
+}
+
+function norm(v: any) {
+  return s(v).toLowerCase().replace(/\s+/g, " ");
+}
+
+type PayslipEarningsLine =
+  | { EarningsRateID: string; FixedAmount: number }
+  | { EarningsRateID: string; RatePerUnit: number; NumberOfUnits: 1 };
+
+export type PayslipEarningsDraft = {
+  EmployeeID: string;
+  EarningsLines: PayslipEarningsLine[];
+};
+
+/**
+ * Amount lines (isAmountLine: allowances, bonuses, separate casual loading, on-call) go on payslips
+ * with the engine's $, summed per employee per earnings rate. FIXEDAMOUNT rates take it as FixedAmount;
+ * other rate types as one unit at that rate, so Xero never re-prices it.
+ */
+export function buildPayslipEarningsFromPayLines(args: {
+  payLines: PayLine[];
+  xeroEmployees: XeroEmployee[];
+  payItems: XeroPayItem;
+  explicitCategoryToEarningsRateId?: Record<string, string>;
+}) {
+  const { payLines, xeroEmployees, payItems, explicitCategoryToEarningsRateId } = args;
+
+  const amountLines = payLines.filter((l) => isAmountLine(l) && !l.isLeave && !l.isDeduction && !l.isOnCost);
+  const missingCategories: Array<{ employeeName: string; category: string }> = [];
+  if (!amountLines.length) return { earnings: [] as PayslipEarningsDraft[], warnings: [] as string[], missingCategories };
+
+  const rateTypeById = new Map<string, string>();
+  for (const r of (payItems?.earningsRates ?? []) as any[]) {
+    const id = s(r?.earningsRateID ?? r?.EarningsRateID);
+    if (id) rateTypeById.set(id, s(r?.rateType ?? r?.RateType).toUpperCase());
+  }
+
+  const employeeByName = activeEmployeesByName(xeroEmployees);
+  const warnings: string[] = [];
+  const byEmployee = new Map<string, Map<string, number>>();
+
+  for (const l of amountLines) {
+    const employee = employeeByName.get(norm(l.employeeName));
+    const employeeID = s(employee?.EmployeeID);
+    if (!employee || !employeeID) {
+      warnings.push(`Earnings skipped: no Xero EmployeeID for "${l.employeeName}"`);
+      continue;
+    }
+
+    const earningsRateId = earningsRateIdFor(l.category, employee, payItems, explicitCategoryToEarningsRateId);
+    if (!earningsRateId) {
+      missingCategories.push({ employeeName: l.employeeName, category: l.category });
+      continue;
+    }
+
+    const amount = Number(l.cost ?? Number(l.units ?? 0) * Number(l.unitRate ?? 0)) || 0;
+    if (amount === 0) continue;
+
+    const byRate = byEmployee.get(employeeID) ?? new Map<string, number>();
+    byRate.set(earningsRateId, (byRate.get(earningsRateId) ?? 0) + amount);
+    byEmployee.set(employeeID, byRate);
+  }
+
+  const earnings: PayslipEarningsDraft[] = Array.from(byEmployee, ([EmployeeID, byRate]) => ({
+    EmployeeID,
+    EarningsLines: Array.from(byRate, ([EarningsRateID, total]): PayslipEarningsLine => {
+      const amount = Math.round(total * 100) / 100;
+      return rateTypeById.get(EarningsRateID) === "FIXEDAMOUNT"
+        ? { EarningsRateID, FixedAmount: amount }
+        : { EarningsRateID, RatePerUnit: amount, NumberOfUnits: 1 };
+    }),
+  }));
+
+  return { earnings, warnings, missingCategories };
+}
+
+/**
+ * Sets the amount lines on each employee's payslip in the period's DRAFT pay run. Xero replaces a
+ * payslip's whole EarningsLines list, so the current lines are read first and only the lines for
+ * our earnings rates are swapped (timesheet hours on other rates are kept; pushing twice doesn't add up).
+ * Without a draft pay run nothing is sent and every draft is reported as pending.
+ */
+export async function pushPayslipEarningsToXero(args: {
+  accessToken: string;
+  tenantId: string;
+  periodStartISO: string;
+  periodEndISOInclusive: string;
+  earnings: PayslipEarningsDraft[];
+}) {
+  const { accessToken, tenantId, periodStartISO, periodEndISOInclusive, earnings } = args;
+  const results: Array<{ employeeID: string; status: "UPDATED" | "PENDING" | "ERROR"; note?: string }> = [];
+  if (!earnings.length) return { payRunID: "", results };
+
+  const headers = xeroHeaders(accessToken, tenantId);
+  const { payRunID, payslips } = await findDraftPayRun({ headers, periodStartISO, periodEndISOInclusive });
+  if (!payRunID) {
+    for (const d of earnings) {
+      results.push({ employeeID: d.EmployeeID, status: "PENDING", note: "No draft pay run in Xero for this period yet." });
+    }
+    return { payRunID, results };
+  }
+
+  for (const d of earnings) {
+    const payslipID = s(payslips.find((p) => s(p?.EmployeeID) === d.EmployeeID)?.PayslipID);
+    if (!payslipID) {
+      results.push({ employeeID: d.EmployeeID, status: "PENDING", note: "Employee has no payslip in the draft pay run." });
+      continue;
+    }
+
+    try {
+      const url = `https://api.xero.com/payroll.xro/1.0/Payslip/${encodeURIComponent(payslipID)}`;
+      const current = ((await xeroGetJson(url, headers))?.Payslip?.EarningsLines ?? []) as any[];
+      const ours = new Set(d.EarningsLines.map((l) => l.EarningsRateID));
+      const kept = current.filter((l) => !ours.has(s(l?.EarningsRateID)));
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify([{ EarningsLines: [...kept, ...d.EarningsLines] }]),
+      });
+      if (!res.ok) {
+        results.push({ employeeID: d.EmployeeID, status: "ERROR", note: `Xero (${res.status}): ${(await res.text()).slice(0, 300)}` });
+        continue;
+      }
+      results.push({ employeeID: d.EmployeeID, status: "UPDATED" });
+    } catch (e: any) {
+      results.push({ employeeID: d.EmployeeID, status: "ERROR", note: String(e?.message ?? e).slice(0, 300) });
+    }
+  }
+
+  return { payRunID, results };
+}
@@ -19,6 +19,19 @@ function hoursFromPayLine(l: any): number {
   return 0;
 }
 
+/**
+ * Fallback when there is no exact name match: a leave type whose name starts with the
+ * category's text before any "(...)", e.g. "Public Holiday (not worked)" -> "Public Holiday".
+ */
+function leaveTypeByPrefix(leaveTypeByName: Map<string, string>, title: string): string {
+  const prefix = norm(title.replace(/\(.*\)/g, ""));
+  if (!prefix) return "";
+  for (const [name, id] of leaveTypeByName) {
+    if (name.startsWith(prefix)) return id;
+  }
+  return "";
+}
+
 export type LeaveApplicationDraft = {
   EmployeeID: string;
   LeaveTypeID: string;
@@ -69,7 +82,7 @@ export function buildLeaveApplicationsFromPayLines(args: {
     }
 
     const title = s(l?.category || l?.type || "Leave");
-    const leaveTypeId = leaveTypeByName.get(norm(title)) || "";
+    const leaveTypeId = leaveTypeByName.get(norm(title)) || leaveTypeByPrefix(leaveTypeByName, title);
     if (!leaveTypeId) {
       warnings.push(`Leave skipped: could not find Xero LeaveTypeID for "${title}"`);
       continue;
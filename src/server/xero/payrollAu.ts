@@ -20,6 +20,13 @@ export type XeroPayItem = {
     name?: string;
     ratePerUnit?: number | string | null;
     earningsType?: string;
+    rateType?: string; // FIXEDAMOUNT | MULTIPLE | RATEPERUNIT
+  }>;
+  deductionTypes?: Array<{
+    deductionTypeID?: string;
+    name?: string;
+    deductionCategory?: string; // e.g. UNIONFEES, SALARYSACRIFICE, CHILDSUPPORT...
+    reducesTax?: boolean;
   }>;
 };
 
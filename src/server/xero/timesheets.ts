@@ -42,6 +42,48 @@ function employeeFullName(e: XeroEmployee): string {
   return `${fn} ${ln}`.trim();
 }
 
+/** Normalized full name -> active Xero employee (pay lines only carry the employee's name). */
+export function activeEmployeesByName(xeroEmployees: XeroEmployee[]): Map<string, XeroEmployee> {
+  const employeeByName = new Map<string, XeroEmployee>();
+  for (const e of xeroEmployees) {
+    const status = ((e.Status ?? (e as any).status ?? "") as string).toString().toUpperCase();
+    if (status && status !== "ACTIVE") continue;
+    const n = norm(employeeFullName(e));
+    if (n) employeeByName.set(n, e);
+  }
+  return employeeByName;
+}
+
+/**
+ * Lines whose $ the engine fixed (allowances, bonuses, separate casual loading, on-call): a
+ * timesheet only carries units, which Xero would pay at its own rate, so these go on payslips
+ * as earnings lines with the amount (server/xero/earnings.ts).
+ */
+export function isAmountLine(l: Pick<PayLine, "unitRate">): boolean {
+  return l.unitRate != null;
+}
+
+/**
+ * Earnings rate for a pay line's category: the admin's explicit mapping (PayrollEarningsRateMapping,
+ * matched case-insensitively) first, then the built-in rules below.
+ */
+export function earningsRateIdFor(
+  category: string,
+  xeroEmployee: XeroEmployee,
+  payItems: XeroPayItem,
+  explicitCategoryToEarningsRateId?: Record<string, string>,
+): string | null {
+  const cat = norm(category);
+  for (const [mapped, id] of Object.entries(explicitCategoryToEarningsRateId ?? {})) {
+    if (norm(mapped) === cat && String(id ?? "").trim()) return String(id).trim();
+  }
+  return (
+    pickEarningsRateIdForCategory(category, xeroEmployee, payItems) ||
+    (category === "ORD" ? (xeroEmployee.OrdinaryEarningsRateID ?? "").toString() : "") ||
+    null
+  );
+}
+
 function pickEarningsRateIdForCategory(
   category: string,
   xeroEmployee: XeroEmployee,
@@ -49,6 +91,10 @@ function pickEarningsRateIdForCategory(
 ): string | null {
   const cat = norm(category);
 
+  // Combined codes ("OT1.5+CAS25", "SAT1.5+NIGHT30") pay more than any one of their parts, so no single
+  // guessed rate is right: they need an explicit mapping
+  if (cat.includes("+")) return null;
+
   // 1) Ordinary: prefer the employee's own OrdinaryEarningsRateID (most reliable)
   if (cat === "ord" || cat.includes("ordinary")) {
     const ord = (xeroEmployee.OrdinaryEarningsRateID ?? (xeroEmployee as any).ordinaryEarningsRateID ?? "").toString();
@@ -74,6 +120,10 @@ function pickEarningsRateIdForCategory(
     return byName(/ordinary|normal|base/) ?? null;
   }
 
+  // 2a) An earnings rate named exactly like the category (allowances: "Site allowance", "Tool allowance")
+  const exact = byName(new RegExp(`^\\s*${cat.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`));
+  if (exact) return exact;
+
   // 2b) Leave types (we mainly use name matching)
   if (cat.includes("leave") || cat.includes("holiday") || cat.includes("sick")) {
     return (
@@ -95,6 +145,27 @@ function pickEarningsRateIdForCategory(
     return Number.isFinite(n) ? n : null;
   })();
 
+  // 3a) Worked public holiday (labels like "PH2.5")
+  if (/^ph\d/.test(cat)) {
+    return byName(/public\s*holiday.*work|worked.*public\s*holiday/) ?? byName(/public\s*holiday/) ?? null;
+  }
+
+  // 3b) Weekend penalties (labels like "SAT1.5", "SUN2.0") - their own earnings rates
+  const weekend = /^(sat|saturday)/.test(cat) ? "saturday|sat" : /^(sun|sunday)/.test(cat) ? "sunday|sun" : null;
+  if (weekend) {
+    const day = `\\b(${weekend})\\b`;
+    const withMult = mult != null ? byName(new RegExp(`${day}.*${String(mult).replace(".", "\\.")}`)) : null;
+    return withMult ?? byName(new RegExp(day)) ?? null;
+  }
+
+  // 3c) Shift loadings (labels like "AFTSHIFT15", "NIGHTSHIFT30", "PERMNIGHT30") - one earnings rate per shift type
+  if (/^(dayshift|aftshift|nightshift|permnight)/.test(cat)) {
+    if (cat.startsWith("permnight")) return byName(/permanent\s*night/) ?? byName(/night\s*shift/) ?? null;
+    if (cat.startsWith("nightshift")) return byName(/night\s*shift/) ?? null;
+    if (cat.startsWith("aftshift")) return byName(/afternoon\s*shift/) ?? null;
+    return byName(/day\s*shift/) ?? null;
+  }
+
   if (cat.includes("ot") || cat.includes("overtime")) {
     if (mult != null) {
       if (mult >= 1.9) {
@@ -107,6 +178,8 @@ function pickEarningsRateIdForCategory(
     return byName(/overtime|ot/) ?? null;
   }
 
+  // Anything else (e.g. time-of-day penalty codes like "NIGHT30") needs an explicit mapping:
+  // guessing from the code's first word picked unrelated rates
   return null;
 }
 
@@ -127,8 +200,11 @@ export function buildTimesheetsFromPayLines(args: {
     explicitCategoryToEarningsRateId,
   } = args;
 
-  // IMPORTANT: leave is pushed via LeaveApplications, not Timesheets.
-  const nonLeavePayLines = (payLines ?? []).filter((l: any) => !Boolean(l?.isLeave));
+  // IMPORTANT: leave is pushed via LeaveApplications, deductions and amount lines via payslips, not Timesheets.
+  // Employer on-costs (super) aren't paid to the employee at all.
+  const nonLeavePayLines = (payLines ?? []).filter(
+    (l: any) => !Boolean(l?.isLeave) && !l?.isDeduction && !l?.isOnCost && !isAmountLine(l),
+  );
 
   const endISOInclusive = periodEndISOInclusive;
 
@@ -137,14 +213,7 @@ export function buildTimesheetsFromPayLines(args: {
     throw new Error(`Bad pay period: ${periodStartISO} -> ${endISOInclusive} (inclusive)`);
   }
 
-  // name -> employee
-  const employeeByName = new Map<string, XeroEmployee>();
-  for (const e of xeroEmployees) {
-    const status = ((e.Status ?? (e as any).status ?? "") as string).toString().toUpperCase();
-    if (status && status !== "ACTIVE") continue;
-    const n = norm(employeeFullName(e));
-    if (n) employeeByName.set(n, e);
-  }
+  const employeeByName = activeEmployeesByName(xeroEmployees);
 
   // employeeId -> earningsRateId -> units[]
   const acc = new Map<string, Map<string, number[]>>();
@@ -164,11 +233,7 @@ export function buildTimesheetsFromPayLines(args: {
     const idx = dayIndex(periodStartISO, l.date);
     if (idx < 0 || idx >= dayCount) continue;
 
-    const explicit = explicitCategoryToEarningsRateId?.[l.category];
-    const earningsRateId =
-      (explicit ? explicit.toString() : "") ||
-      pickEarningsRateIdForCategory(l.category, e, payItems) ||
-      (l.category === "ORD" ? (e.OrdinaryEarningsRateID ?? "").toString() : "");
+    const earningsRateId = earningsRateIdFor(l.category, e, payItems, explicitCategoryToEarningsRateId);
 
     if (!earningsRateId) {
       missingCategories.push({ employeeName: l.employeeName, category: l.category });
@@ -179,7 +244,7 @@ export function buildTimesheetsFromPayLines(args: {
     const byRate = acc.get(employeeId)!;
     if (!byRate.has(earningsRateId)) byRate.set(earningsRateId, Array.from({ length: dayCount }, () => 0));
     const units = byRate.get(earningsRateId)!;
-    units[idx] += Number(l.hours ?? 0) || 0;
+    units[idx] += Number(l.hours) || 0;
   }
 
   const timesheets: XeroTimesheet[] = [];